@@ -1,11 +1,13 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from './components/ui/button';
 import { Card } from './components/ui/card';
 import { Textarea } from './components/ui/textarea';
+import { Input } from './components/ui/input';
 import { Slider } from './components/ui/slider';
 import { Switch } from './components/ui/switch';
 import { Badge } from './components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select';
 import { 
   Mic, 
   MicOff, 
@@ -24,21 +26,84 @@ import {
   Volume2,
   FileText,
   Image as ImageIcon,
+  BarChart3,
+  ChartPie,
+  ChartLine,
   Moon,
-  Sun
+  Sun,
+  GitCompare
 } from 'lucide-react';
+import toast from 'react-hot-toast';
 
 // Import our new utilities
-import { GlyphAnalyzer, AI_PROVIDERS, ResonanceAnalysis } from './lib/ai-providers';
-import { VoiceRecorder, SpeechToText, VoiceAnalysis } from './lib/voice-recorder';
-import { SessionManager, SessionEntry } from './lib/session-storage';
+import {
+  GlyphAnalyzer,
+  type AIProvider,
+  type EmergencePoint,
+  type ResonanceAnalysis,
+  type ResonanceData,
+  type SymbolicElement,
+  type Symbolism
+} from './lib/ai-providers';
+import { ProviderRegistry, getProviderTier } from './lib/provider-registry';
+import { VoiceRecorder, SpeechToText, VoiceAnalysis, analyzeAudioFile } from './lib/voice-recorder';
+import { extractImageFeatures, imageFingerprint, imageResonance, loadImagePixels } from './lib/image-analysis';
+import { deriveSeed } from './lib/random';
+import {
+  SessionManager,
+  searchEntries,
+  SessionEntry,
+  type EntryAnnotations,
+  type EntryFilters,
+  type EntrySort,
+  type FavoriteGlyph,
+  type SessionSummary
+} from './lib/session-storage';
+import { LocalStorageSessionStore, MemoryStorage } from './lib/session-store';
 import { GlyphRenderer } from './lib/glyph-renderer';
+import { Lexicon, LexiconStore, type LexiconPack } from './lib/lexicon';
+import { LANGUAGES } from './lib/language';
+import ProviderSettings from './components/ProviderSettings';
+import AnalysisDashboard from './components/AnalysisDashboard';
+import AnnotatedText from './components/AnnotatedText';
+import LexiconEditor from './components/LexiconEditor';
+import GlyphComparison from './components/GlyphComparison';
+import GlyphExportMenu from './components/GlyphExportMenu';
+import FavoritesGallery from './components/FavoritesGallery';
+import SessionSwitcher from './components/SessionSwitcher';
+import SessionImportDialog from './components/SessionImportDialog';
+import HistoryBrowser from './components/HistoryBrowser';
+import EntryDetailDrawer from './components/EntryDetailDrawer';
+import RecordingPlayback from './components/RecordingPlayback';
+import SessionStatsDashboard from './components/SessionStatsDashboard';
+import TrendsView from './components/TrendsView';
+import VoiceVisualizer from './components/VoiceVisualizer';
+import { renderGlyphSnapshot } from './lib/glyph-export';
+import { analyzeTrends } from './lib/trends';
+import {
+  WhisperTranscriber,
+  listTranscriptionProviders,
+  transcribeRecording,
+  type Transcript
+} from './lib/transcription';
+
+const FAVORITE_SNAPSHOT_SIZE = 320;
+const MAX_RECORDING_SECONDS = 60;
+const NO_TRANSCRIPTION_PROVIDER = 'none';
+const MAX_AUDIO_UPLOAD_BYTES = 25 * 1024 * 1024; // hosted Whisper's upload limit
+const AUDIO_FILE_PATTERN = /\.(wav|mp3|ogg|webm)$/i;
 
 function App() {
   // Core state
   const [inputText, setInputText] = useState('');
   const [currentAnalysis, setCurrentAnalysis] = useState<ResonanceAnalysis | null>(null);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [detailEntryId, setDetailEntryId] = useState<string | null>(null);
+  const [playbackEntryId, setPlaybackEntryId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisTimeline, setAnalysisTimeline] = useState<ResonanceData[]>([]);
+  const [symbolicElements, setSymbolicElements] = useState<SymbolicElement[]>([]);
+  const [analyzedText, setAnalyzedText] = useState('');
   const [activeTab, setActiveTab] = useState('input');
   const [isDarkMode, setIsDarkMode] = useState(true);
 
@@ -46,6 +111,10 @@ function App() {
   const [isRecording, setIsRecording] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [voiceAnalysis, setVoiceAnalysis] = useState<VoiceAnalysis | null>(null);
+  const [voiceTranscript, setVoiceTranscript] = useState<Transcript | null>(null);
+  const [recordedAudio, setRecordedAudio] = useState<Blob | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isDecodingAudio, setIsDecodingAudio] = useState(false);
 
   // Biometric simulation state
   const [pulseRate, setPulseRate] = useState([72]);
@@ -53,32 +122,65 @@ function App() {
 
   // Session and history state
   const [sessionEntries, setSessionEntries] = useState<SessionEntry[]>([]);
-  const [selectedProvider, setSelectedProvider] = useState(AI_PROVIDERS[0]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteGlyph[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [comparisonEntries, setComparisonEntries] = useState<SessionEntry[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [providerRegistry] = useState(() => new ProviderRegistry());
+  const [providers, setProviders] = useState<AIProvider[]>(() => providerRegistry.listProviders());
+  const [selectedProvider, setSelectedProvider] = useState<AIProvider>(() => providerRegistry.getDefaultProvider());
+  const [lexiconStore] = useState(() => new LexiconStore());
+  const [lexicon, setLexicon] = useState(() => new Lexicon(lexiconStore.getActivePack()));
 
   // Settings state
   const [liveTyping, setLiveTyping] = useState(false);
   const [autoAnalyze, setAutoAnalyze] = useState(true);
   const [showParticles, setShowParticles] = useState(true);
   const [showResonanceField, setShowResonanceField] = useState(true);
+  const [glyphSeed, setGlyphSeed] = useState('');
+  const [speechLanguage, setSpeechLanguage] = useState('en-US');
+  const [transcriptionProviderId, setTranscriptionProviderId] = useState('');
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const glyphRendererRef = useRef<GlyphRenderer | null>(null);
   const voiceRecorderRef = useRef<VoiceRecorder | null>(null);
   const speechToTextRef = useRef<SpeechToText | null>(null);
   const sessionManagerRef = useRef<SessionManager | null>(null);
   const analyzerRef = useRef<GlyphAnalyzer | null>(null);
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const speechCaptureRef = useRef<string[] | null>(null); // recognised while recording, for the transcript fallback
+
+  // Mirror the open session's history, favorites and preferences into state
+  const applySession = useCallback((manager: SessionManager) => {
+    setSessions(manager.listSessions());
+    setCurrentSessionId(manager.getCurrentSession().id);
+    setSessionEntries(manager.getEntries());
+    setFavorites(manager.getFavorites());
+    setCurrentEntryId(null);
+    setCompareIds([]);
+
+    // Load preferences
+    const preferences = manager.getPreferences();
+    setIsDarkMode(preferences.darkMode);
+    setAutoAnalyze(preferences.autoAnalyze);
+    setGlyphSeed(preferences.glyphSeed);
+    setSpeechLanguage(preferences.speechLanguage);
+    speechToTextRef.current?.setLanguage(preferences.speechLanguage);
+    setTranscriptionProviderId(preferences.transcriptionProvider);
+    const preferredProvider = providerRegistry.getProvider(preferences.aiProvider);
+    if (preferredProvider) {
+      setSelectedProvider(preferredProvider);
+    }
+  }, [providerRegistry]);
 
   // Initialize services
   useEffect(() => {
-    // Initialize session manager
-    sessionManagerRef.current = new SessionManager();
-    const entries = sessionManagerRef.current.getEntries(10);
-    setSessionEntries(entries);
-
-    // Initialize AI analyzer
-    analyzerRef.current = new GlyphAnalyzer(selectedProvider);
+    let cancelled = false;
 
     // Initialize voice services
     voiceRecorderRef.current = new VoiceRecorder();
@@ -89,17 +191,152 @@ function App() {
       glyphRendererRef.current = new GlyphRenderer(canvasRef.current);
     }
 
-    // Load preferences
-    const preferences = sessionManagerRef.current.getPreferences();
-    setIsDarkMode(preferences.darkMode);
-    setAutoAnalyze(preferences.autoAnalyze);
+    // Initialize session manager; storage opens asynchronously. If no browser storage
+    // can be opened, the app still works with a session that lasts for the page only
+    SessionManager.open().catch(error => {
+      console.error('Could not open session storage:', error);
+      toast.error('Session storage is unavailable; history will not be saved after this page closes');
+      return SessionManager.open(new LocalStorageSessionStore(new MemoryStorage()));
+    }).then(manager => {
+      if (cancelled) return;
+      sessionManagerRef.current = manager;
+      applySession(manager);
+    });
 
     return () => {
+      cancelled = true;
       if (glyphRendererRef.current) {
         glyphRendererRef.current.stopAnimation();
       }
     };
-  }, [selectedProvider]);
+  }, [applySession]);
+
+  const transcriptionProviders = useMemo(() => listTranscriptionProviders(providers), [providers]);
+
+  const createTranscriber = useCallback(() => {
+    const provider = transcriptionProviders.find(candidate => candidate.id === transcriptionProviderId);
+    return provider && providerRegistry.isReady(provider)
+      ? new WhisperTranscriber(provider, { rateLimiter: providerRegistry.getRateLimiter(provider.id) })
+      : null;
+  }, [transcriptionProviders, transcriptionProviderId, providerRegistry]);
+
+  const handleRecordingStopped = useCallback(async (audioBlob: Blob, analysis: VoiceAnalysis) => {
+    setIsRecording(false);
+    setVoiceAnalysis(analysis);
+    // The entry keeps the latest audio, with or without a transcript
+    setRecordedAudio(audioBlob);
+    setVoiceTranscript(null);
+
+    const captured = speechCaptureRef.current;
+    if (captured) {
+      speechToTextRef.current?.stopListening();
+      speechCaptureRef.current = null;
+    }
+
+    const transcriber = createTranscriber();
+    setIsTranscribing(true);
+    try {
+      const transcript = await transcribeRecording(audioBlob, {
+        transcriber,
+        fallbackText: captured?.join(' ') ?? '',
+        duration: analysis.duration,
+        language: speechLanguage.split('-')[0]
+      });
+      if (!transcript) {
+        toast.error('No speech was recognised in the recording');
+        return;
+      }
+      if (transcriber && transcript.source !== 'whisper') {
+        toast('Transcription service unavailable; used speech recognition instead');
+      }
+      setInputText(prev => prev + (prev ? ' ' : '') + transcript.text);
+      setVoiceTranscript(transcript);
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, [createTranscriber, speechLanguage]);
+
+  // Handles manual stops and the max-duration auto-stop alike
+  useEffect(() => {
+    const recorder = voiceRecorderRef.current;
+    if (!recorder) return;
+    return recorder.subscribe(event => {
+      if (event.type === 'stop') handleRecordingStopped(event.audioBlob, event.analysis);
+    });
+  }, [handleRecordingStopped]);
+
+  // Rebuild the analyzer whenever the provider, its key or the active lexicon changes
+  useEffect(() => {
+    analyzerRef.current = new GlyphAnalyzer(selectedProvider, {
+      rateLimiter: providerRegistry.getRateLimiter(selectedProvider.id),
+      lexicon
+    });
+  }, [selectedProvider, providerRegistry, lexicon]);
+
+  const handleAnalyze = useCallback(async () => {
+    if (!inputText.trim() || !analyzerRef.current) return;
+
+    // A newer analysis supersedes one that is still streaming
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    setIsAnalyzing(true);
+    const startedAt = performance.now();
+    try {
+      let analysis: ResonanceAnalysis | null = null;
+      for await (const update of analyzerRef.current.analyzeTextStream(inputText, {
+        signal: controller.signal,
+        seed: glyphSeed || undefined
+      })) {
+        setCurrentAnalysis(update.analysis);
+        if (update.complete) analysis = update.analysis;
+      }
+
+      if (analysis) {
+        const timeline = analyzerRef.current.analyzeTimeline(inputText);
+        setAnalysisTimeline(timeline);
+        setSymbolicElements(analyzerRef.current.extractSymbolicElements(inputText));
+        setAnalyzedText(inputText);
+      }
+
+      // Save to session
+      if (analysis && sessionManagerRef.current) {
+        const isVoice = recordedAudio !== null;
+        const entry = sessionManagerRef.current.addEntry(
+          isVoice ? 'voice' : 'text',
+          inputText,
+          analysis,
+          {
+            voiceAnalysis: isVoice ? voiceAnalysis || undefined : undefined,
+            analysisDuration: Math.round(performance.now() - startedAt),
+            transcript: isVoice ? voiceTranscript || undefined : undefined
+          }
+        );
+        // Voice entries keep their recording so they can be replayed from history. The
+        // recording belongs to this entry alone; later analyses of the text are text entries
+        if (isVoice) {
+          if (voiceAnalysis) {
+            sessionManagerRef.current.saveAudio(entry.id, recordedAudio, voiceAnalysis.duration);
+          }
+          setRecordedAudio(null);
+          setVoiceTranscript(null);
+        }
+        setSessionEntries(prev => [sessionManagerRef.current?.getEntry(entry.id) ?? entry, ...prev]);
+        setCurrentEntryId(entry.id);
+        setSessions(sessionManagerRef.current.listSessions());
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Analysis failed:', error);
+      }
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  }, [inputText, voiceAnalysis, voiceTranscript, recordedAudio, glyphSeed]);
 
   // Handle live typing analysis
   useEffect(() => {
@@ -123,7 +360,7 @@ function App() {
   // Update glyph renderer when analysis changes
   useEffect(() => {
     if (currentAnalysis && glyphRendererRef.current && canvasRef.current) {
-      glyphRendererRef.current.render(currentAnalysis, {
+      glyphRendererRef.current.morphTo(currentAnalysis, {
         width: canvasRef.current.width,
         height: canvasRef.current.height,
         animate: true,
@@ -134,54 +371,69 @@ function App() {
     }
   }, [currentAnalysis, showParticles, showResonanceField]);
 
-  const handleAnalyze = useCallback(async () => {
-    if (!inputText.trim() || !analyzerRef.current) return;
+  const handleInputChange = (value: string) => {
+    // Editing mid-analysis cancels the stream; live analysis picks up the new text
+    analysisAbortRef.current?.abort();
+    setInputText(value);
+    // Clearing the input ends the voice entry its transcript belonged to
+    if (!value.trim()) {
+      setVoiceTranscript(null);
+      setRecordedAudio(null);
+    }
+  };
 
-    setIsAnalyzing(true);
-    try {
-      const analysis = await analyzerRef.current.analyzeText(inputText);
-      setCurrentAnalysis(analysis);
+  // Selects the sentence an emergence point came from so it shows in the input
+  const highlightEmergence = (point: EmergencePoint) => {
+    const textarea = textareaRef.current;
+    if (!textarea || point.end <= point.start) return;
+    textarea.focus();
+    textarea.setSelectionRange(point.start, point.end);
+    // Scroll the selection into view by estimating its line
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    const line = textarea.value.slice(0, point.start).split('\n').length - 1;
+    textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2);
+  };
 
-      // Save to session
-      if (sessionManagerRef.current) {
-        const entry = sessionManagerRef.current.addEntry(
-          'text',
-          inputText,
-          analysis,
-          voiceAnalysis || undefined
-        );
-        setSessionEntries(prev => [entry, ...prev.slice(0, 9)]);
-      }
-    } catch (error) {
-      console.error('Analysis failed:', error);
-    } finally {
-      setIsAnalyzing(false);
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !glyphRendererRef.current) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (canvas.width / rect.width);
+    const y = (event.clientY - rect.top) * (canvas.height / rect.height);
+    const point = glyphRendererRef.current.getEmergencePointAt(x, y);
+    if (point) {
+      highlightEmergence(point);
     }
-  }, [inputText, voiceAnalysis]);
+  };
 
   const handleVoiceRecord = async () => {
     if (!voiceRecorderRef.current) return;
 
     if (isRecording) {
       try {
-        const { audioBlob, analysis } = await voiceRecorderRef.current.stopRecording();
-        setIsRecording(false);
-        setVoiceAnalysis(analysis);
-        
-        // Convert audio to text if speech recognition is available
-        if (speechToTextRef.current) {
-          // For demo purposes, we'll simulate transcription
-          const simulatedText = "Voice input detected - analyzing acoustic patterns and emotional resonance...";
-          setInputText(prev => prev + (prev ? ' ' : '') + simulatedText);
-        }
+        // The recorder's stop event updates the UI and transcribes
+        await voiceRecorderRef.current.stopRecording();
       } catch (error) {
         console.error('Recording failed:', error);
         setIsRecording(false);
       }
     } else {
       try {
-        await voiceRecorderRef.current.startRecording({ maxDuration: 60 });
+        await voiceRecorderRef.current.startRecording({ maxDuration: MAX_RECORDING_SECONDS });
         setIsRecording(true);
+
+        // Speech recognition runs alongside as the transcript fallback
+        const speech = speechToTextRef.current;
+        if (speech && !speech.isActive()) {
+          const captured: string[] = [];
+          speechCaptureRef.current = captured;
+          speech.startListening((text, isFinal) => {
+            if (isFinal) captured.push(text.trim());
+          }).catch(error => {
+            console.warn('Speech recognition unavailable while recording:', error);
+            speechCaptureRef.current = null;
+          });
+        }
       } catch (error) {
         console.error('Could not start recording:', error);
       }
@@ -208,27 +460,129 @@ function App() {
     }
   };
 
+  // Uploaded audio goes through the recorder's analysis offline and becomes a voice entry
+  const handleAudioUpload = async (file: File) => {
+    if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+      toast.error('Audio files must be 25 MB or smaller');
+      return;
+    }
+
+    setIsDecodingAudio(true);
+    let analysis: VoiceAnalysis;
+    try {
+      analysis = await analyzeAudioFile(file);
+    } catch (error) {
+      console.error('Audio file analysis failed:', error);
+      toast.error(`Could not decode ${file.name}`);
+      return;
+    } finally {
+      setIsDecodingAudio(false);
+    }
+    setVoiceAnalysis(analysis);
+    setRecordedAudio(file);
+    setVoiceTranscript(null);
+
+    const transcriber = createTranscriber();
+    if (!transcriber) {
+      toast('Audio analysed. Choose a transcription service in Settings to transcribe uploads, or describe the recording yourself');
+      return;
+    }
+    setIsTranscribing(true);
+    try {
+      const transcript = await transcribeRecording(file, {
+        transcriber,
+        fallbackText: '',
+        duration: analysis.duration,
+        language: speechLanguage.split('-')[0]
+      });
+      if (!transcript) {
+        toast.error('The audio file could not be transcribed; describe it yourself to analyse it');
+        return;
+      }
+      setInputText(prev => prev + (prev ? ' ' : '') + transcript.text);
+      setVoiceTranscript(transcript);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  // Uploaded images are measured on a canvas and saved straight away as symbol entries
+  const handleImageUpload = async (file: File) => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    setIsAnalyzing(true);
+    const startedAt = performance.now();
+    try {
+      const { pixels, preview, thumbnail } = await loadImagePixels(file);
+      const features = extractImageFeatures(pixels);
+
+      // A vision-capable provider adds a description; the glyph never depends on it
+      let description: string | null = null;
+      try {
+        description = await analyzerRef.current?.describeImage(preview, controller.signal) ?? null;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Image description failed:', error);
+      }
+
+      const analysis = imageResonance(features, deriveSeed(imageFingerprint(features), glyphSeed || undefined));
+      const inputData = description ? `${file.name}: ${description}` : file.name;
+      setCurrentAnalysis(analysis);
+      setAnalysisTimeline([]);
+      setSymbolicElements([]);
+      setAnalyzedText(inputData);
+
+      if (sessionManagerRef.current) {
+        const entry = sessionManagerRef.current.addEntry('symbol', inputData, analysis, {
+          analysisDuration: Math.round(performance.now() - startedAt),
+          symbolImage: thumbnail,
+          imageFeatures: features
+        });
+        setSessionEntries(prev => [entry, ...prev]);
+        setCurrentEntryId(entry.id);
+        setSessions(sessionManagerRef.current.listSessions());
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Image analysis failed:', error);
+      toast.error(`Could not read ${file.name} as an image`);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // The same file can be picked again after clearing the input
+    event.target.value = '';
+
+    if (file.type.startsWith('audio/') || AUDIO_FILE_PATTERN.test(file.name)) {
+      handleAudioUpload(file);
+      return;
+    }
+    if (file.type.startsWith('image/')) {
+      handleImageUpload(file);
+      return;
+    }
 
+    // Everything else the picker accepts is text: .txt, .md and .json
     const reader = new FileReader();
     reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (file.type.startsWith('text/')) {
-        setInputText(content);
-      } else {
-        // For non-text files, add a description
-        setInputText(`Uploaded file: ${file.name} (${file.type}) - analyzing symbolic content and metadata patterns...`);
-      }
+      setInputText(e.target?.result as string);
     };
     reader.readAsText(file);
   };
 
-  const exportSession = () => {
+  const exportSession = async () => {
     if (!sessionManagerRef.current) return;
     
-    const sessionData = sessionManagerRef.current.exportSession();
+    const sessionData = await sessionManagerRef.current.exportSession();
     const blob = new Blob([sessionData], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -238,6 +592,193 @@ function App() {
     URL.revokeObjectURL(url);
   };
 
+  const handleLexiconChange = (pack: LexiconPack) => {
+    setLexicon(new Lexicon(pack));
+  };
+
+  const handleProviderSelect = (provider: AIProvider) => {
+    setSelectedProvider(provider);
+    if (sessionManagerRef.current) {
+      sessionManagerRef.current.updatePreferences({ aiProvider: provider.id });
+    }
+  };
+
+  const handleProvidersChange = () => {
+    const updated = providerRegistry.listProviders();
+    setProviders(updated);
+    setSelectedProvider(prev => updated.find(p => p.id === prev.id) || providerRegistry.getDefaultProvider());
+  };
+
+  const handleGlyphSeedChange = (value: string) => {
+    setGlyphSeed(value);
+    if (sessionManagerRef.current) {
+      sessionManagerRef.current.updatePreferences({ glyphSeed: value });
+    }
+  };
+
+  const handleTranscriptionProviderChange = (value: string) => {
+    const id = value === NO_TRANSCRIPTION_PROVIDER ? '' : value;
+    setTranscriptionProviderId(id);
+    if (sessionManagerRef.current) {
+      sessionManagerRef.current.updatePreferences({ transcriptionProvider: id });
+    }
+  };
+
+  const handleSpeechLanguageChange = (value: string) => {
+    setSpeechLanguage(value);
+    speechToTextRef.current?.setLanguage(value);
+    if (sessionManagerRef.current) {
+      sessionManagerRef.current.updatePreferences({ speechLanguage: value });
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      return prev.length >= 4 ? prev : [...prev, id];
+    });
+  };
+
+  const openComparison = () => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    const entries = compareIds
+      .map(id => manager.getEntry(id))
+      .filter((entry): entry is SessionEntry => entry !== null);
+    if (entries.length < 2) return;
+    setComparisonEntries(entries);
+    setIsComparing(true);
+  };
+
+  // Runs a session operation, then reloads whichever session is open afterwards
+  const changeSessions = async (operation: (manager: SessionManager) => Promise<unknown> | void) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    try {
+      await operation(manager);
+      applySession(manager);
+    } catch (error) {
+      console.error('Session operation failed:', error);
+      toast.error('Session operation failed');
+    }
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    manager.renameSession(id, name);
+    setSessions(manager.listSessions());
+  };
+
+  const handleDuplicateSession = (id: string) => changeSessions(async manager => {
+    const copy = await manager.duplicateSession(id);
+    if (copy) toast.success(`Created "${copy.name}"`);
+  });
+
+  // Re-created whenever history changes so the browser searches again
+  const searchHistory = useCallback(
+    (query: string, filters: EntryFilters, sort: EntrySort) => searchEntries(sessionEntries, query, filters, sort),
+    [sessionEntries]
+  );
+
+  // Puts a saved analysis back on the canvas without re-running it
+  const restoreEntry = (entry: SessionEntry) => {
+    analysisAbortRef.current?.abort();
+    setCurrentAnalysis(entry.analysis);
+    setCurrentEntryId(entry.id);
+    setAnalyzedText(entry.inputData);
+    const analyzer = analyzerRef.current;
+    if (analyzer) {
+      setAnalysisTimeline(analyzer.analyzeTimeline(entry.inputData));
+      setSymbolicElements(analyzer.extractSymbolicElements(entry.inputData));
+    }
+  };
+
+  const restoreLatestEntry = (entryIds: string[]) => {
+    const entry = sessionEntries
+      .filter(candidate => entryIds.includes(candidate.id))
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (entry) restoreEntry(entry);
+  };
+
+  const saveAnnotations = (id: string, annotations: EntryAnnotations) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    manager.annotateEntry(id, annotations);
+    setSessionEntries(manager.getEntries());
+    setDetailEntryId(null);
+    toast.success('Entry updated');
+  };
+
+  const loadRecording = useCallback(
+    (entryId: string) => sessionManagerRef.current?.getAudio(entryId) ?? Promise.resolve(null),
+    []
+  );
+
+  const toggleFavorite = (entry: SessionEntry) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    const existing = manager.getFavoriteForEntry(entry.id);
+    if (existing) {
+      manager.removeFromFavorites(existing.id);
+      toast.success('Removed from favorites');
+    } else {
+      manager.addToFavorites(entry, renderGlyphSnapshot(entry.analysis, FAVORITE_SNAPSHOT_SIZE));
+      toast.success('Added to favorites');
+    }
+    setFavorites(manager.getFavorites());
+  };
+
+  const toggleCurrentFavorite = () => {
+    const entry = currentEntryId ? sessionManagerRef.current?.getEntry(currentEntryId) : null;
+    if (entry) toggleFavorite(entry);
+  };
+
+  const rerenderFavorite = (favorite: FavoriteGlyph) => {
+    const manager = sessionManagerRef.current;
+    const entry = manager?.getEntry(favorite.entryId);
+    if (!manager || !entry) return;
+    manager.updateFavorite(favorite.id, { snapshot: renderGlyphSnapshot(entry.analysis, FAVORITE_SNAPSHOT_SIZE) });
+    setFavorites(manager.getFavorites());
+  };
+
+  const updateFavorite = (id: string, updates: Pick<FavoriteGlyph, 'title' | 'collection'>) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    manager.updateFavorite(id, updates);
+    setFavorites(manager.getFavorites());
+  };
+
+  const reorderFavorites = (orderedIds: string[]) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    manager.reorderFavorites(orderedIds);
+    setFavorites(manager.getFavorites());
+  };
+
+  const deleteFavorite = (id: string) => {
+    const manager = sessionManagerRef.current;
+    if (!manager) return;
+    manager.removeFromFavorites(id);
+    setFavorites(manager.getFavorites());
+  };
+
+  const isFavorite = (entryId: string | null) =>
+    entryId !== null && favorites.some(favorite => favorite.entryId === entryId);
+
+  // Entries saved before symbolism was recorded get it recomputed from their input
+  const describeSymbolism = useCallback((entry: SessionEntry): Symbolism => {
+    if (entry.analysis.symbolism) return entry.analysis.symbolism;
+    const analyzer = analyzerRef.current ?? new GlyphAnalyzer(selectedProvider, { lexicon });
+    return analyzer.extractSymbolism(entry.inputData, entry.analysis.seed);
+  }, [selectedProvider, lexicon]);
+
+  // Only computed while the Trends tab is open
+  const trendReport = useMemo(
+    () => (activeTab === 'trends' ? analyzeTrends(sessionEntries, { describeSymbolism }) : null),
+    [activeTab, sessionEntries, describeSymbolism]
+  );
+
   const toggleTheme = () => {
     setIsDarkMode(!isDarkMode);
     if (sessionManagerRef.current) {
@@ -280,8 +821,19 @@ function App() {
           </div>
           
           <div className="flex items-center space-x-4">
+            <SessionSwitcher
+              sessions={sessions}
+              currentId={currentSessionId}
+              onSwitch={(id) => changeSessions(manager => manager.switchSession(id))}
+              onCreate={(name) => changeSessions(manager => manager.createSession(name))}
+              onRename={handleRenameSession}
+              onArchive={(id, archived) => changeSessions(manager => manager.archiveSession(id, archived))}
+              onDuplicate={handleDuplicateSession}
+              onMerge={(sourceId, targetId) => changeSessions(manager => manager.mergeSessions(sourceId, targetId))}
+              onDelete={(id) => changeSessions(manager => manager.deleteSession(id))}
+            />
             <Badge variant="outline" className="border-cyan/30 text-cyan">
-              {selectedProvider.name} • Free Tier
+              {selectedProvider.name} • {getProviderTier(selectedProvider)}
             </Badge>
             <Button
               variant="ghost"
@@ -307,6 +859,7 @@ function App() {
                   variant={isRecording ? "destructive" : "outline"}
                   size="sm"
                   onClick={handleVoiceRecord}
+                  disabled={isTranscribing}
                   className="border-cyan/30"
                 >
                   {isRecording ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
@@ -323,6 +876,7 @@ function App() {
                   variant="outline"
                   size="sm"
                   onClick={() => document.getElementById('file-upload')?.click()}
+                  disabled={isDecodingAudio || isTranscribing}
                   className="border-cyan/30"
                 >
                   <Upload className="w-4 h-4" />
@@ -332,18 +886,45 @@ function App() {
                   type="file"
                   className="hidden"
                   onChange={handleFileUpload}
-                  accept=".txt,.md,.json,image/*"
+                  accept=".txt,.md,.json,image/*,audio/*,.wav,.mp3,.ogg,.webm"
                 />
               </div>
             </div>
 
             <Textarea
+              ref={textareaRef}
               value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               placeholder="Enter your stream of consciousness, upload a symbol, or speak your thoughts..."
               className="min-h-32 bg-obsidian/50 border-cyan/20 text-white placeholder-gray-400 resize-none"
             />
 
+            {isRecording && voiceRecorderRef.current && (
+              <VoiceVisualizer recorder={voiceRecorderRef.current} maxDuration={MAX_RECORDING_SECONDS} />
+            )}
+            {isDecodingAudio && (
+              <div className="mt-2 flex items-center text-xs text-gray-400">
+                <Sparkles className="w-3 h-3 mr-2 animate-spin" />
+                Analysing audio file…
+              </div>
+            )}
+            {isTranscribing && (
+              <div className="mt-2 flex items-center text-xs text-gray-400">
+                <Sparkles className="w-3 h-3 mr-2 animate-spin" />
+                Transcribing recording…
+              </div>
+            )}
+            {recordedAudio && !isTranscribing && (
+              <div className="mt-2 text-xs text-gray-500">
+                {voiceTranscript ? (
+                  <>
+                    Voice entry · transcribed by {voiceTranscript.source === 'whisper' ? 'Whisper' : 'speech recognition'}
+                    {voiceTranscript.timingsEstimated && ' (estimated word timings)'}
+                  </>
+                ) : 'Voice entry · not transcribed'}
+              </div>
+            )}
+
             <div className="flex items-center justify-between mt-4">
               <div className="flex items-center space-x-4">
                 <div className="flex items-center space-x-2">
@@ -471,6 +1052,27 @@ function App() {
                 >
                   <Brain className="w-4 h-4" />
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={toggleCurrentFavorite}
+                  disabled={!currentEntryId || isAnalyzing}
+                  className="border-cyan/30"
+                  aria-label={isFavorite(currentEntryId) ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <Star className={`w-4 h-4 ${isFavorite(currentEntryId) ? 'fill-current text-yellow-400' : ''}`} />
+                </Button>
+                <GlyphExportMenu
+                  analysis={currentAnalysis}
+                  options={{
+                    width: 400,
+                    height: 400,
+                    animate: false,
+                    showParticles,
+                    showResonanceField,
+                    complexity: currentAnalysis?.glyphData.complexity ?? 1
+                  }}
+                />
               </div>
             </div>
             
@@ -479,6 +1081,7 @@ function App() {
                 ref={canvasRef}
                 width={400}
                 height={400}
+                onClick={handleCanvasClick}
                 className="w-full h-auto border border-cyan/20 rounded-lg bg-obsidian/30"
               />
               
@@ -495,7 +1098,10 @@ function App() {
             {currentAnalysis && (
               <div className="mt-4 p-4 bg-obsidian/30 rounded-lg">
                 <h4 className="text-sm font-semibold text-white mb-2">Meaning Signature</h4>
-                <p className="text-sm text-gray-300">{currentAnalysis.meaningSignature}</p>
+                <p className="text-sm text-gray-300">
+                  {currentAnalysis.meaningSignature}
+                  {isAnalyzing && <span className="ml-0.5 animate-pulse text-cyan">▍</span>}
+                </p>
                 
                 <div className="flex flex-wrap gap-2 mt-3">
                   <Badge variant="outline" className="border-cyan/30 text-cyan">
@@ -507,6 +1113,11 @@ function App() {
                   <Badge variant="outline" className="border-gold/30 text-gold">
                     Complexity: {currentAnalysis.glyphData.complexity}
                   </Badge>
+                  {currentAnalysis.language && (
+                    <Badge variant="outline" className="border-gray-400/30 text-gray-300">
+                      {LANGUAGES[currentAnalysis.language].nativeLabel}
+                    </Badge>
+                  )}
                 </div>
               </div>
             )}
@@ -517,10 +1128,19 @@ function App() {
         <div className="lg:col-span-1">
           <Card className="glass-card p-6 h-full">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-4 bg-obsidian/50">
+              <TabsList className="grid w-full grid-cols-7 bg-obsidian/50">
                 <TabsTrigger value="input" className="text-xs">
                   <FileText className="w-4 h-4" />
                 </TabsTrigger>
+                <TabsTrigger value="dashboard" className="text-xs">
+                  <BarChart3 className="w-4 h-4" />
+                </TabsTrigger>
+                <TabsTrigger value="stats" className="text-xs">
+                  <ChartPie className="w-4 h-4" />
+                </TabsTrigger>
+                <TabsTrigger value="trends" className="text-xs">
+                  <ChartLine className="w-4 h-4" />
+                </TabsTrigger>
                 <TabsTrigger value="history" className="text-xs">
                   <History className="w-4 h-4" />
                 </TabsTrigger>
@@ -548,6 +1168,10 @@ function App() {
                       </div>
                     </div>
 
+                    {analyzedText && (
+                      <AnnotatedText text={analyzedText} elements={symbolicElements} />
+                    )}
+
                     {voiceAnalysis && (
                       <div className="p-4 bg-obsidian/30 rounded-lg">
                         <h4 className="text-sm font-semibold text-white mb-2">Voice Analysis</h4>
@@ -556,6 +1180,20 @@ function App() {
                           <div>Tone: {voiceAnalysis.emotionalTone}</div>
                           <div>Speech Rate: {voiceAnalysis.speechRate} WPM</div>
                           <div>Avg Volume: {voiceAnalysis.averageVolume}</div>
+                          {voiceAnalysis.pitchMean != null && (
+                            <>
+                              <div>Pitch: {Math.round(voiceAnalysis.pitchMean)} Hz</div>
+                              <div>Range: {Math.round(voiceAnalysis.pitchMin ?? 0)}–{Math.round(voiceAnalysis.pitchMax ?? 0)} Hz</div>
+                              <div>Jitter: {((voiceAnalysis.jitter ?? 0) * 100).toFixed(2)}%</div>
+                              <div>Shimmer: {((voiceAnalysis.shimmer ?? 0) * 100).toFixed(1)}%</div>
+                            </>
+                          )}
+                          {voiceAnalysis.syllableRate !== undefined && (
+                            <>
+                              <div>Syllables: {voiceAnalysis.syllableRate.toFixed(1)}/s</div>
+                              <div>Brightness: {Math.round(voiceAnalysis.spectralCentroid ?? 0)} Hz</div>
+                            </>
+                          )}
                         </div>
                       </div>
                     )}
@@ -563,40 +1201,94 @@ function App() {
                 )}
               </TabsContent>
 
+              <TabsContent value="dashboard" className="mt-4">
+                <AnalysisDashboard
+                  timeline={analysisTimeline}
+                  emergencePoints={currentAnalysis?.emergencePoints ?? []}
+                  symbolicElements={symbolicElements}
+                  onSelectEmergence={highlightEmergence}
+                />
+              </TabsContent>
+
+              <TabsContent value="stats" className="mt-4">
+                {activeTab === 'stats' && sessionManagerRef.current && (
+                  <SessionStatsDashboard stats={sessionManagerRef.current.getSessionStats()} />
+                )}
+              </TabsContent>
+
+              <TabsContent value="trends" className="mt-4">
+                {trendReport && <TrendsView report={trendReport} onSelectDay={restoreLatestEntry} />}
+              </TabsContent>
+
               <TabsContent value="history" className="mt-4">
-                <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {sessionEntries.map((entry) => (
-                    <div key={entry.id} className="p-3 bg-obsidian/30 rounded-lg">
-                      <div className="flex items-center justify-between mb-2">
-                        <Badge variant="outline" className="text-xs">
-                          {entry.inputType}
-                        </Badge>
-                        <span className="text-xs text-gray-400">
-                          {new Date(entry.timestamp).toLocaleTimeString()}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-300 truncate">{entry.inputData}</p>
-                      <div className="flex flex-wrap gap-1 mt-2">
-                        {entry.tags.slice(0, 3).map((tag) => (
-                          <Badge key={tag} variant="secondary" className="text-xs">
-                            {tag}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <Button
+                  onClick={openComparison}
+                  disabled={compareIds.length < 2}
+                  variant="outline"
+                  size="sm"
+                  className="w-full mb-3 border-cyan/30"
+                >
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  {compareIds.length < 2 ? 'Select 2–4 entries to compare' : `Compare ${compareIds.length} glyphs`}
+                </Button>
+                <HistoryBrowser
+                  entries={sessionEntries}
+                  tags={sessionManagerRef.current?.getAllTags() ?? []}
+                  search={searchHistory}
+                  compareIds={compareIds}
+                  onToggleCompare={toggleCompare}
+                  isFavorite={isFavorite}
+                  onToggleFavorite={toggleFavorite}
+                  activeEntryId={currentEntryId}
+                  onRestore={restoreEntry}
+                  onOpenDetails={(entry) => setDetailEntryId(entry.id)}
+                  onPlayRecording={(entry) => setPlaybackEntryId(entry.id)}
+                />
+                <EntryDetailDrawer
+                  entry={sessionEntries.find(entry => entry.id === detailEntryId) ?? null}
+                  onOpenChange={(open) => !open && setDetailEntryId(null)}
+                  onSave={saveAnnotations}
+                />
+                <RecordingPlayback
+                  entry={sessionEntries.find(entry => entry.id === playbackEntryId) ?? null}
+                  onOpenChange={(open) => !open && setPlaybackEntryId(null)}
+                  loadAudio={loadRecording}
+                />
               </TabsContent>
 
+              <GlyphComparison
+                entries={comparisonEntries}
+                describeSymbolism={describeSymbolism}
+                open={isComparing}
+                onOpenChange={setIsComparing}
+              />
+
               <TabsContent value="symbols" className="mt-4">
-                <div className="text-center text-gray-400">
-                  <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">Favorite glyphs will appear here</p>
-                </div>
+                <FavoritesGallery
+                  favorites={favorites}
+                  canRerender={(favorite) => sessionManagerRef.current?.getEntry(favorite.entryId) != null}
+                  onRerender={rerenderFavorite}
+                  onUpdate={updateFavorite}
+                  onReorder={reorderFavorites}
+                  onDelete={deleteFavorite}
+                />
               </TabsContent>
 
               <TabsContent value="settings" className="mt-4">
                 <div className="space-y-4">
+                  <ProviderSettings
+                    registry={providerRegistry}
+                    providers={providers}
+                    selectedProvider={selectedProvider}
+                    onSelect={handleProviderSelect}
+                    onProvidersChange={handleProvidersChange}
+                  />
+                  <LexiconEditor
+                    store={lexiconStore}
+                    provider={selectedProvider}
+                    previewText={inputText}
+                    onActivePackChange={handleLexiconChange}
+                  />
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-300">Show Particles</span>
                     <Switch
@@ -611,6 +1303,53 @@ function App() {
                       onCheckedChange={setShowResonanceField}
                     />
                   </div>
+                  <div className="space-y-1">
+                    <span className="text-sm text-gray-300">Glyph Seed</span>
+                    <Input
+                      value={glyphSeed}
+                      onChange={(e) => handleGlyphSeedChange(e.target.value)}
+                      placeholder="Optional — same text + seed = same glyph"
+                      className="bg-obsidian/50 border-cyan/20 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-sm text-gray-300">Speech Language</span>
+                    <Select value={speechLanguage} onValueChange={handleSpeechLanguageChange}>
+                      <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(LANGUAGES).map(language => (
+                          <SelectItem key={language.code} value={language.speechLang}>
+                            {language.nativeLabel}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-sm text-gray-300">Transcription</span>
+                    <Select
+                      value={
+                        transcriptionProviders.some(provider => provider.id === transcriptionProviderId)
+                          ? transcriptionProviderId
+                          : NO_TRANSCRIPTION_PROVIDER
+                      }
+                      onValueChange={handleTranscriptionProviderChange}
+                    >
+                      <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TRANSCRIPTION_PROVIDER}>Browser speech recognition</SelectItem>
+                        {transcriptionProviders.map(provider => (
+                          <SelectItem key={provider.id} value={provider.id}>
+                            {provider.name}{providerRegistry.isReady(provider) ? '' : ' (needs API key)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-300">Auto-Analyze</span>
                     <Switch
@@ -627,6 +1366,10 @@ function App() {
                     <Download className="w-4 h-4 mr-2" />
                     Export Session
                   </Button>
+                  <SessionImportDialog
+                    currentSessionName={sessions.find(session => session.id === currentSessionId)?.name ?? null}
+                    onImport={(session, mode) => changeSessions(manager => manager.importSession(session, mode))}
+                  />
                 </div>
               </TabsContent>
             </Tabs>
@@ -0,0 +1,38 @@
+import { BarChart3 } from 'lucide-react'
+import ResonanceChart from './ResonanceChart'
+import PhaseTimeline from './PhaseTimeline'
+import EmergenceDisplay from './EmergenceDisplay'
+import SymbolicHighlights from './SymbolicHighlights'
+import type { EmergencePoint, ResonanceData, SymbolicElement } from '../lib/ai-providers'
+
+interface AnalysisDashboardProps {
+  timeline: ResonanceData[]
+  emergencePoints: EmergencePoint[]
+  symbolicElements: SymbolicElement[]
+  onSelectEmergence?: (point: EmergencePoint) => void
+}
+
+export default function AnalysisDashboard({
+  timeline,
+  emergencePoints,
+  symbolicElements,
+  onSelectEmergence
+}: AnalysisDashboardProps) {
+  if (timeline.length === 0) {
+    return (
+      <div className="text-center text-gray-400">
+        <BarChart3 className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Analyze some text to see its resonance timeline</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <ResonanceChart data={timeline} />
+      <PhaseTimeline data={timeline} />
+      <EmergenceDisplay points={emergencePoints} onSelect={onSelectEmergence} />
+      <SymbolicHighlights elements={symbolicElements} />
+    </div>
+  )
+}
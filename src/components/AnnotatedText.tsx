@@ -0,0 +1,78 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card'
+import { Eye, Heart, Brain } from 'lucide-react'
+import type { SymbolicElement } from '../lib/ai-providers'
+
+interface AnnotatedTextProps {
+  text: string
+  elements: SymbolicElement[]
+}
+
+const typeConfig = {
+  archetypal: {
+    icon: Eye,
+    highlight: 'bg-purple-400/20 text-purple-200 decoration-purple-400',
+    label: 'Archetypal'
+  },
+  emotional: {
+    icon: Heart,
+    highlight: 'bg-pink-400/20 text-pink-200 decoration-pink-400',
+    label: 'Emotional'
+  },
+  cognitive: {
+    icon: Brain,
+    highlight: 'bg-blue-400/20 text-blue-200 decoration-blue-400',
+    label: 'Cognitive'
+  }
+}
+
+export default function AnnotatedText({ text, elements }: AnnotatedTextProps) {
+  // Split the text into plain runs and highlighted terms; overlapping hits are skipped
+  const segments: Array<{ text: string; element?: SymbolicElement }> = []
+  let cursor = 0
+  for (const element of [...elements].sort((a, b) => a.start - b.start)) {
+    if (element.start < cursor || element.end > text.length) continue
+    if (element.start > cursor) {
+      segments.push({ text: text.slice(cursor, element.start) })
+    }
+    segments.push({ text: text.slice(element.start, element.end), element })
+    cursor = element.end
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) })
+  }
+
+  return (
+    <div className="p-4 bg-obsidian/30 rounded-lg">
+      <h4 className="text-sm font-semibold text-white mb-2">Annotated Input</h4>
+      <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap max-h-64 overflow-y-auto">
+        {segments.map((segment, index) => {
+          if (!segment.element) {
+            return <span key={index}>{segment.text}</span>
+          }
+
+          const config = typeConfig[segment.element.type]
+          const Icon = config.icon
+          return (
+            <HoverCard key={index} openDelay={100} closeDelay={50}>
+              <HoverCardTrigger asChild>
+                <mark className={`rounded px-0.5 underline decoration-dotted underline-offset-2 cursor-help ${config.highlight}`}>
+                  {segment.text}
+                </mark>
+              </HoverCardTrigger>
+              <HoverCardContent className="w-56 text-xs">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Icon className="h-3 w-3" />
+                  <span className="font-medium">{config.label}</span>
+                  <span className="text-muted-foreground">
+                    {(segment.element.intensity * 100).toFixed(0)}%
+                  </span>
+                </div>
+                <p className="text-muted-foreground">{segment.element.reason}</p>
+              </HoverCardContent>
+            </HoverCard>
+          )
+        })}
+      </p>
+    </div>
+  )
+}
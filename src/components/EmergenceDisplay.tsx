@@ -1,18 +1,14 @@
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Zap, TrendingUp } from 'lucide-react'
-
-interface EmergencePoint {
-  timestamp: number
-  intensity: number
-  description: string
-}
+import type { EmergencePoint } from '../lib/ai-providers'
 
 interface EmergenceDisplayProps {
   points: EmergencePoint[]
+  onSelect?: (point: EmergencePoint) => void
 }
 
-export default function EmergenceDisplay({ points }: EmergenceDisplayProps) {
+export default function EmergenceDisplay({ points, onSelect }: EmergenceDisplayProps) {
   const sortedPoints = [...points].sort((a, b) => b.intensity - a.intensity)
   const maxIntensity = Math.max(...points.map(p => p.intensity), 0.1)
   
@@ -67,7 +63,7 @@ export default function EmergenceDisplay({ points }: EmergenceDisplayProps) {
                       key={index}
                       className="bg-gradient-to-r from-accent to-primary transition-all duration-300 hover:brightness-110"
                       style={{ width: `${Math.max(width, 2)}%` }}
-                      title={`Timestamp ${point.timestamp}: ${(point.intensity * 100).toFixed(1)}%`}
+                      title={`${Math.round(point.timestamp)}% in: ${(point.intensity * 100).toFixed(1)}%`}
                     />
                   )
                 })}
@@ -81,7 +77,8 @@ export default function EmergenceDisplay({ points }: EmergenceDisplayProps) {
                 {sortedPoints.slice(0, 5).map((point, index) => (
                   <div
                     key={index}
-                    className="flex items-start space-x-3 p-3 rounded-lg bg-muted/10 hover:bg-muted/20 transition-colors"
+                    onClick={() => onSelect?.(point)}
+                    className={`flex items-start space-x-3 p-3 rounded-lg bg-muted/10 hover:bg-muted/20 transition-colors ${onSelect ? 'cursor-pointer' : ''}`}
                   >
                     <div className="flex-shrink-0 mt-1">
                       <div className={`w-2 h-2 rounded-full ${getIntensityColor(point.intensity).split(' ')[0].replace('text-', 'bg-')}`} />
@@ -90,7 +87,7 @@ export default function EmergenceDisplay({ points }: EmergenceDisplayProps) {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
                         <span className="text-xs text-muted-foreground">
-                          Position {point.timestamp}
+                          {point.trigger === 'emotional' ? 'Emotional' : 'Cognitive'} · {Math.round(point.timestamp)}% in
                         </span>
                         <Badge 
                           variant="outline" 
@@ -0,0 +1,219 @@
+import { Fragment, useState, type KeyboardEvent, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from './ui/sheet'
+import { Eye, Heart, Pencil, X } from 'lucide-react'
+import { parseMarkdown, type InlineToken, type MarkdownBlock } from '../lib/markdown'
+import type { EntryAnnotations, SessionEntry } from '../lib/session-storage'
+import type { ImageFeatures } from '../lib/image-analysis'
+
+interface EntryDetailDrawerProps {
+  entry: SessionEntry | null
+  onOpenChange: (open: boolean) => void
+  onSave: (id: string, annotations: EntryAnnotations) => void
+}
+
+const MOOD_LABELS = ['Low', 'Uneasy', 'Neutral', 'Good', 'Great']
+
+function renderInline(tokens: InlineToken[]): ReactNode[] {
+  return tokens.map((token, index) => {
+    switch (token.type) {
+      case 'strong':
+        return <strong key={index}>{renderInline(token.children)}</strong>
+      case 'em':
+        return <em key={index}>{renderInline(token.children)}</em>
+      case 'code':
+        return <code key={index} className="px-1 rounded bg-obsidian/60 text-cyan text-xs">{token.text}</code>
+      case 'link':
+        return (
+          <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="text-cyan underline">
+            {renderInline(token.children)}
+          </a>
+        )
+      default:
+        return token.text
+    }
+  })
+}
+
+function renderBlock(block: MarkdownBlock, index: number): ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const sizes = { 1: 'text-lg', 2: 'text-base', 3: 'text-sm' }
+      return <div key={index} className={`${sizes[block.level]} font-semibold text-white`}>{renderInline(block.children)}</div>
+    }
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)
+      return block.ordered
+        ? <ol key={index} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={index} className="list-disc pl-5 space-y-1">{items}</ul>
+    }
+    case 'quote':
+      return <blockquote key={index} className="border-l-2 border-violet/60 pl-3 italic text-gray-400">{renderInline(block.children)}</blockquote>
+    case 'code':
+      return <pre key={index} className="p-2 rounded bg-obsidian/60 text-xs overflow-x-auto"><code>{block.text}</code></pre>
+    default:
+      return <p key={index}>{renderInline(block.children)}</p>
+  }
+}
+
+function ImageFeatureSummary({ features }: { features: ImageFeatures }) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`
+  const rows: Array<[string, string]> = [
+    ['Edge density', percent(features.edgeDensity)],
+    ['Bilateral symmetry', `${percent(features.bilateralSymmetry)} (${features.symmetryAxis} axis)`],
+    ['Radial symmetry', features.folds > 1 ? `${percent(features.radialSymmetry)} (${features.folds}-fold)` : 'none'],
+    ['Contours', String(features.contourCount)],
+    ['Entropy', `${features.entropy.toFixed(2)} bits`]
+  ]
+  return (
+    <div className="space-y-2">
+      <div className="flex h-3 overflow-hidden rounded" title="Dominant palette">
+        {features.palette.map(({ color, share }) => (
+          <div key={color} style={{ backgroundColor: color, flexGrow: share }} title={`${color} · ${percent(share)}`} />
+        ))}
+      </div>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+        {rows.map(([label, value]) => (
+          <Fragment key={label}>
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-right text-gray-300">{value}</dd>
+          </Fragment>
+        ))}
+      </dl>
+    </div>
+  )
+}
+
+// Keyed by entry in the parent so the draft starts fresh for each entry
+function EntryDetailForm({ entry, onSave }: { entry: SessionEntry; onSave: EntryDetailDrawerProps['onSave'] }) {
+  const [notes, setNotes] = useState(entry.notes ?? '')
+  const [customTags, setCustomTags] = useState(entry.customTags ?? [])
+  const [moodRating, setMoodRating] = useState(entry.moodRating)
+  const [newTag, setNewTag] = useState('')
+  const [isPreviewing, setIsPreviewing] = useState(Boolean(entry.notes))
+
+  const addTag = () => {
+    const tag = newTag.trim().toLowerCase()
+    if (tag && !customTags.includes(tag) && !entry.tags.includes(tag)) {
+      setCustomTags([...customTags, tag])
+    }
+    setNewTag('')
+  }
+
+  const handleTagKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault()
+      addTag()
+    }
+  }
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto space-y-5 py-4">
+        {entry.symbolImage && (
+          <img src={entry.symbolImage} alt={entry.inputData} className="mx-auto max-h-32 rounded object-contain bg-white/5" />
+        )}
+        <p className="text-sm text-gray-300 whitespace-pre-wrap">{entry.inputData}</p>
+        {entry.imageFeatures && <ImageFeatureSummary features={entry.imageFeatures} />}
+
+        <div className="space-y-2">
+          <div className="text-xs font-semibold text-white">Tags</div>
+          <div className="flex flex-wrap gap-1">
+            {entry.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="text-xs" title="Generated from the analysis">{tag}</Badge>
+            ))}
+            {customTags.map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs border-violet/50 text-violet">
+                {tag}
+                <button
+                  onClick={() => setCustomTags(customTags.filter(t => t !== tag))}
+                  className="ml-1 hover:text-white"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={addTag}
+            placeholder="Add a tag and press Enter"
+            className="h-8 bg-obsidian/50 border-cyan/30 text-white"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-semibold text-white">
+            Mood {moodRating && <span className="font-normal text-gray-400">· {MOOD_LABELS[moodRating - 1]}</span>}
+          </div>
+          <div className="flex items-center space-x-1">
+            {MOOD_LABELS.map((label, index) => (
+              <button
+                key={label}
+                onClick={() => setMoodRating(moodRating === index + 1 ? undefined : index + 1)}
+                className="p-1 text-gray-500 hover:text-pink-400"
+                aria-label={`Mood ${index + 1}: ${label}`}
+              >
+                <Heart className={`w-5 h-5 ${moodRating && index < moodRating ? 'fill-current text-pink-400' : ''}`} />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-xs font-semibold text-white">Notes</div>
+            <Button variant="ghost" size="sm" onClick={() => setIsPreviewing(!isPreviewing)} className="h-7 text-xs">
+              {isPreviewing ? <Pencil className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+              {isPreviewing ? 'Edit' : 'Preview'}
+            </Button>
+          </div>
+          {isPreviewing ? (
+            <div className="min-h-32 space-y-2 text-sm text-gray-300">
+              {notes.trim() ? parseMarkdown(notes).map(renderBlock) : <p className="text-gray-500">No notes yet</p>}
+            </div>
+          ) : (
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Markdown: **bold**, *italic*, - lists, # headings, [links](https://…)"
+              className="min-h-48 bg-obsidian/50 border-cyan/30 text-white font-mono text-sm"
+            />
+          )}
+        </div>
+      </div>
+
+      <SheetFooter>
+        <Button onClick={() => onSave(entry.id, { notes, customTags, moodRating })} className="bg-gradient-to-r from-cyan to-violet">
+          Save
+        </Button>
+      </SheetFooter>
+    </>
+  )
+}
+
+export default function EntryDetailDrawer({ entry, onOpenChange, onSave }: EntryDetailDrawerProps) {
+  return (
+    <Sheet open={entry !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col bg-obsidian border-cyan/20 text-white">
+        {entry && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="text-white">Entry details</SheetTitle>
+              <SheetDescription>
+                {entry.inputType} · {new Date(entry.timestamp).toLocaleString()}
+              </SheetDescription>
+            </SheetHeader>
+            <EntryDetailForm key={entry.id} entry={entry} onSave={onSave} />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,211 @@
+import { useState, type KeyboardEvent } from 'react'
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  closestCenter,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Check, GripVertical, Image as ImageIcon, Pencil, RefreshCw, Trash2 } from 'lucide-react'
+import type { FavoriteGlyph } from '../lib/session-storage'
+
+interface FavoritesGalleryProps {
+  favorites: FavoriteGlyph[]
+  canRerender: (favorite: FavoriteGlyph) => boolean
+  onRerender: (favorite: FavoriteGlyph) => void
+  onUpdate: (id: string, updates: Pick<FavoriteGlyph, 'title' | 'collection'>) => void
+  onReorder: (orderedIds: string[]) => void
+  onDelete: (id: string) => void
+}
+
+const ALL_COLLECTIONS = '__all__'
+
+interface FavoriteCardProps {
+  favorite: FavoriteGlyph
+  canRerender: boolean
+  onRerender: () => void
+  onUpdate: (updates: Pick<FavoriteGlyph, 'title' | 'collection'>) => void
+  onDelete: () => void
+}
+
+function FavoriteCard({ favorite, canRerender, onRerender, onUpdate, onDelete }: FavoriteCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [title, setTitle] = useState(favorite.title)
+  const [collection, setCollection] = useState(favorite.collection)
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: favorite.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: favorite.id })
+
+  const startEditing = () => {
+    setTitle(favorite.title)
+    setCollection(favorite.collection)
+    setIsEditing(true)
+  }
+
+  const save = () => {
+    onUpdate({
+      title: title.trim() || favorite.title,
+      collection: collection.trim() || favorite.collection
+    })
+    setIsEditing(false)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') save()
+    if (event.key === 'Escape') setIsEditing(false)
+  }
+
+  return (
+    <div ref={setDropRef} className={`rounded-lg ${isOver && !isDragging ? 'ring-2 ring-violet' : ''}`}>
+      <div
+        ref={setDragRef}
+        style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+        className={`p-2 bg-obsidian/30 rounded-lg space-y-2 ${isDragging ? 'relative z-10 opacity-80 shadow-lg' : ''}`}
+      >
+        <div className="relative">
+          <img src={favorite.snapshot} alt={favorite.title} className="w-full aspect-square rounded" />
+          <button
+            {...listeners}
+            {...attributes}
+            className="absolute top-1 left-1 p-1 rounded bg-obsidian/70 text-gray-300 cursor-grab"
+            aria-label="Drag to reorder"
+          >
+            <GripVertical className="w-3 h-3" />
+          </button>
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-1">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Title"
+              className="h-7 text-xs bg-obsidian/50 border-cyan/30 text-white"
+              autoFocus
+            />
+            <Input
+              value={collection}
+              onChange={(e) => setCollection(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Collection"
+              className="h-7 text-xs bg-obsidian/50 border-cyan/30 text-white"
+            />
+          </div>
+        ) : (
+          <div>
+            <p className="text-xs text-white truncate" title={favorite.title}>{favorite.title}</p>
+            <Badge variant="outline" className="text-[10px] mt-1">{favorite.collection}</Badge>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          {isEditing ? (
+            <Button variant="ghost" size="sm" onClick={save} className="h-7 px-2" aria-label="Save">
+              <Check className="w-3 h-3" />
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={startEditing} className="h-7 px-2" aria-label="Rename">
+              <Pencil className="w-3 h-3" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRerender}
+            disabled={!canRerender}
+            className="h-7 px-2"
+            aria-label="Re-render"
+            title={canRerender ? 'Re-render from the source entry' : 'Source entry is no longer in history'}
+          >
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDelete} className="h-7 px-2 text-red-400" aria-label="Delete">
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function FavoritesGallery({
+  favorites,
+  canRerender,
+  onRerender,
+  onUpdate,
+  onReorder,
+  onDelete
+}: FavoritesGalleryProps) {
+  const [collectionFilter, setCollectionFilter] = useState(ALL_COLLECTIONS)
+  const sensors = useSensors(
+    // A small drag distance keeps clicks on the card buttons working
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const collections = [...new Set(favorites.map(favorite => favorite.collection))]
+  const activeFilter = collections.includes(collectionFilter) ? collectionFilter : ALL_COLLECTIONS
+  const visible = activeFilter === ALL_COLLECTIONS
+    ? favorites
+    : favorites.filter(favorite => favorite.collection === activeFilter)
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    const ids = favorites.map(favorite => favorite.id)
+    const from = ids.indexOf(String(active.id))
+    const to = ids.indexOf(String(over.id))
+    if (from === -1 || to === -1) return
+    ids.splice(to, 0, ...ids.splice(from, 1))
+    onReorder(ids)
+  }
+
+  if (favorites.length === 0) {
+    return (
+      <div className="text-center text-gray-400">
+        <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Star a glyph on the canvas or in history to keep it here</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {collections.length > 1 && (
+        <Select value={activeFilter} onValueChange={setCollectionFilter}>
+          <SelectTrigger className="bg-obsidian/50 border-cyan/30 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+            {collections.map(collection => (
+              <SelectItem key={collection} value={collection}>{collection}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <div className="grid grid-cols-2 gap-3 max-h-96 overflow-y-auto">
+          {visible.map(favorite => (
+            <FavoriteCard
+              key={favorite.id}
+              favorite={favorite}
+              canRerender={canRerender(favorite)}
+              onRerender={() => onRerender(favorite)}
+              onUpdate={(updates) => onUpdate(favorite.id, updates)}
+              onDelete={() => onDelete(favorite.id)}
+            />
+          ))}
+        </div>
+      </DndContext>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useMemo } from 'react'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  Chart as ChartJS,
+  RadialLinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Radar } from 'react-chartjs-2'
+import type { Symbolism } from '../lib/ai-providers'
+import type { SessionEntry } from '../lib/session-storage'
+import { renderGlyphSnapshot } from '../lib/glyph-export'
+import { COMPARISON_METRICS, diffSets, pairwiseDistances } from '../lib/comparison'
+
+ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip, Legend)
+
+interface GlyphComparisonProps {
+  entries: SessionEntry[]
+  describeSymbolism: (entry: SessionEntry) => Symbolism
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const entryColors = ['34, 211, 238', '167, 139, 250', '251, 191, 36', '244, 114, 182']
+
+const SNAPSHOT_SIZE = 240
+
+function DiffRow({ label, lists }: { label: string; lists: string[][] }) {
+  const diff = diffSets(lists)
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-semibold text-white">{label}</div>
+      <div className="flex flex-wrap gap-1">
+        {diff.shared.length === 0 && <span className="text-xs text-gray-500">Nothing shared</span>}
+        {diff.shared.map(item => (
+          <Badge key={item} variant="secondary" className="text-xs">{item}</Badge>
+        ))}
+      </div>
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${lists.length}, minmax(0, 1fr))` }}>
+        {diff.unique.map((items, index) => (
+          <div key={index} className="flex flex-wrap gap-1">
+            {items.map(item => (
+              <Badge
+                key={item}
+                variant="outline"
+                className="text-xs"
+                style={{ borderColor: `rgba(${entryColors[index]}, 0.5)`, color: `rgb(${entryColors[index]})` }}
+              >
+                {item}
+              </Badge>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function GlyphComparison({ entries, describeSymbolism, open, onOpenChange }: GlyphComparisonProps) {
+  // Each glyph is drawn offscreen at a fixed moment so thumbnails are stable
+  const thumbnails = useMemo(
+    () => (open ? entries.map(entry => renderGlyphSnapshot(entry.analysis, SNAPSHOT_SIZE)) : []),
+    [entries, open]
+  )
+  const compared = useMemo(
+    () => entries.map(entry => ({ analysis: entry.analysis, symbolism: describeSymbolism(entry) })),
+    [entries, describeSymbolism]
+  )
+  const distances = pairwiseDistances(compared)
+
+  const radarData = {
+    labels: COMPARISON_METRICS.map(metric => metric.label),
+    datasets: entries.map((entry, index) => ({
+      label: `#${index + 1}`,
+      data: COMPARISON_METRICS.map(({ key }) => entry.analysis[key]),
+      borderColor: `rgba(${entryColors[index]}, 1)`,
+      backgroundColor: `rgba(${entryColors[index]}, 0.15)`,
+      pointBackgroundColor: `rgba(${entryColors[index]}, 1)`,
+      borderWidth: 2
+    }))
+  }
+
+  const radarOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: 'rgba(255, 255, 255, 0.8)' } }
+    },
+    scales: {
+      r: {
+        min: 0,
+        max: 100,
+        angleLines: { color: 'rgba(255, 255, 255, 0.1)' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+        pointLabels: { color: 'rgba(255, 255, 255, 0.7)' },
+        ticks: { display: false }
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto bg-obsidian border-cyan/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Compare Glyphs</DialogTitle>
+          <DialogDescription>
+            Resonance distance runs from 0 (identical) to 100 (nothing in common).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${entries.length}, minmax(0, 1fr))` }}>
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="space-y-2">
+              <div className="rounded-lg overflow-hidden border-2" style={{ borderColor: `rgba(${entryColors[index]}, 0.6)` }}>
+                {thumbnails[index] && (
+                  <img src={thumbnails[index]} alt={`Glyph ${index + 1}`} className="w-full aspect-square" />
+                )}
+              </div>
+              <div className="text-xs" style={{ color: `rgb(${entryColors[index]})` }}>
+                #{index + 1} · {new Date(entry.timestamp).toLocaleString()}
+              </div>
+              <p className="text-xs text-gray-300 line-clamp-3">{entry.inputData}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="h-64">
+          <Radar data={radarData} options={radarOptions} />
+        </div>
+
+        <div className="space-y-3 p-3 bg-obsidian/30 rounded-lg">
+          <DiffRow label="Tags" lists={entries.map(entry => entry.tags)} />
+          <DiffRow label="Themes" lists={compared.map(item => item.symbolism.themes)} />
+          <DiffRow label="Archetype" lists={compared.map(item => [item.symbolism.archetype])} />
+        </div>
+
+        <div className="p-3 bg-obsidian/30 rounded-lg">
+          <div className="text-xs font-semibold text-white mb-2">Resonance Distance</div>
+          <div className="space-y-1">
+            {distances.map(({ a, b, distance }) => (
+              <div key={`${a}-${b}`} className="flex items-center space-x-2 text-xs">
+                <span className="w-16 text-gray-300">#{a + 1} ↔ #{b + 1}</span>
+                <div className="flex-1 h-2 bg-obsidian/60 rounded">
+                  <div
+                    className="h-2 rounded bg-gradient-to-r from-cyan to-violet"
+                    style={{ width: `${distance}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right font-bold text-white">{distance}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
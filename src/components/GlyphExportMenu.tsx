@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Download, FileImage, Film, PenTool } from 'lucide-react'
+import type { ResonanceAnalysis } from '../lib/ai-providers'
+import type { GlyphRenderOptions } from '../lib/glyph-renderer'
+import { downloadBlob, exportPng, exportSvg, recordGlyphLoop } from '../lib/glyph-export'
+
+interface GlyphExportMenuProps {
+  analysis: ResonanceAnalysis | null
+  options: GlyphRenderOptions
+}
+
+const MAX_SECONDS = 30
+const MAX_DPI = 1200
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min))
+}
+
+export default function GlyphExportMenu({ analysis, options }: GlyphExportMenuProps) {
+  const [seconds, setSeconds] = useState(4)
+  const [dpi, setDpi] = useState(300)
+  const [busy, setBusy] = useState<'png' | 'video' | null>(null)
+
+  const filename = (extension: string) =>
+    `glyphmind-glyph-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`
+
+  const handleSvg = () => {
+    if (!analysis) return
+    downloadBlob(exportSvg(analysis, options), filename('svg'))
+  }
+
+  const handlePng = async () => {
+    if (!analysis) return
+    setBusy('png')
+    try {
+      downloadBlob(await exportPng(analysis, options, clamp(dpi, 72, MAX_DPI)), filename('png'))
+    } catch (error) {
+      console.error('PNG export failed:', error)
+      toast.error(error instanceof Error ? error.message : 'PNG export failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleVideo = async () => {
+    if (!analysis) return
+    setBusy('video')
+    try {
+      const blob = await recordGlyphLoop(analysis, options, clamp(seconds, 1, MAX_SECONDS))
+      downloadBlob(blob, filename('webm'))
+    } catch (error) {
+      console.error('Video export failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Video export failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!analysis} className="border-cyan/30">
+          <Download className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3 bg-obsidian border-cyan/20 text-white">
+        <h4 className="text-sm font-semibold">Download Glyph</h4>
+
+        <Button variant="outline" size="sm" onClick={handleSvg} className="w-full justify-start border-cyan/30">
+          <PenTool className="w-4 h-4 mr-2" />
+          Vector SVG
+        </Button>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePng}
+            disabled={busy !== null}
+            className="flex-1 justify-start border-cyan/30"
+          >
+            <FileImage className="w-4 h-4 mr-2" />
+            {busy === 'png' ? 'Rendering…' : 'PNG'}
+          </Button>
+          <Input
+            type="number"
+            min={72}
+            max={MAX_DPI}
+            value={dpi}
+            onChange={(e) => setDpi(Number(e.target.value))}
+            className="w-20 h-8 bg-obsidian/50 border-cyan/30 text-white"
+          />
+          <span className="text-xs text-gray-400">DPI</span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleVideo}
+            disabled={busy !== null}
+            className="flex-1 justify-start border-cyan/30"
+          >
+            <Film className="w-4 h-4 mr-2" />
+            {busy === 'video' ? 'Recording…' : 'WebM loop'}
+          </Button>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_SECONDS}
+            value={seconds}
+            onChange={(e) => setSeconds(Number(e.target.value))}
+            className="w-20 h-8 bg-obsidian/50 border-cyan/30 text-white"
+          />
+          <span className="text-xs text-gray-400">sec</span>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
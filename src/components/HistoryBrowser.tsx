@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react'
+import type { DateRange } from 'react-day-picker'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Calendar } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { CalendarDays, ChevronLeft, ChevronRight, Heart, NotebookPen, Play, Search, Star, Tags, X } from 'lucide-react'
+import type { EntryFilters, EntrySort, SessionEntry } from '../lib/session-storage'
+
+interface HistoryBrowserProps {
+  entries: SessionEntry[]
+  tags: string[]
+  search: (query: string, filters: EntryFilters, sort: EntrySort) => SessionEntry[] // a new function re-runs the search
+  compareIds: string[]
+  onToggleCompare: (id: string) => void
+  isFavorite: (entryId: string) => boolean
+  onToggleFavorite: (entry: SessionEntry) => void
+  activeEntryId: string | null
+  onRestore: (entry: SessionEntry) => void
+  onOpenDetails: (entry: SessionEntry) => void
+  onPlayRecording: (entry: SessionEntry) => void
+}
+
+const PAGE_SIZE = 20
+const ALL_TYPES = 'all'
+
+const SORT_OPTIONS: Array<{ value: EntrySort; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'cognitiveLoad', label: 'Cognitive load' },
+  { value: 'emotionalIntensity', label: 'Emotional intensity' },
+  { value: 'symbolicDensity', label: 'Symbolic density' },
+  { value: 'temporalFlow', label: 'Temporal flow' }
+]
+
+function formatRange(range: DateRange | undefined): string {
+  if (!range?.from) return 'Any date'
+  const from = range.from.toLocaleDateString()
+  return range.to && range.to.getTime() !== range.from.getTime() ? `${from} – ${range.to.toLocaleDateString()}` : from
+}
+
+export default function HistoryBrowser({
+  entries,
+  tags,
+  search,
+  compareIds,
+  onToggleCompare,
+  isFavorite,
+  onToggleFavorite,
+  activeEntryId,
+  onRestore,
+  onOpenDetails,
+  onPlayRecording
+}: HistoryBrowserProps) {
+  const [query, setQuery] = useState('')
+  const [inputType, setInputType] = useState<string>(ALL_TYPES)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [range, setRange] = useState<DateRange | undefined>()
+  const [sort, setSort] = useState<EntrySort>('newest')
+  const [page, setPage] = useState(0)
+
+  const results = useMemo(() => {
+    const filters: EntryFilters = {
+      inputType: inputType === ALL_TYPES ? undefined : inputType as SessionEntry['inputType'],
+      tags: selectedTags,
+      // The picked end day is inclusive
+      dateRange: range?.from
+        ? { start: range.from.getTime(), end: new Date(range.to ?? range.from).setHours(23, 59, 59, 999) }
+        : undefined
+    }
+    return search(query, filters, sort)
+  }, [search, query, inputType, selectedTags, range, sort])
+
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const visible = results.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  // Any change to the criteria starts again from the first page
+  const update = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(0)
+  }
+
+  const toggleTag = (tag: string) => {
+    update(setSelectedTags)(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag])
+  }
+
+  const hasFilters = query || inputType !== ALL_TYPES || selectedTags.length > 0 || range?.from
+
+  const clearFilters = () => {
+    setQuery('')
+    setInputType(ALL_TYPES)
+    setSelectedTags([])
+    setRange(undefined)
+    setPage(0)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 w-4 h-4 text-gray-400" />
+        <Input
+          value={query}
+          onChange={(e) => update(setQuery)(e.target.value)}
+          placeholder="Search text, signatures, notes and tags"
+          className="pl-8 bg-obsidian/50 border-cyan/30 text-white"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={inputType} onValueChange={update(setInputType)}>
+          <SelectTrigger className="bg-obsidian/50 border-cyan/30 text-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>All inputs</SelectItem>
+            <SelectItem value="text">Text</SelectItem>
+            <SelectItem value="voice">Voice</SelectItem>
+            <SelectItem value="symbol">Symbol</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={sort} onValueChange={(value) => update(setSort)(value as EntrySort)}>
+          <SelectTrigger className="bg-obsidian/50 border-cyan/30 text-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="justify-start border-cyan/30 text-xs">
+              <Tags className="w-4 h-4 mr-2" />
+              {selectedTags.length > 0 ? `${selectedTags.length} tags` : 'Any tag'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-56 max-h-72 overflow-y-auto bg-obsidian border-cyan/20 text-white">
+            {tags.length === 0 && <p className="text-xs text-gray-400">No tags yet</p>}
+            <div className="space-y-2">
+              {tags.map(tag => (
+                <label key={tag} className="flex items-center space-x-2 text-sm cursor-pointer">
+                  <Checkbox checked={selectedTags.includes(tag)} onCheckedChange={() => toggleTag(tag)} />
+                  <span>{tag}</span>
+                </label>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="justify-start border-cyan/30 text-xs truncate">
+              <CalendarDays className="w-4 h-4 mr-2" />
+              {formatRange(range)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-auto p-0">
+            <Calendar mode="range" selected={range} onSelect={update(setRange)} />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>{results.length} of {entries.length} entries</span>
+        {hasFilters && (
+          <button onClick={clearFilters} className="flex items-center hover:text-white">
+            <X className="w-3 h-3 mr-1" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {visible.map((entry) => (
+          <div
+            key={entry.id}
+            className={`p-3 bg-obsidian/30 rounded-lg ${entry.id === activeEntryId ? 'border border-cyan/40' : ''}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  checked={compareIds.includes(entry.id)}
+                  disabled={!compareIds.includes(entry.id) && compareIds.length >= 4}
+                  onCheckedChange={() => onToggleCompare(entry.id)}
+                  aria-label="Select for comparison"
+                />
+                <Badge variant="outline" className="text-xs">
+                  {entry.inputType}
+                </Badge>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-400">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </span>
+                {entry.audio && (
+                  <button
+                    onClick={() => onPlayRecording(entry)}
+                    className="text-gray-400 hover:text-cyan"
+                    aria-label="Play recording"
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onOpenDetails(entry)}
+                  className="text-gray-400 hover:text-cyan"
+                  aria-label="Notes and tags"
+                >
+                  <NotebookPen className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onToggleFavorite(entry)}
+                  className="text-gray-400 hover:text-yellow-400"
+                  aria-label={isFavorite(entry.id) ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <Star className={`w-4 h-4 ${isFavorite(entry.id) ? 'fill-current text-yellow-400' : ''}`} />
+                </button>
+              </div>
+            </div>
+            <button
+              onClick={() => onRestore(entry)}
+              className="w-full text-left"
+              title="Show this analysis on the canvas"
+            >
+              <div className="flex items-center space-x-2">
+                {entry.symbolImage && (
+                  <img src={entry.symbolImage} alt="" className="w-8 h-8 rounded object-contain bg-white/5 shrink-0" />
+                )}
+                <p className="text-sm text-gray-300 truncate hover:text-white">{entry.inputData}</p>
+              </div>
+            </button>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {entry.tags.slice(0, 3).map((tag) => (
+                <Badge key={tag} variant="secondary" className="text-xs">
+                  {tag}
+                </Badge>
+              ))}
+              {entry.customTags?.map((tag) => (
+                <Badge key={`custom-${tag}`} variant="outline" className="text-xs border-violet/50 text-violet">
+                  {tag}
+                </Badge>
+              ))}
+              {entry.moodRating && (
+                <span className="flex items-center text-xs text-pink-400" title={`Mood ${entry.moodRating} of 5`}>
+                  <Heart className="w-3 h-3 mr-0.5 fill-current" />
+                  {entry.moodRating}
+                </span>
+              )}
+            </div>
+            {entry.notes?.trim() && (
+              <p className="mt-2 text-xs text-gray-500 truncate">{entry.notes.trim().split('\n')[0]}</p>
+            )}
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-center text-sm text-gray-400 py-6">No entries match</p>
+        )}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-xs text-gray-400">Page {currentPage + 1} of {pageCount}</span>
+          <Button variant="ghost" size="sm" disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { BookOpen, Copy, Download, Plus, Trash2, Upload } from 'lucide-react'
+import { GlyphAnalyzer, type AIProvider } from '../lib/ai-providers'
+import {
+  GROUP_CATEGORIES,
+  Lexicon,
+  TERM_CATEGORIES,
+  bumpPatchVersion,
+  type GroupCategory,
+  type LexiconPack,
+  type LexiconStore,
+  type LexiconTerm,
+  type TermCategory
+} from '../lib/lexicon'
+
+interface LexiconEditorProps {
+  store: LexiconStore
+  provider: AIProvider
+  previewText: string
+  onActivePackChange: (pack: LexiconPack) => void
+}
+
+const METRICS = [
+  { key: 'emotionalIntensity', label: 'Emotional' },
+  { key: 'cognitiveLoad', label: 'Cognitive' },
+  { key: 'symbolicDensity', label: 'Symbolic' },
+  { key: 'temporalFlow', label: 'Temporal' }
+] as const
+
+function isGroupCategory(section: string): section is GroupCategory {
+  return (GROUP_CATEGORIES as string[]).includes(section)
+}
+
+export default function LexiconEditor({ store, provider, previewText, onActivePackChange }: LexiconEditorProps) {
+  const [packs, setPacks] = useState(() => store.listPacks())
+  const [activePack, setActivePack] = useState(() => store.getActivePack())
+  const [draft, setDraft] = useState<LexiconPack | null>(null)
+  const [section, setSection] = useState<TermCategory | GroupCategory>('emotional')
+  const [group, setGroup] = useState('')
+  const [newTerm, setNewTerm] = useState('')
+  const [newGroup, setNewGroup] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = () => setPacks(store.listPacks())
+
+  const activate = (pack: LexiconPack) => {
+    store.setActivePack(pack.id)
+    setActivePack(pack)
+    onActivePackChange(pack)
+  }
+
+  const handleSelect = (id: string) => {
+    const pack = packs.find(p => p.id === id)
+    if (pack) activate(pack)
+  }
+
+  const openEditor = () => {
+    setDraft(structuredClone(activePack))
+    setSection('emotional')
+    setGroup('')
+  }
+
+  const handleDuplicate = () => {
+    const copy = store.duplicatePack(activePack, `${activePack.name} (copy)`)
+    refresh()
+    activate(copy)
+    setDraft(structuredClone(copy))
+  }
+
+  const handleDelete = () => {
+    if (activePack.builtIn) return
+    store.deletePack(activePack.id)
+    refresh()
+    activate(store.getActivePack())
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([store.exportPack(activePack)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `glyphmind-lexicon-${activePack.name.toLowerCase().replace(/\W+/g, '-')}-${activePack.version}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const pack = store.importPack(e.target?.result as string)
+        refresh()
+        activate(pack)
+        toast.success(`Imported lexicon "${pack.name}" v${pack.version}`)
+      } catch (error) {
+        toast.error((error as Error).message)
+      }
+    }
+    reader.readAsText(file)
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+    try {
+      const saved = store.savePack(draft)
+      refresh()
+      activate(saved)
+      setDraft(null)
+      toast.success(`Saved ${saved.name} v${saved.version}`)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const groupNames = draft && isGroupCategory(section) ? Object.keys(draft.groups[section]) : []
+  const currentGroup = groupNames.includes(group) ? group : groupNames[0] ?? ''
+
+  const currentTerms: LexiconTerm[] = !draft
+    ? []
+    : isGroupCategory(section)
+      ? draft.groups[section][currentGroup] ?? []
+      : draft.terms[section]
+
+  const updateTerms = (terms: LexiconTerm[]) => {
+    if (!draft) return
+    if (isGroupCategory(section)) {
+      if (!currentGroup) return
+      setDraft({
+        ...draft,
+        groups: { ...draft.groups, [section]: { ...draft.groups[section], [currentGroup]: terms } }
+      })
+    } else {
+      setDraft({ ...draft, terms: { ...draft.terms, [section]: terms } })
+    }
+  }
+
+  const handleAddTerm = () => {
+    const term = newTerm.trim().toLowerCase()
+    if (!term || /\s/.test(term)) {
+      toast.error('Terms must be a single word')
+      return
+    }
+    if (currentTerms.some(existing => existing.term === term)) return
+    updateTerms([...currentTerms, { term, weight: 1 }])
+    setNewTerm('')
+  }
+
+  const handleAddGroup = () => {
+    const name = newGroup.trim()
+    if (!draft || !name || !isGroupCategory(section) || draft.groups[section][name]) return
+    setDraft({ ...draft, groups: { ...draft.groups, [section]: { ...draft.groups[section], [name]: [] } } })
+    setGroup(name)
+    setNewGroup('')
+  }
+
+  const handleRemoveGroup = () => {
+    if (!draft || !isGroupCategory(section) || !currentGroup) return
+    const { [currentGroup]: _removed, ...rest } = draft.groups[section]
+    setDraft({ ...draft, groups: { ...draft.groups, [section]: rest } })
+    setGroup('')
+  }
+
+  // Metrics for the current input under the saved pack and under the draft
+  const preview = useMemo(() => {
+    if (!draft || !previewText.trim()) return null
+    const before = new GlyphAnalyzer(provider, { lexicon: new Lexicon(activePack) }).computeMetrics(previewText)
+    const after = new GlyphAnalyzer(provider, { lexicon: new Lexicon(draft) }).computeMetrics(previewText)
+    return { before, after }
+  }, [draft, activePack, provider, previewText])
+
+  return (
+    <div className="space-y-3 p-3 bg-obsidian/30 rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">Lexicon</span>
+        <Badge variant="outline" className="text-xs border-cyan/30 text-cyan">
+          v{activePack.version}
+        </Badge>
+      </div>
+
+      <Select value={activePack.id} onValueChange={handleSelect}>
+        <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {packs.map(pack => (
+            <SelectItem key={pack.id} value={pack.id}>
+              {pack.name}{pack.builtIn ? ' (built-in)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex space-x-2">
+        <Button size="sm" variant="outline" onClick={openEditor} className="flex-1 border-cyan/30">
+          <BookOpen className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} className="border-cyan/30" title="Import pack">
+          <Upload className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleExport} className="border-cyan/30" title="Export pack">
+          <Download className="w-4 h-4" />
+        </Button>
+        {!activePack.builtIn && (
+          <Button size="sm" variant="outline" onClick={handleDelete} className="border-red-400/30 text-red-400" title="Delete pack">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg bg-obsidian border-cyan/20 text-white">
+          <DialogHeader>
+            <DialogTitle>{draft?.name} v{draft?.version}</DialogTitle>
+            <DialogDescription>
+              Weights multiply each term's score; negated terms ("not happy") count at a fraction of their weight.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft?.builtIn && (
+            <div className="flex items-center justify-between p-2 rounded bg-gold/10 text-xs text-gold">
+              <span>Built-in packs are read-only.</span>
+              <Button size="sm" variant="outline" onClick={handleDuplicate} className="border-gold/30">
+                <Copy className="w-3 h-3 mr-1" />
+                Duplicate to edit
+              </Button>
+            </div>
+          )}
+
+          {draft && (
+            <div className="space-y-3">
+              {!draft.builtIn && (
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Pack name"
+                  className="bg-obsidian/50 border-cyan/20 text-white"
+                />
+              )}
+
+              <div className="flex space-x-2">
+                <Select value={section} onValueChange={(value) => setSection(value as TermCategory | GroupCategory)}>
+                  <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...TERM_CATEGORIES, ...GROUP_CATEGORIES].map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isGroupCategory(section) && groupNames.length > 0 && (
+                  <Select value={currentGroup} onValueChange={setGroup}>
+                    <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {groupNames.map(name => (
+                        <SelectItem key={name} value={name} className="capitalize">
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {isGroupCategory(section) && !draft.builtIn && (
+                <div className="flex space-x-2">
+                  <Input
+                    value={newGroup}
+                    onChange={(e) => setNewGroup(e.target.value)}
+                    placeholder={`New ${section.slice(0, -1)}`}
+                    className="bg-obsidian/50 border-cyan/20 text-white"
+                  />
+                  <Button size="sm" variant="outline" onClick={handleAddGroup} className="border-cyan/30">
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                  {currentGroup && (
+                    <Button size="sm" variant="outline" onClick={handleRemoveGroup} className="border-red-400/30 text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                {currentTerms.length === 0 && (
+                  <p className="text-xs text-gray-400">No terms yet</p>
+                )}
+                {currentTerms.map((entry, index) => (
+                  <div key={entry.term} className="flex items-center space-x-2 text-sm">
+                    <span className="flex-1 text-gray-200">{entry.term}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={5}
+                      step={0.1}
+                      value={entry.weight}
+                      disabled={draft.builtIn}
+                      onChange={(e) => {
+                        const weight = Math.max(0, Math.min(5, Number(e.target.value) || 0))
+                        updateTerms(currentTerms.map((term, i) => (i === index ? { ...term, weight } : term)))
+                      }}
+                      className="w-20 h-7 bg-obsidian/50 border-cyan/20 text-white"
+                    />
+                    {!draft.builtIn && (
+                      <button
+                        onClick={() => updateTerms(currentTerms.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-400"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {!draft.builtIn && (!isGroupCategory(section) || currentGroup) && (
+                <div className="flex space-x-2">
+                  <Input
+                    value={newTerm}
+                    onChange={(e) => setNewTerm(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                    placeholder="Add a term"
+                    className="bg-obsidian/50 border-cyan/20 text-white"
+                  />
+                  <Button size="sm" variant="outline" onClick={handleAddTerm} className="border-cyan/30">
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
+              <div className="p-2 rounded bg-obsidian/40">
+                <p className="text-xs text-gray-400 mb-1">Preview on current input</p>
+                {preview ? (
+                  <div className="grid grid-cols-4 gap-2 text-center">
+                    {METRICS.map(({ key, label }) => {
+                      const delta = preview.after[key] - preview.before[key]
+                      return (
+                        <div key={key}>
+                          <div className="text-sm font-bold text-white">{preview.after[key].toFixed(0)}</div>
+                          <div className={`text-xs ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                            {delta > 0 ? '+' : ''}{delta.toFixed(0)}
+                          </div>
+                          <div className="text-xs text-gray-400">{label}</div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">Type something in the input tab to preview</p>
+                )}
+              </div>
+
+              {!draft.builtIn && (
+                <div className="flex space-x-2">
+                  <Button size="sm" onClick={handleSave} className="flex-1 bg-gradient-to-r from-cyan to-violet">
+                    Save as v{bumpPatchVersion(draft.version)}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,14 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Clock } from 'lucide-react'
-
-interface ResonanceData {
-  timestamp: number
-  resonance: number
-  phase: 'beginning' | 'buildup' | 'climax' | 'release' | 'echo'
-  emergenceScore: number
-  symbolDensity: number
-}
+import type { ResonanceData } from '../lib/ai-providers'
 
 interface PhaseTimelineProps {
   data: ResonanceData[]
@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { KeyRound, Mic, Plug, Plus, Trash2 } from 'lucide-react'
+import type { AIProvider } from '../lib/ai-providers'
+import { getAdapter } from '../lib/provider-adapters'
+import { getProviderTier, type CustomProviderKind, type ProviderRegistry } from '../lib/provider-registry'
+
+interface ProviderSettingsProps {
+  registry: ProviderRegistry
+  providers: AIProvider[]
+  selectedProvider: AIProvider
+  onSelect: (provider: AIProvider) => void
+  onProvidersChange: () => void
+}
+
+// Default ports of Ollama and of whisper.cpp's server
+const DEFAULT_BASE_URLS: Record<CustomProviderKind, string> = {
+  'openai-compatible': 'http://localhost:11434/v1',
+  'whisper-cpp': 'http://localhost:8080'
+}
+
+const emptyCustom = (kind: CustomProviderKind = 'openai-compatible') =>
+  ({ kind, name: '', baseUrl: DEFAULT_BASE_URLS[kind], model: '', apiKey: '' })
+
+const supportsChat = (provider: AIProvider) => getAdapter(provider.kind).capabilities.includes('chat')
+
+export default function ProviderSettings({
+  registry,
+  providers,
+  selectedProvider,
+  onSelect,
+  onProvidersChange
+}: ProviderSettingsProps) {
+  const [apiKey, setApiKey] = useState('')
+  const [keyError, setKeyError] = useState<string | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+  const [showCustomForm, setShowCustomForm] = useState(false)
+  const [custom, setCustom] = useState(emptyCustom)
+
+  // Transcription-only endpoints are picked under Transcription, not as the analysis provider
+  const chatProviders = providers.filter(supportsChat)
+  const transcriptionEndpoints = providers.filter(provider => provider.custom && !supportsChat(provider))
+
+  const adapter = getAdapter(selectedProvider.kind)
+  const hasStoredKey = registry.hasStoredApiKey(selectedProvider.id)
+
+  const handleSelect = (id: string) => {
+    const provider = providers.find(p => p.id === id)
+    if (provider) {
+      onSelect(provider)
+      setApiKey('')
+      setKeyError(null)
+    }
+  }
+
+  const handleSaveKey = () => {
+    const error = registry.setApiKey(selectedProvider.id, apiKey)
+    setKeyError(error)
+    if (!error) {
+      setApiKey('')
+      onProvidersChange()
+      toast.success(`API key saved for ${selectedProvider.name}`)
+    }
+  }
+
+  const handleClearKey = () => {
+    registry.clearApiKey(selectedProvider.id)
+    onProvidersChange()
+  }
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    const result = await registry.testConnection(selectedProvider)
+    setIsTesting(false)
+    if (result.ok) {
+      toast.success(result.message)
+    } else {
+      toast.error(result.message)
+    }
+  }
+
+  const handleAddCustom = () => {
+    try {
+      const provider = registry.addCustomProvider(custom)
+      onProvidersChange()
+      if (supportsChat(provider)) {
+        onSelect(provider)
+      } else {
+        toast.success(`${provider.name} added; choose it under Transcription`)
+      }
+      setCustom(emptyCustom())
+      setShowCustomForm(false)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const handleRemoveCustom = () => {
+    registry.removeCustomProvider(selectedProvider.id)
+    onProvidersChange()
+    onSelect(registry.getDefaultProvider())
+  }
+
+  const handleRemoveEndpoint = (id: string) => {
+    registry.removeCustomProvider(id)
+    onProvidersChange()
+  }
+
+  return (
+    <div className="space-y-3 p-3 bg-obsidian/30 rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">AI Provider</span>
+        <Badge variant="outline" className="text-xs border-cyan/30 text-cyan">
+          {getProviderTier(selectedProvider)}
+        </Badge>
+      </div>
+
+      <Select value={selectedProvider.id} onValueChange={handleSelect}>
+        <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {chatProviders.map(provider => (
+            <SelectItem key={provider.id} value={provider.id}>
+              {provider.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex flex-wrap gap-1">
+        {adapter.capabilities.map(capability => (
+          <Badge key={capability} variant="secondary" className="text-xs">
+            {capability}
+          </Badge>
+        ))}
+        <Badge variant="secondary" className="text-xs">
+          {adapter.rateLimit.requestsPerMinute} req/min
+        </Badge>
+      </div>
+      <p className="text-xs text-gray-400 truncate">{selectedProvider.model} @ {selectedProvider.baseUrl}</p>
+
+      {adapter.auth.type !== 'none' && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder={hasStoredKey ? 'Key saved — enter to replace' : 'API key'}
+              className="bg-obsidian/50 border-cyan/20 text-white"
+            />
+            <Button size="sm" variant="outline" onClick={handleSaveKey} className="border-cyan/30">
+              <KeyRound className="w-4 h-4" />
+            </Button>
+          </div>
+          {keyError && <p className="text-xs text-red-400">{keyError}</p>}
+          {hasStoredKey && (
+            <button onClick={handleClearKey} className="text-xs text-gray-400 hover:text-white underline">
+              Remove saved key
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <Button size="sm" variant="outline" onClick={handleTest} disabled={isTesting} className="flex-1 border-cyan/30">
+          <Plug className="w-4 h-4 mr-2" />
+          {isTesting ? 'Testing...' : 'Test Connection'}
+        </Button>
+        {selectedProvider.custom && (
+          <Button size="sm" variant="outline" onClick={handleRemoveCustom} className="border-red-400/30 text-red-400">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {transcriptionEndpoints.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-cyan/10">
+          <span className="text-xs font-semibold text-white">Transcription endpoints</span>
+          {transcriptionEndpoints.map(provider => (
+            <div key={provider.id} className="flex items-center justify-between text-xs text-gray-400">
+              <span className="truncate">
+                <Mic className="inline w-3 h-3 mr-1" />
+                {provider.name} @ {provider.baseUrl}
+              </span>
+              <button
+                onClick={() => handleRemoveEndpoint(provider.id)}
+                className="text-red-400 hover:text-red-300"
+                aria-label={`Remove ${provider.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showCustomForm ? (
+        <div className="space-y-2 pt-2 border-t border-cyan/10">
+          <Select
+            value={custom.kind}
+            onValueChange={(kind) => setCustom({ ...emptyCustom(kind as CustomProviderKind), name: custom.name })}
+          >
+            <SelectTrigger className="bg-obsidian/50 border-cyan/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="openai-compatible">OpenAI-compatible endpoint</SelectItem>
+              <SelectItem value="whisper-cpp">whisper.cpp server (transcription)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={custom.name}
+            onChange={(e) => setCustom({ ...custom, name: e.target.value })}
+            placeholder="Name, e.g. My Ollama"
+            className="bg-obsidian/50 border-cyan/20 text-white"
+          />
+          <Input
+            value={custom.baseUrl}
+            onChange={(e) => setCustom({ ...custom, baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. http://localhost:8080/v1"
+            className="bg-obsidian/50 border-cyan/20 text-white"
+          />
+          {custom.kind === 'openai-compatible' && (
+            <>
+              <Input
+                value={custom.model}
+                onChange={(e) => setCustom({ ...custom, model: e.target.value })}
+                placeholder="Model"
+                className="bg-obsidian/50 border-cyan/20 text-white"
+              />
+              <Input
+                type="password"
+                value={custom.apiKey}
+                onChange={(e) => setCustom({ ...custom, apiKey: e.target.value })}
+                placeholder="API key (optional)"
+                className="bg-obsidian/50 border-cyan/20 text-white"
+              />
+            </>
+          )}
+          <div className="flex space-x-2">
+            <Button size="sm" onClick={handleAddCustom} className="flex-1 bg-gradient-to-r from-cyan to-violet">
+              Add Endpoint
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowCustomForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="ghost" onClick={() => setShowCustomForm(true)} className="w-full text-gray-400">
+          <Plus className="w-4 h-4 mr-2" />
+          Add endpoint
+        </Button>
+      )}
+    </div>
+  )
+}
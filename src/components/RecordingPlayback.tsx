@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Zap } from 'lucide-react'
+import type { SessionEntry } from '../lib/session-storage'
+import { activeWordIndex, buildPlaybackTimeline, type PlaybackTimeline } from '../lib/playback'
+
+interface RecordingPlaybackProps {
+  entry: SessionEntry | null
+  onOpenChange: (open: boolean) => void
+  loadAudio: (entryId: string) => Promise<Blob | null>
+}
+
+const TIMELINE_WIDTH = 640
+const TIMELINE_HEIGHT = 96
+const PITCH_CEILING = 400 // Hz at the top of the timeline
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+// Energy as a filled envelope, pitch as a line, emergence points as ticks and the playhead on top
+function drawTimeline(canvas: HTMLCanvasElement, timeline: PlaybackTimeline, time: number) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const { width, height } = canvas
+  const x = (seconds: number) => timeline.duration > 0 ? (seconds / timeline.duration) * width : 0
+  ctx.clearRect(0, 0, width, height)
+
+  const peakEnergy = Math.max(...timeline.prosody.map(frame => frame.energy), 0.001)
+  ctx.fillStyle = 'rgba(34, 211, 238, 0.35)'
+  ctx.beginPath()
+  ctx.moveTo(0, height)
+  timeline.prosody.forEach(frame => ctx.lineTo(x(frame.time), height - (frame.energy / peakEnergy) * height * 0.9))
+  ctx.lineTo(width, height)
+  ctx.closePath()
+  ctx.fill()
+
+  ctx.strokeStyle = 'rgba(167, 139, 250, 0.9)'
+  ctx.lineWidth = 1.5
+  ctx.beginPath()
+  let drawing = false
+  timeline.prosody.forEach(frame => {
+    if (frame.pitch === null) {
+      drawing = false
+      return
+    }
+    const y = height - Math.min(1, frame.pitch / PITCH_CEILING) * height
+    if (drawing) ctx.lineTo(x(frame.time), y)
+    else ctx.moveTo(x(frame.time), y)
+    drawing = true
+  })
+  ctx.stroke()
+
+  timeline.emergences.forEach(({ time: at, point }) => {
+    ctx.fillStyle = point.trigger === 'emotional' ? 'rgba(244, 114, 182, 0.9)' : 'rgba(251, 191, 36, 0.9)'
+    ctx.fillRect(x(at) - 1, 0, 2, 6 + point.intensity * 14)
+  })
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
+  ctx.fillRect(Math.min(width - 2, x(time)), 0, 2, height)
+}
+
+// Keyed by entry in the parent so the recording is loaded afresh for each entry
+function PlaybackView({ entry, loadAudio }: { entry: SessionEntry; loadAudio: RecordingPlaybackProps['loadAudio'] }) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading')
+  const [time, setTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const timeline = useMemo(() => buildPlaybackTimeline(entry), [entry])
+  const currentWord = activeWordIndex(timeline.words, time)
+  const passedEmergences = timeline.emergences.filter(emergence => emergence.time <= time)
+  const currentEmergence = passedEmergences[passedEmergences.length - 1]
+
+  useEffect(() => {
+    let url: string | null = null
+    let cancelled = false
+    loadAudio(entry.id)
+      .then(blob => {
+        if (cancelled) return
+        if (!blob) {
+          setStatus('missing')
+          return
+        }
+        url = URL.createObjectURL(blob)
+        setAudioUrl(url)
+        setStatus('ready')
+      })
+      .catch(error => {
+        console.error('Failed to load recording:', error)
+        if (!cancelled) setStatus('missing')
+      })
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [entry.id, loadAudio])
+
+  // timeupdate fires only a few times a second, too coarse for word-by-word highlighting
+  useEffect(() => {
+    if (!isPlaying) return
+    let frame = requestAnimationFrame(function tick() {
+      if (audioRef.current) setTime(audioRef.current.currentTime)
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying])
+
+  useEffect(() => {
+    if (canvasRef.current) drawTimeline(canvasRef.current, timeline, time)
+  }, [timeline, time])
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = seconds
+    setTime(seconds)
+  }
+
+  const handleTimelineClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    seek(((event.clientX - bounds.left) / bounds.width) * timeline.duration)
+  }
+
+  if (status === 'missing') {
+    return <p className="py-6 text-center text-sm text-gray-400">The recording for this entry is no longer stored</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {audioUrl ? (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          className="w-full"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onSeeked={(e) => setTime(e.currentTarget.currentTime)}
+        />
+      ) : (
+        <p className="text-center text-sm text-gray-400">Loading recording…</p>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>{formatTime(time)} / {formatTime(timeline.duration)}</span>
+          <span>
+            <span className="text-cyan">volume</span> · <span className="text-violet">pitch</span> · <span className="text-yellow-400">emergence</span>
+          </span>
+        </div>
+        {timeline.prosody.length > 0 || timeline.emergences.length > 0 ? (
+          <canvas
+            ref={canvasRef}
+            width={TIMELINE_WIDTH}
+            height={TIMELINE_HEIGHT}
+            onClick={handleTimelineClick}
+            className="w-full h-24 cursor-pointer rounded bg-obsidian/30"
+            aria-label="Volume and pitch timeline"
+          />
+        ) : (
+          <p className="text-xs text-gray-500">No volume or pitch timeline was recorded for this entry</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold text-white">Transcript</div>
+          {entry.transcript?.timingsEstimated && (
+            <span className="text-xs text-gray-500">Word timings are estimated</span>
+          )}
+        </div>
+        {timeline.words.length > 0 ? (
+          <p className="max-h-40 overflow-y-auto text-sm leading-relaxed">
+            {timeline.words.map((word, index) => (
+              <button
+                key={index}
+                onClick={() => seek(word.start)}
+                className={`mr-1 rounded px-0.5 ${
+                  index === currentWord
+                    ? 'bg-cyan/30 text-white'
+                    : index < currentWord ? 'text-gray-300' : 'text-gray-500'
+                } hover:text-white`}
+              >
+                {word.word}
+              </button>
+            ))}
+          </p>
+        ) : (
+          <p className="text-xs text-gray-500">This entry has no transcript</p>
+        )}
+      </div>
+
+      {timeline.emergences.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-semibold text-white">Emergence points</div>
+          <div className="flex flex-wrap gap-1">
+            {timeline.emergences.map((emergence, index) => (
+              <Badge
+                key={index}
+                variant="outline"
+                onClick={() => seek(emergence.time)}
+                className={`cursor-pointer text-xs ${
+                  emergence === currentEmergence ? 'border-yellow-400/60 text-yellow-400' : 'border-cyan/30 text-gray-400'
+                }`}
+              >
+                <Zap className="w-3 h-3 mr-1" />
+                {formatTime(emergence.time)}
+              </Badge>
+            ))}
+          </div>
+          {currentEmergence && (
+            <p className="text-xs text-gray-300">{currentEmergence.point.description}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function RecordingPlayback({ entry, onOpenChange, loadAudio }: RecordingPlaybackProps) {
+  return (
+    <Dialog open={entry !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-obsidian border-cyan/20 text-white">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Recording playback</DialogTitle>
+              <DialogDescription>
+                {new Date(entry.timestamp).toLocaleString()} · {formatTime(entry.audio?.duration ?? 0)}
+              </DialogDescription>
+            </DialogHeader>
+            <PlaybackView key={entry.id} entry={entry} loadAudio={loadAudio} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
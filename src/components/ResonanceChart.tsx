@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react'
+import { useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Activity } from 'lucide-react'
 import {
@@ -13,6 +13,7 @@ import {
   Filler
 } from 'chart.js'
 import { Line } from 'react-chartjs-2'
+import type { ResonanceData } from '../lib/ai-providers'
 
 ChartJS.register(
   CategoryScale,
@@ -25,14 +26,6 @@ ChartJS.register(
   Filler
 )
 
-interface ResonanceData {
-  timestamp: number
-  resonance: number
-  phase: 'beginning' | 'buildup' | 'climax' | 'release' | 'echo'
-  emergenceScore: number
-  symbolDensity: number
-}
-
 interface ResonanceChartProps {
   data: ResonanceData[]
 }
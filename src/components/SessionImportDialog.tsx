@@ -0,0 +1,128 @@
+import { useRef, useState, type ChangeEvent } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { AlertTriangle, CheckCircle2, Upload } from 'lucide-react'
+import { parseSessionExport, SESSION_SCHEMA_VERSION, type ImportIssue, type SessionImportResult } from '../lib/session-schema'
+import type { ImportMode, UserSession } from '../lib/session-storage'
+
+interface SessionImportDialogProps {
+  currentSessionName: string | null
+  onImport: (session: UserSession, mode: ImportMode) => Promise<void>
+}
+
+const MAX_LISTED_ISSUES = 50
+
+function IssueList({ issues }: { issues: ImportIssue[] }) {
+  return (
+    <ul className="max-h-48 overflow-y-auto space-y-1 text-xs font-mono bg-obsidian/50 rounded p-2">
+      {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+        <li key={index}>
+          <span className="text-amber-400">{issue.path}</span>: <span className="text-gray-300">{issue.message}</span>
+        </li>
+      ))}
+      {issues.length > MAX_LISTED_ISSUES && (
+        <li className="text-gray-500">…and {issues.length - MAX_LISTED_ISSUES} more</li>
+      )}
+    </ul>
+  )
+}
+
+export default function SessionImportDialog({ currentSessionName, onImport }: SessionImportDialogProps) {
+  const [fileName, setFileName] = useState('')
+  const [result, setResult] = useState<SessionImportResult | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setFileName(file.name)
+    file.text()
+      .then(text => setResult(parseSessionExport(text)))
+      .catch(error => {
+        console.error('Failed to read session file:', error)
+        setResult({ ok: false, errors: [{ path: '(root)', message: `Could not read the file: ${(error as Error).message}` }] })
+      })
+  }
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!result?.ok) return
+    setIsImporting(true)
+    try {
+      await onImport(result.session, mode)
+      setResult(null)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        variant="outline"
+        className="w-full border-cyan/30"
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        Import Session
+      </Button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+      <Dialog open={result !== null} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent className="max-w-lg bg-obsidian border-cyan/20 text-white">
+          <DialogHeader>
+            <DialogTitle>Import {fileName}</DialogTitle>
+            <DialogDescription>
+              Session files are checked against schema version {SESSION_SCHEMA_VERSION}; older versions are upgraded first.
+            </DialogDescription>
+          </DialogHeader>
+
+          {result && !result.ok && (
+            <div className="space-y-2">
+              <div className="flex items-center text-sm text-red-400">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                This file can't be imported.
+              </div>
+              <IssueList issues={result.errors} />
+            </div>
+          )}
+
+          {result?.ok && (
+            <div className="space-y-3">
+              <div className="flex items-center text-sm text-green-400">
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                "{result.session.name}" · {result.session.entries.length} entries · {result.session.favoriteGlyphs.length} favorites
+              </div>
+              {result.fromVersion < SESSION_SCHEMA_VERSION && (
+                <Badge variant="outline" className="text-xs">Upgraded from version {result.fromVersion}</Badge>
+              )}
+              {result.skipped.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center text-sm text-amber-400">
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    Entries and favorites with these problems will be skipped:
+                  </div>
+                  <IssueList issues={result.skipped} />
+                </div>
+              )}
+
+              <div className="grid gap-2">
+                <Button disabled={isImporting} onClick={() => handleImport('new')} className="bg-gradient-to-r from-cyan to-violet">
+                  Add as a new session
+                </Button>
+                <Button disabled={isImporting || !currentSessionName} onClick={() => handleImport('merge')} variant="outline" className="border-cyan/30">
+                  Merge into "{currentSessionName}"
+                </Button>
+                <Button disabled={isImporting || !currentSessionName} onClick={() => handleImport('replace')} variant="outline" className="border-red-400/30 text-red-400">
+                  Replace the contents of "{currentSessionName}"
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,231 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { ChartPie, Flame, Timer, TrendingUp } from 'lucide-react'
+import {
+  Chart as ChartJS,
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Bar, Doughnut, Line } from 'react-chartjs-2'
+import { COMPARISON_METRICS } from '../lib/comparison'
+import { dayKey, type CountedValue, type SessionStats } from '../lib/session-stats'
+
+ChartJS.register(ArcElement, BarElement, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend)
+
+interface SessionStatsDashboardProps {
+  stats: SessionStats
+}
+
+const metricColors = ['34, 211, 238', '167, 139, 250', '251, 191, 36', '34, 197, 94']
+const shapeColors = ['#22d3ee', '#a78bfa', '#fbbf24', '#f472b6', '#22c55e', '#60a5fa', '#f87171']
+
+const HEATMAP_WEEKS = 16
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const axisStyle = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: 'rgba(255, 255, 255, 0.6)' }
+}
+
+const legendStyle = {
+  labels: { color: 'rgba(255, 255, 255, 0.8)', boxWidth: 10, font: { size: 11 } }
+}
+
+function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+function CountList({ title, counts }: { title: string; counts: CountedValue[] }) {
+  const max = counts[0]?.count ?? 0
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-semibold text-white">{title}</div>
+      {counts.length === 0 && <p className="text-xs text-gray-500">Nothing recorded yet</p>}
+      {counts.slice(0, 6).map(({ value, count }) => (
+        <div key={value} className="flex items-center text-xs">
+          <span className="w-24 truncate text-gray-300 capitalize">{value}</span>
+          <div className="flex-1 h-2 mx-2 rounded bg-obsidian/60">
+            <div className="h-2 rounded bg-violet/70" style={{ width: `${(count / max) * 100}%` }} />
+          </div>
+          <span className="text-gray-400">{count}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Weeks run left to right, Sunday at the top, ending with the current week
+function ActivityHeatmap({ stats }: SessionStatsDashboardProps) {
+  const counts = new Map(stats.activity.map(day => [day.day, day.count]))
+  const max = Math.max(1, ...stats.activity.map(day => day.count))
+  const today = new Date()
+  today.setHours(12, 0, 0, 0)
+  const start = today.getTime() - ((HEATMAP_WEEKS - 1) * 7 + today.getDay()) * DAY_MS
+
+  const weeks = Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const timestamp = start + (week * 7 + weekday) * DAY_MS
+      const key = dayKey(timestamp)
+      return { key, count: counts.get(key) ?? 0, future: timestamp > today.getTime() }
+    })
+  )
+
+  return (
+    <div className="flex gap-[3px]">
+      {weeks.map((days, week) => (
+        <div key={week} className="flex flex-col gap-[3px]">
+          {days.map(({ key, count, future }) => (
+            <div
+              key={key}
+              title={future ? undefined : `${key}: ${count} ${count === 1 ? 'entry' : 'entries'}`}
+              className={`w-3 h-3 rounded-sm ${future ? 'opacity-0' : count === 0 ? 'bg-obsidian/60' : ''}`}
+              style={count > 0 ? { backgroundColor: `rgba(34, 211, 238, ${0.25 + 0.75 * (count / max)})` } : undefined}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function SessionStatsDashboard({ stats }: SessionStatsDashboardProps) {
+  if (stats.totalEntries === 0) {
+    return (
+      <div className="text-center text-gray-400">
+        <ChartPie className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Save a few analyses to see session statistics</p>
+      </div>
+    )
+  }
+
+  const trendData = {
+    labels: stats.metricTrend.map(point => new Date(point.timestamp).toLocaleDateString()),
+    datasets: COMPARISON_METRICS.map(({ key, label }, index) => ({
+      label,
+      data: stats.metricTrend.map(point => point[key]),
+      borderColor: `rgba(${metricColors[index]}, 1)`,
+      backgroundColor: `rgba(${metricColors[index]}, 0.1)`,
+      tension: 0.3,
+      pointRadius: 2
+    }))
+  }
+
+  const shapeData = {
+    labels: stats.glyphShapeDistribution.map(({ shape }) => shape),
+    datasets: [{
+      data: stats.glyphShapeDistribution.map(({ count }) => count),
+      backgroundColor: stats.glyphShapeDistribution.map((_, index) => shapeColors[index % shapeColors.length]),
+      borderWidth: 0
+    }]
+  }
+
+  const tagData = {
+    labels: stats.topTags.map(({ tag }) => tag),
+    datasets: [{
+      label: 'Entries',
+      data: stats.topTags.map(({ count }) => count),
+      backgroundColor: 'rgba(167, 139, 250, 0.7)'
+    }]
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-center p-3 bg-obsidian/30 rounded-lg">
+          <TrendingUp className="w-5 h-5 mx-auto mb-1 text-cyan" />
+          <div className="text-lg font-bold text-white">{stats.totalEntries}</div>
+          <div className="text-xs text-gray-400">Entries</div>
+        </div>
+        <div className="text-center p-3 bg-obsidian/30 rounded-lg">
+          <Flame className="w-5 h-5 mx-auto mb-1 text-amber-400" />
+          <div className="text-lg font-bold text-white">{stats.currentStreak}d</div>
+          <div className="text-xs text-gray-400">Streak · best {stats.longestStreak}d</div>
+        </div>
+        <div className="text-center p-3 bg-obsidian/30 rounded-lg">
+          <Timer className="w-5 h-5 mx-auto mb-1 text-violet" />
+          <div className="text-lg font-bold text-white">
+            {stats.measuredAnalyses > 0 ? formatLatency(stats.averageAnalysisTime) : '—'}
+          </div>
+          <div className="text-xs text-gray-400">Avg latency</div>
+        </div>
+      </div>
+
+      <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Journaling days</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <ActivityHeatmap stats={stats} />
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Metric trends</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[200px] w-full">
+            <Line
+              data={trendData}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { position: 'top' as const, ...legendStyle } },
+                interaction: { mode: 'index' as const, intersect: false },
+                scales: { x: { ...axisStyle, ticks: { ...axisStyle.ticks, maxTicksLimit: 6 } }, y: { ...axisStyle, min: 0, max: 100 } }
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Glyph shapes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[160px]">
+              <Doughnut
+                data={shapeData}
+                options={{ responsive: true, maintainAspectRatio: false, plugins: { legend: { position: 'bottom' as const, ...legendStyle } } }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+          <CardContent className="pt-4 space-y-4">
+            <CountList title="Archetypes" counts={stats.archetypeCounts} />
+            <CountList title="Moods" counts={stats.moodCounts} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Tag frequency</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[200px] w-full">
+            <Bar
+              data={tagData}
+              options={{
+                indexAxis: 'y' as const,
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { display: false } },
+                scales: { x: { ...axisStyle, ticks: { ...axisStyle.ticks, precision: 0 } }, y: axisStyle }
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Archive, ArchiveRestore, Copy, FolderOpen, GitMerge, Plus, Settings2, Trash2 } from 'lucide-react'
+import type { SessionSummary } from '../lib/session-storage'
+
+interface SessionSwitcherProps {
+  sessions: SessionSummary[]
+  currentId: string | null
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onArchive: (id: string, archived: boolean) => void
+  onDuplicate: (id: string) => void
+  onMerge: (sourceId: string, targetId: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function SessionSwitcher({
+  sessions,
+  currentId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onArchive,
+  onDuplicate,
+  onMerge,
+  onDelete
+}: SessionSwitcherProps) {
+  const [isManaging, setIsManaging] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null)
+
+  // Archived sessions are only listed in the manager, unless one is open
+  const switchable = sessions.filter(session => !session.archived || session.id === currentId)
+
+  const handleCreate = () => {
+    onCreate(newName)
+    setNewName('')
+  }
+
+  const handleDelete = (id: string) => {
+    if (pendingDelete === id) {
+      onDelete(id)
+      setPendingDelete(null)
+    } else {
+      setPendingDelete(id)
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select value={currentId ?? undefined} onValueChange={onSwitch}>
+        <SelectTrigger className="w-48 bg-obsidian/50 border-cyan/30 text-white">
+          <SelectValue placeholder="Loading sessions…" />
+        </SelectTrigger>
+        <SelectContent>
+          {switchable.map(session => (
+            <SelectItem key={session.id} value={session.id}>
+              {session.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsManaging(true)}
+        className="text-gray-400 hover:text-white"
+        title="Manage sessions"
+      >
+        <Settings2 className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={isManaging} onOpenChange={setIsManaging}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-obsidian border-cyan/20 text-white">
+          <DialogHeader>
+            <DialogTitle>Sessions</DialogTitle>
+            <DialogDescription>
+              Each session keeps its own history, favorites, seed and speech language.
+              Provider and theme are shared.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex space-x-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New session name"
+              className="bg-obsidian/50 border-cyan/30 text-white"
+            />
+            <Button onClick={handleCreate} className="bg-gradient-to-r from-cyan to-violet">
+              <Plus className="w-4 h-4 mr-2" />
+              New
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {sessions.map(session => {
+              const isCurrent = session.id === currentId
+              return (
+                <div
+                  key={session.id}
+                  className={`p-3 rounded-lg bg-obsidian/30 space-y-2 ${isCurrent ? 'border border-cyan/40' : ''}`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      key={session.name}
+                      defaultValue={session.name}
+                      onBlur={(e) => e.target.value !== session.name && onRename(session.id, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="h-8 bg-obsidian/50 border-cyan/30 text-white"
+                    />
+                    {isCurrent && <Badge className="bg-cyan/20 text-cyan">Open</Badge>}
+                    {session.archived && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-400">
+                      {new Date(session.startTime).toLocaleDateString()} · {session.totalAnalyses} analyses
+                    </span>
+                    <div className="flex space-x-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isCurrent}
+                        onClick={() => onSwitch(session.id)}
+                        title="Open"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => onDuplicate(session.id)} title="Duplicate">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isCurrent || !currentId}
+                        onClick={() => currentId && onMerge(session.id, currentId)}
+                        title="Merge into the open session"
+                      >
+                        <GitMerge className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onArchive(session.id, !session.archived)}
+                        title={session.archived ? 'Unarchive' : 'Archive'}
+                      >
+                        {session.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(session.id)}
+                        className="text-red-400"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        {pendingDelete === session.id && <span className="ml-1 text-xs">Confirm</span>}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,12 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Sparkles, Eye, Heart, Brain } from 'lucide-react'
-
-interface SymbolicElement {
-  text: string
-  type: 'archetypal' | 'emotional' | 'cognitive'
-  intensity: number
-}
+import type { SymbolicElement } from '../lib/ai-providers'
 
 interface SymbolicHighlightsProps {
   elements: SymbolicElement[]
@@ -33,7 +28,13 @@ const typeConfig = {
   }
 }
 
-export default function SymbolicHighlights({ elements }: SymbolicHighlightsProps) {
+export default function SymbolicHighlights({ elements: occurrences }: SymbolicHighlightsProps) {
+  // The analyzer reports every occurrence; show each term once at its strongest
+  const elements = Object.values(occurrences.reduce((acc, element) => {
+    const key = `${element.type}:${element.text.toLowerCase()}`
+    if (!acc[key] || acc[key].intensity < element.intensity) acc[key] = element
+    return acc
+  }, {} as Record<string, SymbolicElement>))
   const sortedElements = [...elements].sort((a, b) => b.intensity - a.intensity)
   const maxIntensity = Math.max(...elements.map(e => e.intensity), 0.1)
   
@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { AlertTriangle, ArrowDownRight, ArrowUpRight, ChartLine, Minus, Repeat } from 'lucide-react'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+import { COMPARISON_METRICS } from '../lib/comparison'
+import type { TrendMetric, TrendReport } from '../lib/trends'
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend)
+
+interface TrendsViewProps {
+  report: TrendReport
+  onSelectDay?: (entryIds: string[]) => void
+}
+
+const METRIC_LABELS: Record<TrendMetric, string> = {
+  cognitiveLoad: 'Cognitive load',
+  emotionalIntensity: 'Emotional intensity',
+  symbolicDensity: 'Symbolic density',
+  temporalFlow: 'Temporal flow'
+}
+
+// Changes smaller than this read as holding steady
+const STEADY_CHANGE = 2
+
+function formatDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+function ChangeIndicator({ change }: { change: number | null }) {
+  if (change === null) return <span className="text-xs text-gray-500">no data</span>
+  if (Math.abs(change) < STEADY_CHANGE) {
+    return <span className="flex items-center text-xs text-gray-400"><Minus className="w-3 h-3 mr-1" />steady</span>
+  }
+  const Icon = change > 0 ? ArrowUpRight : ArrowDownRight
+  return (
+    <span className={`flex items-center text-xs ${change > 0 ? 'text-cyan' : 'text-violet'}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {change > 0 ? '+' : ''}{change.toFixed(1)}
+    </span>
+  )
+}
+
+export default function TrendsView({ report, onSelectDay }: TrendsViewProps) {
+  const [metric, setMetric] = useState<TrendMetric>('emotionalIntensity')
+
+  if (report.points.length < 2) {
+    return (
+      <div className="text-center text-gray-400">
+        <ChartLine className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Trends appear once you have entries on at least two days</p>
+      </div>
+    )
+  }
+
+  const anomalousDays = new Map(
+    report.anomalies.filter(anomaly => anomaly.metric === metric).map(anomaly => [anomaly.day, anomaly])
+  )
+
+  const chartData = {
+    labels: report.points.map(point => formatDay(point.day)),
+    datasets: [
+      {
+        label: 'Daily',
+        data: report.points.map(point => point.values[metric]),
+        borderColor: 'rgba(34, 211, 238, 0.6)',
+        backgroundColor: 'rgba(34, 211, 238, 0.1)',
+        tension: 0.2,
+        pointRadius: report.points.map(point => (anomalousDays.has(point.day) ? 6 : 2)),
+        pointBackgroundColor: report.points.map(point =>
+          anomalousDays.has(point.day) ? 'rgba(251, 191, 36, 1)' : 'rgba(34, 211, 238, 1)'
+        )
+      },
+      {
+        label: 'Moving average',
+        data: report.points.map(point => point.movingAverage[metric]),
+        borderColor: 'rgba(167, 139, 250, 1)',
+        borderDash: [5, 5],
+        tension: 0.4,
+        pointRadius: 0
+      }
+    ]
+  }
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: { color: 'rgba(255, 255, 255, 0.8)', boxWidth: 10, font: { size: 11 } }
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        callbacks: {
+          afterBody: (items: Array<{ dataIndex: number }>) => {
+            const anomaly = anomalousDays.get(report.points[items[0]?.dataIndex]?.day)
+            return anomaly ? `${Math.abs(anomaly.deviation).toFixed(1)}σ from baseline ${Math.round(anomaly.baseline)}` : ''
+          }
+        }
+      }
+    },
+    scales: {
+      x: { grid: { color: 'rgba(255, 255, 255, 0.1)' }, ticks: { color: 'rgba(255, 255, 255, 0.6)', maxTicksLimit: 6 } },
+      y: { grid: { color: 'rgba(255, 255, 255, 0.1)' }, ticks: { color: 'rgba(255, 255, 255, 0.6)' }, min: 0, max: 100 }
+    },
+    onClick: (_event: unknown, elements: Array<{ index: number }>) => {
+      const point = elements[0] ? report.points[elements[0].index] : undefined
+      if (point) onSelectDay?.(point.entryIds)
+    }
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="grid grid-cols-2 gap-2">
+        {report.weekOverWeek.map(week => (
+          <div key={week.metric} className="p-3 bg-obsidian/30 rounded-lg">
+            <div className="text-xs text-gray-400">{METRIC_LABELS[week.metric]}</div>
+            <div className="flex items-baseline justify-between">
+              <span className="text-lg font-bold text-white">
+                {week.current === null ? '—' : Math.round(week.current)}
+              </span>
+              <ChangeIndicator change={week.change} />
+            </div>
+            <div className="text-[10px] text-gray-500">this week vs last</div>
+          </div>
+        ))}
+      </div>
+
+      <Card className="border-border/20 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-sm">Over time</CardTitle>
+          <Select value={metric} onValueChange={(value) => setMetric(value as TrendMetric)}>
+            <SelectTrigger className="w-40 h-8 bg-obsidian/50 border-cyan/30 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARISON_METRICS.map(({ key }) => (
+                <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[220px] w-full">
+            <Line data={chartData} options={options} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        <div className="flex items-center text-xs font-semibold text-white">
+          <AlertTriangle className="w-4 h-4 mr-2 text-amber-400" />
+          Departures from your baseline
+        </div>
+        {report.anomalies.length === 0 && (
+          <p className="text-xs text-gray-500">Nothing unusual yet. A baseline needs at least five days of entries.</p>
+        )}
+        {report.anomalies.slice(0, 8).map(anomaly => (
+          <button
+            key={`${anomaly.metric}-${anomaly.day}`}
+            onClick={() => onSelectDay?.(anomaly.entryIds)}
+            className="w-full text-left p-2 bg-obsidian/30 rounded-lg text-xs hover:bg-obsidian/50"
+          >
+            <span className="text-gray-400">{formatDay(anomaly.day)}</span>{' · '}
+            <span className="text-white">{METRIC_LABELS[anomaly.metric]} {Math.round(anomaly.value)}</span>{' '}
+            <span className={anomaly.deviation > 0 ? 'text-cyan' : 'text-violet'}>
+              {anomaly.deviation > 0 ? 'well above' : 'well below'} your usual {Math.round(anomaly.baseline)}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center text-xs font-semibold text-white">
+          <Repeat className="w-4 h-4 mr-2 text-violet" />
+          Recurring archetypes and themes
+        </div>
+        {report.recurring.length === 0 && (
+          <p className="text-xs text-gray-500">Symbols that come back on three or more days show up here.</p>
+        )}
+        <div className="flex flex-wrap gap-1">
+          {report.recurring.slice(0, 12).map(symbol => (
+            <Badge
+              key={`${symbol.kind}-${symbol.value}`}
+              variant={symbol.kind === 'archetype' ? 'default' : 'secondary'}
+              className="text-xs"
+              title={`${symbol.occurrences} entries, ${new Date(symbol.firstSeen).toLocaleDateString()} – ${new Date(symbol.lastSeen).toLocaleDateString()}`}
+            >
+              {symbol.value} · {symbol.days}d
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
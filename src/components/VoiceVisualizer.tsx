@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+import { Progress } from './ui/progress'
+import type { RecorderFrame, VoiceRecorder } from '../lib/voice-recorder'
+
+interface VoiceVisualizerProps {
+  recorder: VoiceRecorder
+  maxDuration: number // seconds
+}
+
+// One column per animation frame, so the waveform covers roughly the last four seconds
+const WAVEFORM_COLUMNS = 240
+const SPECTRUM_BARS = 32
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+function drawWaveform(canvas: HTMLCanvasElement, peaks: number[]) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const { width, height } = canvas
+  const columnWidth = width / WAVEFORM_COLUMNS
+  ctx.clearRect(0, 0, width, height)
+  ctx.fillStyle = 'rgba(34, 211, 238, 0.9)'
+  // Newest column on the right edge
+  const offset = WAVEFORM_COLUMNS - peaks.length
+  peaks.forEach((peak, index) => {
+    const barHeight = Math.max(1, peak * height)
+    ctx.fillRect((offset + index) * columnWidth, (height - barHeight) / 2, Math.max(1, columnWidth - 0.5), barHeight)
+  })
+}
+
+function drawSpectrum(canvas: HTMLCanvasElement, frequencies: Uint8Array) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const { width, height } = canvas
+  const binsPerBar = Math.max(1, Math.floor(frequencies.length / SPECTRUM_BARS))
+  const barWidth = width / SPECTRUM_BARS
+  ctx.clearRect(0, 0, width, height)
+  for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+    let sum = 0
+    for (let bin = bar * binsPerBar; bin < (bar + 1) * binsPerBar; bin++) {
+      sum += frequencies[bin] ?? 0
+    }
+    const level = sum / binsPerBar / 255
+    const barHeight = Math.max(1, level * height)
+    ctx.fillStyle = `rgba(${Math.round(34 + level * 133)}, ${Math.round(211 - level * 72)}, ${Math.round(238 + level * 12)}, 0.9)`
+    ctx.fillRect(bar * barWidth + 1, height - barHeight, barWidth - 2, barHeight)
+  }
+}
+
+// Peak distance from the centre line, 0-1
+function framePeak(frame: RecorderFrame): number {
+  let peak = 0
+  frame.waveform.forEach(sample => {
+    peak = Math.max(peak, Math.abs(sample - 128))
+  })
+  return peak / 128
+}
+
+export default function VoiceVisualizer({ recorder, maxDuration }: VoiceVisualizerProps) {
+  const waveformRef = useRef<HTMLCanvasElement>(null)
+  const spectrumRef = useRef<HTMLCanvasElement>(null)
+  const [elapsed, setElapsed] = useState(0)
+
+  useEffect(() => {
+    const peaks: number[] = []
+    let shownSecond = 0
+
+    return recorder.subscribe(event => {
+      if (event.type !== 'frame') return
+      const { frame } = event
+
+      peaks.push(framePeak(frame))
+      if (peaks.length > WAVEFORM_COLUMNS) peaks.shift()
+      if (waveformRef.current) drawWaveform(waveformRef.current, peaks)
+      if (spectrumRef.current) drawSpectrum(spectrumRef.current, frame.frequencies)
+
+      // The timer only needs a render once per second
+      const second = Math.floor(frame.elapsed)
+      if (second !== shownSecond) {
+        shownSecond = second
+        setElapsed(second)
+      }
+    })
+  }, [recorder])
+
+  return (
+    <div className="mt-4 p-3 bg-obsidian/30 rounded-lg space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center text-red-400">
+          <span className="w-2 h-2 mr-2 rounded-full bg-red-500 animate-pulse" />
+          Recording {formatTime(elapsed)}
+        </span>
+        <span className="text-gray-400">{formatTime(maxDuration - elapsed)} left</span>
+      </div>
+      <Progress value={(elapsed / maxDuration) * 100} className="h-1" />
+      <canvas ref={waveformRef} width={480} height={64} className="w-full h-16" aria-label="Live waveform" />
+      <canvas ref={spectrumRef} width={480} height={48} className="w-full h-12" aria-label="Live spectrum" />
+    </div>
+  )
+}
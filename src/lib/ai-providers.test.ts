@@ -0,0 +1,283 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GlyphAnalyzer, classifyPhases, extractPartialAnalysis, parseProviderAnalysis, type AIProvider, type AnalysisUpdate } from './ai-providers';
+
+const TEXT = 'The river remembers every storm. Yet tomorrow the light returns, and hope with it.';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+// A local OpenAI-compatible endpoint whose reply each test sets
+let server: Server;
+let handler: Handler;
+let provider: AIProvider;
+
+function reply(content: string, status = 200): Handler {
+  return (_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(status === 200 ? JSON.stringify({ choices: [{ message: { content } }] }) : content);
+  };
+}
+
+// The same analyzer with no usable provider: a hosted kind without a key
+const heuristics = new GlyphAnalyzer({ id: 'offline', name: 'Offline', kind: 'groq', baseUrl: 'http://127.0.0.1:1', model: 'none', free: true });
+
+beforeAll(async () => {
+  server = createServer((request, response) => handler(request, response));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  provider = { id: 'mock', name: 'Mock', kind: 'ollama', baseUrl: `http://127.0.0.1:${port}/v1`, model: 'mock-model', free: true };
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('GlyphAnalyzer.analyzeText against a provider', () => {
+  it('sends the text and turns the JSON reply into an analysis', async () => {
+    let body: { model: string; messages: Array<{ role: string; content: string }> } | undefined;
+    handler = (request, response) => {
+      let raw = '';
+      request.on('data', chunk => (raw += chunk));
+      request.on('end', () => {
+        body = JSON.parse(raw);
+        reply('```json\n{"cognitiveLoad": 72, "emotionalIntensity": 140, "symbolicDensity": 33, "temporalFlow": 41, "emergencePoints": [10, 60], "meaningSignature": " The storm that teaches patience "}\n```')(request, response);
+      });
+    };
+
+    const analysis = await new GlyphAnalyzer(provider).analyzeText(TEXT, { seed: 'team' });
+
+    expect(body?.model).toBe('mock-model');
+    expect(body?.messages.at(-1)).toEqual({ role: 'user', content: TEXT });
+    expect(analysis).toMatchObject({
+      cognitiveLoad: 72,
+      emotionalIntensity: 100,
+      symbolicDensity: 33,
+      temporalFlow: 41,
+      meaningSignature: 'The storm that teaches patience',
+      language: 'en'
+    });
+    expect(analysis.emergencePoints.map(point => point.timestamp)).toEqual([10, 60]);
+    expect(analysis.emergencePoints[1].start).toBeGreaterThan(0);
+  });
+
+  it('falls back to heuristics when the reply is malformed JSON', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    handler = reply('{"cognitiveLoad": 72, "emotionalIntensity": ');
+
+    const analysis = await new GlyphAnalyzer(provider).analyzeText(TEXT);
+
+    expect(analysis).toEqual(await heuristics.analyzeText(TEXT));
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('falls back to heuristics on an error status', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    handler = reply('{"error": "model not loaded"}', 503);
+
+    const analysis = await new GlyphAnalyzer(provider).analyzeText(TEXT);
+
+    expect(analysis).toEqual(await heuristics.analyzeText(TEXT));
+    expect(String(vi.mocked(console.warn).mock.calls[0][1])).toMatch(/status 503: \{"error": "model not loaded"\}/);
+  });
+
+  it('falls back to heuristics when the provider times out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    handler = () => {}; // never answers
+
+    const analysis = await new GlyphAnalyzer(provider, { timeoutMs: 100 }).analyzeText(TEXT);
+
+    expect(analysis).toEqual(await heuristics.analyzeText(TEXT));
+    expect(String(vi.mocked(console.warn).mock.calls[0][1])).toMatch(/timed out after 100ms/);
+  });
+
+  it('rejects instead of falling back when the caller aborts', async () => {
+    handler = () => {};
+    const controller = new AbortController();
+    const pending = new GlyphAnalyzer(provider).analyzeText(TEXT, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('emergence points', () => {
+  it('maps provider positions onto the sentences they fall in', async () => {
+    handler = reply('{"cognitiveLoad": 50, "emotionalIntensity": 50, "symbolicDensity": 50, "temporalFlow": 50, "emergencePoints": [5, 10, 70], "meaningSignature": "Tides"}');
+
+    const { emergencePoints } = await new GlyphAnalyzer(provider).analyzeText(TEXT);
+
+    expect(emergencePoints.map(point => TEXT.slice(point.start, point.end))).toEqual([
+      'The river remembers every storm.',
+      'Yet tomorrow the light returns, and hope with it.'
+    ]);
+    expect(emergencePoints.map(point => point.timestamp)).toEqual([5, 70]);
+    emergencePoints.forEach(point => {
+      expect(point.intensity).toBeGreaterThanOrEqual(0);
+      expect(point.intensity).toBeLessThanOrEqual(1);
+      expect(['emotional', 'cognitive']).toContain(point.trigger);
+    });
+    expect(emergencePoints[1].description).toMatch(/in sentence 2: "Yet tomorrow the light returns, and hope with\.\.\."$/);
+  });
+});
+
+describe('GlyphAnalyzer.extractSymbolicElements', () => {
+  it('returns each matched term in text order with offsets into the input', () => {
+    const elements = heuristics.extractSymbolicElements(TEXT);
+
+    expect(elements.map(({ text, type, start, end }) => ({ text, type, start, end }))).toEqual([
+      { text: 'river', type: 'archetypal', start: 4, end: 9 },
+      { text: 'light', type: 'archetypal', start: 50, end: 55 },
+      { text: 'hope', type: 'emotional', start: 69, end: 73 }
+    ]);
+    elements.forEach(element => expect(TEXT.slice(element.start, element.end)).toBe(element.text));
+  });
+
+  it('amplifies terms after an intensifier and softens negated ones', () => {
+    const [loved] = heuristics.extractSymbolicElements('Absolutely love this.');
+    const [hope, then] = heuristics.extractSymbolicElements('There is no hope. Then morning.');
+
+    expect(loved).toMatchObject({ text: 'love', start: 11, intensity: 0.75, reason: 'Matched as emotion word, amplified by "Absolutely"' });
+    expect(hope).toMatchObject({ text: 'hope', start: 12, reason: 'Matched as emotion word, softened by "no"' });
+    expect(hope.intensity).toBeCloseTo(0.15);
+    expect(then).toMatchObject({ text: 'Then', type: 'cognitive', start: 18, end: 22 });
+  });
+});
+
+describe('classifyPhases', () => {
+  it('labels each point relative to the peak', () => {
+    expect(classifyPhases([10, 40, 90, 60, 20])).toEqual(['beginning', 'buildup', 'climax', 'release', 'echo']);
+    expect(classifyPhases([90, 30, 85, 10])).toEqual(['climax', 'release', 'climax', 'echo']);
+  });
+
+  it('handles empty and silent input', () => {
+    expect(classifyPhases([])).toEqual([]);
+    expect(classifyPhases([0, 0, 0])).toEqual(['beginning', 'release', 'release']);
+  });
+});
+
+describe('parseProviderAnalysis', () => {
+  const valid = { cognitiveLoad: 10, emotionalIntensity: 20, symbolicDensity: 30, temporalFlow: 40, emergencePoints: [5], meaningSignature: 'Calm' };
+
+  it('clamps metrics and emergence points into range', () => {
+    expect(parseProviderAnalysis({ ...valid, cognitiveLoad: -5, emergencePoints: [-1, 50, 180] })).toMatchObject({
+      cognitiveLoad: 0,
+      emergencePoints: [0, 50, 100]
+    });
+  });
+
+  it('rejects payloads without the required fields', () => {
+    expect(() => parseProviderAnalysis('text')).toThrow();
+    expect(() => parseProviderAnalysis({ ...valid, temporalFlow: 'high' })).toThrow(/temporalFlow/);
+    expect(() => parseProviderAnalysis({ ...valid, meaningSignature: '  ' })).toThrow(/meaningSignature/);
+  });
+});
+
+describe('extractPartialAnalysis', () => {
+  it('reads numbers only once a delimiter follows them', () => {
+    expect(extractPartialAnalysis('{"cognitiveLoad": 7')).toEqual({});
+    expect(extractPartialAnalysis('{"cognitiveLoad": 72,\n "emotionalIntensity": 4')).toEqual({ cognitiveLoad: 72 });
+    expect(extractPartialAnalysis('{"cognitiveLoad": 172}')).toEqual({ cognitiveLoad: 100 });
+  });
+
+  it('reads emergence points once the array closes', () => {
+    expect(extractPartialAnalysis('{"emergencePoints": [10, 4')).toEqual({});
+    expect(extractPartialAnalysis('{"emergencePoints": [10, 45, 300]')).toEqual({ emergencePoints: [10, 45] });
+  });
+
+  it('decodes escapes in a signature that is still arriving', () => {
+    expect(extractPartialAnalysis('{"meaningSignature": "He said \\"wait\\" and').meaningSignature).toBe('He said "wait" and');
+    expect(extractPartialAnalysis('{"meaningSignature": "Path \\\\').meaningSignature).toBe('Path \\');
+    expect(extractPartialAnalysis('{"meaningSignature": "Quote \\').meaningSignature).toBe('Quote ');
+    expect(extractPartialAnalysis('{"meaningSignature": "Caf\\u00').meaningSignature).toBe('Caf');
+    expect(extractPartialAnalysis('{"meaningSignature": "Caf\\u00e9"').meaningSignature).toBe('Café');
+  });
+});
+
+describe('GlyphAnalyzer.analyzeTextStream', () => {
+  const completion = JSON.stringify({
+    cognitiveLoad: 64,
+    emotionalIntensity: 58,
+    symbolicDensity: 22,
+    temporalFlow: 47,
+    emergencePoints: [30],
+    meaningSignature: 'A "storm" that clears'
+  });
+
+  // Server-sent events carrying `content` in pieces, delivered in chunks that ignore line breaks
+  function sseBody(content: string, pieceSize: number, chunkSize: number): string[] {
+    const pieces = content.match(new RegExp(`[\\s\\S]{1,${pieceSize}}`, 'g')) ?? [];
+    const events = pieces.map(piece => `data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`).join('') + 'data: [DONE]\n\n';
+    return events.match(new RegExp(`[\\s\\S]{1,${chunkSize}}`, 'g')) ?? [];
+  }
+
+  // Streams the chunks; `hold` keeps the body open after them until the request is aborted
+  function streamingFetch(chunks: string[], hold = false): typeof fetch {
+    return async (_input, init) => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          if (!hold) controller.close();
+          init?.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+        }
+      });
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    };
+  }
+
+  async function collect(stream: AsyncGenerator<AnalysisUpdate>): Promise<AnalysisUpdate[]> {
+    const updates: AnalysisUpdate[] = [];
+    for await (const update of stream) updates.push(update);
+    return updates;
+  }
+
+  const streamingProvider = { id: 'stub', name: 'Stub', kind: 'ollama', baseUrl: 'http://stub.test/v1', model: 'stub', free: true };
+
+  it('overlays fields as they complete and ends with the full provider analysis', async () => {
+    const analyzer = new GlyphAnalyzer(streamingProvider, { fetchImpl: streamingFetch(sseBody(completion, 5, 23)) });
+    const baseline = await heuristics.analyzeText(TEXT);
+
+    const updates = await collect(analyzer.analyzeTextStream(TEXT));
+    const final = updates[updates.length - 1];
+
+    expect(updates.slice(0, -1).every(update => !update.complete && update.source === 'provider')).toBe(true);
+    expect(updates[0].analysis.meaningSignature).toBe(baseline.meaningSignature);
+    expect(updates[0].analysis.cognitiveLoad).toBe(64);
+    const signatures = updates.map(update => update.analysis.meaningSignature);
+    expect(signatures).toContain('A "storm');
+    expect(signatures.every(signature => signature.length > 0)).toBe(true);
+    expect(final).toMatchObject({ complete: true, source: 'provider' });
+    expect(final.analysis).toMatchObject({ cognitiveLoad: 64, emotionalIntensity: 58, meaningSignature: 'A "storm" that clears' });
+  });
+
+  it('falls back to the heuristic baseline when the streamed JSON is malformed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const analyzer = new GlyphAnalyzer(streamingProvider, { fetchImpl: streamingFetch(sseBody('{"cognitiveLoad": 64, "emotionalIntensity"', 6, 40)) });
+
+    const updates = await collect(analyzer.analyzeTextStream(TEXT));
+
+    expect(updates[updates.length - 1]).toEqual({ analysis: await heuristics.analyzeText(TEXT), complete: true, source: 'heuristic' });
+  });
+
+  it('rejects with an AbortError when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const analyzer = new GlyphAnalyzer(streamingProvider, { fetchImpl: streamingFetch(sseBody(completion.slice(0, 40), 8, 30), true) });
+    const updates: AnalysisUpdate[] = [];
+
+    const run = (async () => {
+      for await (const update of analyzer.analyzeTextStream(TEXT, { signal: controller.signal })) {
+        updates.push(update);
+        controller.abort();
+      }
+    })();
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(updates.every(update => !update.complete)).toBe(true);
+  });
+});
@@ -1,33 +1,98 @@
 // AI Provider integrations for GlyphMind
+import { z } from 'zod';
+import { ChatCompletionsClient, extractJsonObject, type ChatMessage } from './chat-completions';
+import { getAdapter, requiresApiKey, type RateLimiter } from './provider-adapters';
+import { createRandom, deriveSeed } from './random';
+import { DEFAULT_LEXICON_PACK, Lexicon, NEGATION_FACTOR, getBuiltInLexicon, type TermCategory } from './lexicon';
+import { LANGUAGES, composeMeaningSignature, detectLanguage, segmentSentences, segmentWords, type SupportedLanguage } from './language';
+import { analysisSchema } from './session-schema';
+
 export interface AIProvider {
+  id: string;
   name: string;
-  endpoint: string;
+  kind: string; // adapter kind, see PROVIDER_ADAPTERS
+  baseUrl: string;
   model: string;
+  embeddingModel?: string;
+  transcriptionModel?: string; // for adapters with the transcription capability
+  visionModel?: string; // a chat model that accepts images, used to describe uploaded symbols
   free: boolean;
+  custom?: boolean;
+  apiKey?: string;
 }
 
 export const AI_PROVIDERS: AIProvider[] = [
   {
+    id: 'groq',
     name: 'Groq',
-    endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+    kind: 'groq',
+    baseUrl: 'https://api.groq.com/openai/v1',
     model: 'llama3-8b-8192',
-    free: true
+    transcriptionModel: 'whisper-large-v3-turbo',
+    visionModel: 'meta-llama/llama-4-scout-17b-16e-instruct',
+    free: true,
+    apiKey: import.meta.env.VITE_GROQ_API_KEY
   },
   {
+    id: 'huggingface',
     name: 'Hugging Face',
-    endpoint: 'https://api-inference.huggingface.co/models/microsoft/DialoGPT-medium',
-    model: 'microsoft/DialoGPT-medium',
+    kind: 'huggingface',
+    baseUrl: 'https://router.huggingface.co/v1',
+    model: 'meta-llama/Llama-3.1-8B-Instruct',
+    free: true,
+    apiKey: import.meta.env.VITE_HF_API_KEY
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama (local)',
+    kind: 'ollama',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    embeddingModel: 'nomic-embed-text',
+    free: true
+  },
+  {
+    id: 'llama-cpp',
+    name: 'llama.cpp (local)',
+    kind: 'llama-cpp',
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'default',
     free: true
   }
 ];
 
+export interface GlyphAnalyzerOptions {
+  rateLimiter?: RateLimiter;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+  lexicon?: Lexicon;
+}
+
+const ANALYSIS_SYSTEM_PROMPT = `You are GlyphMind, a symbolic resonance interpreter.
+Read the user's text and respond with a single JSON object and nothing else:
+{
+  "cognitiveLoad": number 0-100,
+  "emotionalIntensity": number 0-100,
+  "symbolicDensity": number 0-100,
+  "temporalFlow": number 0-100,
+  "emergencePoints": array of numbers 0-100 marking where in the text meaning shifts,
+  "meaningSignature": one sentence naming the archetype, mood and themes of the text
+}`;
+
+const IMAGE_DESCRIPTION_PROMPT = `You are GlyphMind, a symbolic resonance interpreter.
+Describe the symbol or drawing you are shown in one or two sentences: its forms, its
+composition and what it evokes. Reply with the description only.`;
+
 export interface ResonanceAnalysis {
   cognitiveLoad: number;
   emotionalIntensity: number;
   symbolicDensity: number;
   temporalFlow: number;
-  emergencePoints: number[];
+  emergencePoints: EmergencePoint[];
   meaningSignature: string;
+  seed?: number; // drives every random choice in rendering; absent on entries saved before seeding
+  language?: SupportedLanguage; // detected input language; absent on entries saved before detection
+  symbolism?: Symbolism; // absent on entries saved before it was recorded
   glyphData: {
     shape: string;
     frequency: number;
@@ -36,30 +101,366 @@ export interface ResonanceAnalysis {
   };
 }
 
+export type ResonancePhase = 'beginning' | 'buildup' | 'climax' | 'release' | 'echo';
+
+// One step of the per-sentence (or sliding-window) series; values are 0-1
+export interface ResonanceData {
+  timestamp: number;
+  resonance: number;
+  phase: ResonancePhase;
+  emergenceScore: number;
+  symbolDensity: number;
+}
+
+export interface EmergencePoint {
+  timestamp: number; // position through the text, 0-100
+  intensity: number; // normalized 0-1
+  description: string;
+  trigger: 'emotional' | 'cognitive';
+  start: number; // character offsets of the originating sentence
+  end: number;
+}
+
+// Canonical (untranslated) lexicon group names, so analyses in any language compare
+export interface Symbolism {
+  archetype: string;
+  mood: string;
+  themes: string[];
+}
+
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Raw fields as a provider returns them; emergence points are bare 0-100 positions
+export type ProviderAnalysisFields = Omit<ResonanceAnalysis, 'glyphData' | 'emergencePoints' | 'seed' | 'language' | 'symbolism'> & {
+  emergencePoints: number[];
+};
+
+export interface SymbolicElement {
+  text: string;
+  type: 'archetypal' | 'emotional' | 'cognitive';
+  intensity: number; // 0-1
+  start: number; // character offsets into the analyzed text
+  end: number;
+  reason: string; // why the term counted, shown on hover
+}
+
+export interface AnalysisUpdate {
+  analysis: ResonanceAnalysis;
+  complete: boolean;
+  source: 'provider' | 'heuristic';
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  seed?: string | number; // optional user seed mixed into the input hash
+}
+
 export class GlyphAnalyzer {
   private provider: AIProvider;
+  private client: ChatCompletionsClient;
+  private lexicon: Lexicon;
 
-  constructor(provider: AIProvider) {
+  constructor(provider: AIProvider, options: GlyphAnalyzerOptions = {}) {
     this.provider = provider;
+    this.lexicon = options.lexicon ?? new Lexicon(DEFAULT_LEXICON_PACK);
+    this.client = new ChatCompletionsClient({
+      baseUrl: provider.baseUrl,
+      adapter: getAdapter(provider.kind),
+      apiKey: provider.apiKey,
+      rateLimiter: options.rateLimiter,
+      timeoutMs: options.timeoutMs,
+      fetchImpl: options.fetchImpl
+    });
+  }
+
+  // Heuristic metrics only; cheap enough to run on every keystroke for previews
+  computeMetrics(text: string): Pick<ResonanceAnalysis, 'cognitiveLoad' | 'emotionalIntensity' | 'symbolicDensity' | 'temporalFlow'> {
+    const lexicon = this.lexiconFor(text);
+    return {
+      cognitiveLoad: this.calculateCognitiveLoad(text, lexicon),
+      emotionalIntensity: this.calculateEmotionalIntensity(text, lexicon),
+      symbolicDensity: this.calculateSymbolicDensity(text, lexicon),
+      temporalFlow: this.calculateTemporalFlow(text, lexicon)
+    };
+  }
+
+  // Archetype, mood and themes from the lexicon, independent of which path produced the metrics
+  extractSymbolism(text: string, seed: number = deriveSeed(text)): Symbolism {
+    return this.describeSymbolism(text, seed, this.lexiconFor(text));
+  }
+
+  async analyzeText(text: string, options: AnalyzeOptions = {}): Promise<ResonanceAnalysis> {
+    const seed = deriveSeed(text, options.seed);
+    if (this.canUseProvider()) {
+      try {
+        return await this.analyzeWithProvider(text, seed, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`${this.provider.name} analysis failed, falling back to heuristics:`, error);
+      }
+    }
+
+    return this.analyzeWithHeuristics(text, seed);
   }
 
-  async analyzeText(text: string): Promise<ResonanceAnalysis> {
+  // Starts from the heuristic baseline and overlays provider fields as they stream in.
+  // Aborting the signal rejects with an AbortError instead of falling back.
+  async *analyzeTextStream(text: string, options: AnalyzeOptions = {}): AsyncGenerator<AnalysisUpdate> {
+    const seed = deriveSeed(text, options.seed);
+    const baseline = await this.analyzeWithHeuristics(text, seed);
+    if (!this.canUseProvider()) {
+      yield { analysis: baseline, complete: true, source: 'heuristic' };
+      return;
+    }
+
+    let buffer = '';
+    try {
+      const stream = this.client.stream({
+        model: this.provider.model,
+        messages: this.buildMessages(text),
+        jsonMode: true
+      }, options.signal);
+
+      for await (const delta of stream) {
+        buffer += delta;
+        const partial = extractPartialAnalysis(buffer);
+        if (Object.keys(partial).length > 0) {
+          yield { analysis: this.mergePartial(text, baseline, partial), complete: false, source: 'provider' };
+        }
+      }
+
+      const parsed = parseProviderAnalysis(extractJsonObject(buffer));
+      yield {
+        analysis: this.fromProviderFields(text, parsed, seed),
+        complete: true,
+        source: 'provider'
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`${this.provider.name} streaming analysis failed, falling back to heuristics:`, error);
+      yield { analysis: baseline, complete: true, source: 'heuristic' };
+    }
+  }
+
+  // Null when the provider has no vision model or cannot be used
+  async describeImage(imageUrl: string, signal?: AbortSignal): Promise<string | null> {
+    if (!this.provider.visionModel || !this.canUseProvider()) return null;
+    const content = await this.client.complete({
+      model: this.provider.visionModel,
+      messages: [
+        { role: 'system', content: IMAGE_DESCRIPTION_PROMPT },
+        { role: 'user', content: [{ type: 'image_url', image_url: { url: imageUrl } }] }
+      ],
+      maxTokens: 200
+    }, signal);
+    return content.trim();
+  }
+
+  // Texts with fewer than three sentences are scanned with an overlapping word window instead
+  analyzeTimeline(text: string): ResonanceData[] {
+    const lexicon = this.lexiconFor(text);
+    const segments = this.segmentForTimeline(text, lexicon.language);
+    if (segments.length === 0) return [];
+
+    const resonances = segments.map(segment => {
+      const emotional = this.calculateEmotionalIntensity(segment, lexicon) / 100;
+      const cognitive = this.calculateCognitiveLoad(segment, lexicon) / 100;
+      const symbolic = this.calculateSymbolicDensity(segment, lexicon) / 100;
+      return {
+        resonance: Math.min(1, emotional * 0.4 + cognitive * 0.3 + symbolic * 0.3),
+        symbolDensity: symbolic
+      };
+    });
+
+    const phases = classifyPhases(resonances.map(r => r.resonance));
+    return resonances.map((entry, index) => {
+      const previous = index > 0 ? resonances[index - 1].resonance : entry.resonance;
+      return {
+        timestamp: index,
+        resonance: entry.resonance,
+        phase: phases[index],
+        emergenceScore: Math.min(1, Math.abs(entry.resonance - previous) * 2 + (phases[index] === 'climax' ? 0.3 : 0)),
+        symbolDensity: entry.symbolDensity
+      };
+    });
+  }
+
+  // Every lexicon hit with its offsets; a term listed under several types counts once,
+  // for the first type in lexicon order
+  extractSymbolicElements(text: string): SymbolicElement[] {
+    const lexicon = this.lexiconFor(text);
+    const categories: Array<{ category: TermCategory; type: SymbolicElement['type']; weight: number; source: string }> = [
+      { category: 'symbols', type: 'archetypal', weight: 0.6, source: 'archetypal symbol' },
+      { category: 'abstract', type: 'archetypal', weight: 0.55, source: 'abstract concept' },
+      { category: 'emotional', type: 'emotional', weight: 0.5, source: 'emotion word' },
+      { category: 'transitions', type: 'cognitive', weight: 0.45, source: 'logical transition' },
+      { category: 'time', type: 'cognitive', weight: 0.3, source: 'time marker' }
+    ];
+
+    const elements: SymbolicElement[] = [];
+    const claimed = new Set<number>();
+    categories.forEach(({ category, type, weight, source }) => {
+      lexicon.match(text, [category]).forEach(match => {
+        if (claimed.has(match.start)) return;
+        claimed.add(match.start);
+
+        const intensifier = this.findIntensifier(text, match.start, lexicon);
+        let intensity = weight * match.weight * (intensifier ? 1.5 : 1);
+        let reason = intensifier
+          ? `Matched as ${source}, amplified by "${intensifier}"`
+          : `Matched as ${source}`;
+        if (match.negatedBy) {
+          intensity *= NEGATION_FACTOR;
+          reason += `, softened by "${match.negatedBy}"`;
+        }
+        elements.push({
+          text: match.text,
+          type,
+          intensity: Math.min(1, intensity),
+          start: match.start,
+          end: match.end,
+          reason
+        });
+      });
+    });
+
+    return elements.sort((a, b) => a.start - b.start);
+  }
+
+  // Looks at the word right before a match, e.g. "very" in "very afraid"
+  private findIntensifier(text: string, index: number, lexicon: Lexicon): string | null {
+    const before = text.slice(Math.max(0, index - 16), index);
+    const words = segmentWords(before, lexicon.language);
+    const last = words[words.length - 1];
+    if (!last || !/^\s*$/.test(before.slice(last.end))) return null;
+    return lexicon.match(last.text, ['intensifiers']).length > 0 ? last.text : null;
+  }
+
+  // The active pack when it covers the input's language, otherwise the built-in pack for it
+  private lexiconFor(text: string): Lexicon {
+    const language = detectLanguage(text);
+    return this.lexicon.language === language ? this.lexicon : getBuiltInLexicon(language);
+  }
+
+  private buildMessages(text: string): ChatMessage[] {
+    const language = LANGUAGES[detectLanguage(text)];
+    return [
+      { role: 'system', content: `${ANALYSIS_SYSTEM_PROMPT}\nWrite "meaningSignature" in ${language.label}.` },
+      { role: 'user', content: text }
+    ];
+  }
+
+  private segmentForTimeline(text: string, language: SupportedLanguage): string[] {
+    const sentences = segmentSentences(text, language).map(span => span.text);
+    if (sentences.length >= 3) return sentences;
+
+    const words = segmentWords(text, language);
+    const windowSize = 12;
+    const step = 6;
+    if (words.length <= windowSize) return sentences;
+
+    // Slice the original text so windows keep their spacing (or lack of it, in Japanese)
+    const windows: string[] = [];
+    for (let start = 0; start < words.length - step; start += step) {
+      const last = words[Math.min(words.length, start + windowSize) - 1];
+      windows.push(text.slice(words[start].start, last.end));
+    }
+    return windows;
+  }
+
+  private mergePartial(text: string, baseline: ResonanceAnalysis, partial: Partial<ProviderAnalysisFields>): ResonanceAnalysis {
+    const merged = {
+      ...baseline,
+      ...partial,
+      // The heuristic signature stays up until the provider's has started to arrive
+      meaningSignature: partial.meaningSignature || baseline.meaningSignature,
+      emergencePoints: partial.emergencePoints
+        ? this.locateEmergencePoints(text, partial.emergencePoints, this.lexiconFor(text))
+        : baseline.emergencePoints
+    };
+    return {
+      ...merged,
+      glyphData: this.generateGlyphData(merged.cognitiveLoad, merged.emotionalIntensity, merged.symbolicDensity)
+    };
+  }
+
+  private fromProviderFields(text: string, fields: ProviderAnalysisFields, seed: number): ResonanceAnalysis {
+    const lexicon = this.lexiconFor(text);
+    return {
+      ...fields,
+      emergencePoints: this.locateEmergencePoints(text, fields.emergencePoints, lexicon),
+      seed,
+      language: lexicon.language,
+      symbolism: this.describeSymbolism(text, seed, lexicon),
+      glyphData: this.generateGlyphData(fields.cognitiveLoad, fields.emotionalIntensity, fields.symbolicDensity)
+    };
+  }
+
+  // Maps provider positions onto the sentence they fall in and scores that sentence locally
+  private locateEmergencePoints(text: string, positions: number[], lexicon: Lexicon): EmergencePoint[] {
+    const spans = getSentenceSpans(text, lexicon.language);
+    if (spans.length === 0) return [];
+
+    const seen = new Set<number>();
+    return positions.flatMap(position => {
+      const offset = Math.min(text.length - 1, Math.floor((position / 100) * text.length));
+      const index = Math.max(0, spans.findIndex(span => offset < span.end));
+      if (seen.has(index)) return [];
+      seen.add(index);
+      return [this.describeEmergence(spans, index, position, lexicon)];
+    });
+  }
+
+  private describeEmergence(spans: SentenceSpan[], index: number, position: number, lexicon: Lexicon): EmergencePoint {
+    const span = spans[index];
+    const emotional = this.calculateEmotionalIntensity(span.text, lexicon);
+    const cognitive = this.calculateCognitiveLoad(span.text, lexicon);
+    // Compare each metric against its own detection threshold
+    const trigger = emotional / 60 >= cognitive / 70 ? 'emotional' : 'cognitive';
+    const intensity = Math.min(1, Math.max(emotional, cognitive) / 100);
+
+    const excerpt = span.text.length > 48 ? `${span.text.slice(0, 45).trim()}...` : span.text;
+    const description = trigger === 'emotional'
+      ? `Emotional surge in sentence ${index + 1}: "${excerpt}"`
+      : `Cognitive knot in sentence ${index + 1}: "${excerpt}"`;
+
+    return { timestamp: position, intensity, description, trigger, start: span.start, end: span.end };
+  }
+
+  // Hosted providers need a key; local OpenAI-compatible servers usually don't
+  private canUseProvider(): boolean {
+    return !!this.provider.apiKey || !requiresApiKey(getAdapter(this.provider.kind));
+  }
+
+  private async analyzeWithProvider(text: string, seed: number, signal?: AbortSignal): Promise<ResonanceAnalysis> {
+    const content = await this.client.complete({
+      model: this.provider.model,
+      messages: this.buildMessages(text),
+      jsonMode: true
+    }, signal);
+
+    return this.fromProviderFields(text, parseProviderAnalysis(extractJsonObject(content)), seed);
+  }
+
+  private async analyzeWithHeuristics(text: string, seed: number): Promise<ResonanceAnalysis> {
+    const lexicon = this.lexiconFor(text);
     try {
-      // Simulate AI analysis with sophisticated heuristics
-      const words = text.split(/\s+/).filter(word => word.length > 0);
-      const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-      
       // Calculate cognitive metrics
-      const cognitiveLoad = this.calculateCognitiveLoad(text);
-      const emotionalIntensity = this.calculateEmotionalIntensity(text);
-      const symbolicDensity = this.calculateSymbolicDensity(text);
-      const temporalFlow = this.calculateTemporalFlow(text);
+      const cognitiveLoad = this.calculateCognitiveLoad(text, lexicon);
+      const emotionalIntensity = this.calculateEmotionalIntensity(text, lexicon);
+      const symbolicDensity = this.calculateSymbolicDensity(text, lexicon);
+      const temporalFlow = this.calculateTemporalFlow(text, lexicon);
       
       // Find emergence points (significant semantic shifts)
-      const emergencePoints = this.findEmergencePoints(text);
+      const emergencePoints = this.findEmergencePoints(text, lexicon);
       
       // Generate meaning signature
-      const meaningSignature = await this.generateMeaningSignature(text);
+      const symbolism = this.describeSymbolism(text, seed, lexicon);
+      const meaningSignature = await this.generateMeaningSignature(symbolism, lexicon);
       
       // Create glyph data
       const glyphData = this.generateGlyphData(cognitiveLoad, emotionalIntensity, symbolicDensity);
@@ -71,161 +472,114 @@ export class GlyphAnalyzer {
         temporalFlow,
         emergencePoints,
         meaningSignature,
+        seed,
+        language: lexicon.language,
+        symbolism,
         glyphData
       };
     } catch (error) {
       console.error('Analysis error:', error);
-      return this.getDefaultAnalysis();
+      return { ...this.getDefaultAnalysis(), seed, language: lexicon.language };
     }
   }
 
-  private calculateCognitiveLoad(text: string): number {
-    const words = text.split(/\s+/);
-    const avgWordLength = words.reduce((sum, word) => sum + word.length, 0) / words.length;
+  private calculateCognitiveLoad(text: string, lexicon: Lexicon): number {
+    const words = segmentWords(text, lexicon.language).map(word => word.text);
+    const avgWordLength = words.reduce((sum, word) => sum + word.length, 0) / Math.max(1, words.length);
     const complexWords = words.filter(word => word.length > 6).length;
-    const sentenceComplexity = text.split(/[.!?]+/).reduce((sum, sentence) => {
-      const clauseCount = sentence.split(/[,;:]/).length;
+    const sentenceComplexity = segmentSentences(text, lexicon.language).reduce((sum, sentence) => {
+      const clauseCount = sentence.text.split(/[,;:、，；：]/).length;
       return sum + clauseCount;
     }, 0);
     
     return Math.min(100, (avgWordLength * 10) + (complexWords * 2) + sentenceComplexity);
   }
 
-  private calculateEmotionalIntensity(text: string): number {
-    const emotionalWords = [
-      'love', 'hate', 'fear', 'joy', 'anger', 'sadness', 'excitement', 'anxiety',
-      'passion', 'rage', 'bliss', 'terror', 'ecstasy', 'despair', 'hope', 'dread'
-    ];
-    
-    const intensifiers = ['very', 'extremely', 'incredibly', 'absolutely', 'completely'];
+  private calculateEmotionalIntensity(text: string, lexicon: Lexicon): number {
     const punctuationIntensity = (text.match(/[!?]{2,}/g) || []).length * 10;
     
-    const emotionalScore = emotionalWords.reduce((score, word) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      const matches = text.match(regex) || [];
-      return score + matches.length * 15;
-    }, 0);
-    
-    const intensifierScore = intensifiers.reduce((score, word) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      const matches = text.match(regex) || [];
-      return score + matches.length * 5;
-    }, 0);
+    const emotionalScore = lexicon.score(text, 'emotional') * 15;
+    const intensifierScore = lexicon.score(text, 'intensifiers') * 5;
     
     return Math.min(100, emotionalScore + intensifierScore + punctuationIntensity);
   }
 
-  private calculateSymbolicDensity(text: string): number {
-    const symbols = text.match(/[^\w\s]/g) || [];
-    const metaphors = text.match(/\b(like|as|seems|appears|resembles)\b/gi) || [];
-    const abstractWords = [
-      'consciousness', 'reality', 'existence', 'meaning', 'purpose', 'soul',
-      'spirit', 'essence', 'truth', 'wisdom', 'enlightenment', 'transcendence'
-    ];
+  private calculateSymbolicDensity(text: string, lexicon: Lexicon): number {
+    const symbols = text.match(/[^\p{L}\p{N}\s]/gu) || [];
+    const metaphorScore = lexicon.score(text, 'metaphors') * 10;
+    const abstractScore = lexicon.score(text, 'abstract') * 20;
     
-    const abstractScore = abstractWords.reduce((score, word) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      const matches = text.match(regex) || [];
-      return score + matches.length * 20;
-    }, 0);
-    
-    return Math.min(100, symbols.length * 2 + metaphors.length * 10 + abstractScore);
+    return Math.min(100, symbols.length * 2 + metaphorScore + abstractScore);
   }
 
-  private calculateTemporalFlow(text: string): number {
-    const timeWords = ['now', 'then', 'before', 'after', 'during', 'while', 'when', 'until'];
-    const transitionWords = ['however', 'therefore', 'meanwhile', 'consequently', 'furthermore'];
-    
-    const timeScore = timeWords.reduce((score, word) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      const matches = text.match(regex) || [];
-      return score + matches.length * 8;
-    }, 0);
-    
-    const transitionScore = transitionWords.reduce((score, word) => {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi');
-      const matches = text.match(regex) || [];
-      return score + matches.length * 12;
-    }, 0);
+  private calculateTemporalFlow(text: string, lexicon: Lexicon): number {
+    const timeScore = lexicon.score(text, 'time') * 8;
+    const transitionScore = lexicon.score(text, 'transitions') * 12;
     
     return Math.min(100, timeScore + transitionScore);
   }
 
-  private findEmergencePoints(text: string): number[] {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const emergencePoints: number[] = [];
+  private findEmergencePoints(text: string, lexicon: Lexicon): EmergencePoint[] {
+    const spans = getSentenceSpans(text, lexicon.language);
+    const emergencePoints: EmergencePoint[] = [];
     
-    sentences.forEach((sentence, index) => {
-      const intensity = this.calculateEmotionalIntensity(sentence);
-      const complexity = this.calculateCognitiveLoad(sentence);
+    spans.forEach((span, index) => {
+      const intensity = this.calculateEmotionalIntensity(span.text, lexicon);
+      const complexity = this.calculateCognitiveLoad(span.text, lexicon);
       
       if (intensity > 60 || complexity > 70) {
-        emergencePoints.push((index / sentences.length) * 100);
+        emergencePoints.push(this.describeEmergence(spans, index, (index / spans.length) * 100, lexicon));
       }
     });
     
     return emergencePoints;
   }
 
-  private async generateMeaningSignature(text: string): Promise<string> {
+  private describeSymbolism(text: string, seed: number, lexicon: Lexicon): Symbolism {
+    return {
+      archetype: this.extractArchetype(text, seed, lexicon),
+      mood: this.extractMood(text, lexicon),
+      themes: this.extractThemes(text, lexicon)
+    };
+  }
+
+  private async generateMeaningSignature(symbolism: Symbolism, lexicon: Lexicon): Promise<string> {
     // Simulate AI-generated meaning signature
-    const themes = this.extractThemes(text);
-    const mood = this.extractMood(text);
-    const archetype = this.extractArchetype(text);
-    
-    return `${archetype} resonance with ${mood} undertones, exploring themes of ${themes.join(', ')}`;
+    return composeMeaningSignature(lexicon.language, symbolism.archetype, symbolism.mood, symbolism.themes);
   }
 
-  private extractThemes(text: string): string[] {
-    const themeKeywords = {
-      'transformation': ['change', 'transform', 'evolve', 'become', 'shift'],
-      'connection': ['together', 'bond', 'unite', 'connect', 'relationship'],
-      'discovery': ['find', 'discover', 'reveal', 'uncover', 'explore'],
-      'conflict': ['struggle', 'fight', 'battle', 'oppose', 'resist'],
-      'growth': ['grow', 'develop', 'expand', 'progress', 'advance'],
-      'mystery': ['unknown', 'secret', 'hidden', 'mysterious', 'enigma']
-    };
-    
-    const themes: string[] = [];
-    Object.entries(themeKeywords).forEach(([theme, keywords]) => {
-      const hasTheme = keywords.some(keyword => 
-        text.toLowerCase().includes(keyword.toLowerCase())
-      );
-      if (hasTheme) themes.push(theme);
-    });
-    
+  private extractThemes(text: string, lexicon: Lexicon): string[] {
+    const themes = Object.keys(lexicon.scoreGroups(text, 'themes'));
     return themes.length > 0 ? themes : ['existence'];
   }
 
-  private extractMood(text: string): string {
-    const moodKeywords = {
-      'contemplative': ['think', 'ponder', 'reflect', 'consider', 'wonder'],
-      'energetic': ['energy', 'power', 'force', 'dynamic', 'vibrant'],
-      'melancholic': ['sad', 'sorrow', 'loss', 'grief', 'melancholy'],
-      'euphoric': ['joy', 'bliss', 'ecstasy', 'elation', 'rapture'],
-      'mysterious': ['mystery', 'enigma', 'puzzle', 'riddle', 'secret']
-    };
-    
-    for (const [mood, keywords] of Object.entries(moodKeywords)) {
-      const hasKeywords = keywords.some(keyword => 
-        text.toLowerCase().includes(keyword.toLowerCase())
-      );
-      if (hasKeywords) return mood;
-    }
-    
-    return 'neutral';
+  // Strongest mood wins; ties go to the mood listed first in the pack
+  private extractMood(text: string, lexicon: Lexicon): string {
+    const scores = lexicon.scoreGroups(text, 'moods');
+    let mood = 'neutral';
+    let best = 0;
+    Object.keys(lexicon.pack.groups.moods).forEach(candidate => {
+      if ((scores[candidate] || 0) > best) {
+        best = scores[candidate];
+        mood = candidate;
+      }
+    });
+    return mood;
   }
 
-  private extractArchetype(text: string): string {
-    const archetypes = [
-      'The Seeker', 'The Sage', 'The Creator', 'The Rebel', 'The Hero',
-      'The Lover', 'The Jester', 'The Caregiver', 'The Ruler', 'The Magician'
-    ];
-    
-    // Simple heuristic based on text characteristics
-    const textLength = text.length;
-    const index = Math.floor((textLength % archetypes.length));
-    return archetypes[index];
+  private extractArchetype(text: string, seed: number, lexicon: Lexicon): string {
+    const matched = lexicon.scoreGroups(text, 'archetypes');
+    const scores = Object.keys(lexicon.pack.groups.archetypes).map(archetype => ({
+      archetype,
+      score: matched[archetype] || 0
+    }));
+    if (scores.length === 0) return 'The Seeker';
+    const best = Math.max(...scores.map(entry => entry.score));
+    const candidates = scores.filter(entry => entry.score === best);
+
+    // Ties (including "no keywords at all") are broken by the seed, not by text length
+    const random = createRandom(seed);
+    return candidates[Math.floor(random() * candidates.length)].archetype;
   }
 
   private generateGlyphData(cognitive: number, emotional: number, symbolic: number) {
@@ -255,7 +609,7 @@ export class GlyphAnalyzer {
       emotionalIntensity: 30,
       symbolicDensity: 40,
       temporalFlow: 35,
-      emergencePoints: [25, 75],
+      emergencePoints: [],
       meaningSignature: 'Neutral resonance with contemplative undertones',
       glyphData: {
         shape: 'circle',
@@ -265,4 +619,93 @@ export class GlyphAnalyzer {
       }
     };
   }
-}
\ No newline at end of file
+}
+
+const METRIC_KEYS = ['cognitiveLoad', 'emotionalIntensity', 'symbolicDensity', 'temporalFlow'] as const;
+
+// Metrics are clamped into range before they are checked; emergence points keep what is usable
+const providerMetricSchema = z.preprocess(value => Math.max(0, Math.min(100, Number(value))), analysisSchema.shape.cognitiveLoad);
+
+const providerAnalysisSchema = z.object({
+  cognitiveLoad: providerMetricSchema,
+  emotionalIntensity: providerMetricSchema,
+  symbolicDensity: providerMetricSchema,
+  temporalFlow: providerMetricSchema,
+  emergencePoints: z.unknown().transform(points => Array.isArray(points)
+    ? points.map(Number).filter(Number.isFinite).map(point => Math.max(0, Math.min(100, point)))
+    : []),
+  meaningSignature: analysisSchema.shape.meaningSignature.trim().min(1)
+});
+
+// Validates the model's JSON; throws on anything unusable
+export function parseProviderAnalysis(raw: unknown): ProviderAnalysisFields {
+  const result = providerAnalysisSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Provider analysis is invalid at ${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Cuts a \u escape the stream has not finished; an even run of backslashes before the u
+// is escaped backslashes followed by a literal u
+function trimPartialEscape(raw: string): string {
+  const match = raw.match(/(\\+)u[0-9a-fA-F]{0,3}$/);
+  return match && match[1].length % 2 === 1 ? raw.slice(0, match.index! + match[1].length - 1) : raw;
+}
+
+// Reads whatever fields are already complete in a JSON object that is still streaming
+export function extractPartialAnalysis(buffer: string): Partial<ProviderAnalysisFields> {
+  const partial: Partial<ProviderAnalysisFields> = {};
+
+  for (const key of METRIC_KEYS) {
+    // A number is only final once a delimiter follows it
+    const match = buffer.match(new RegExp(`"${key}"\\s*:\\s*(-?\\d+(?:\\.\\d+)?)\\s*[,}\\n]`));
+    if (match) {
+      partial[key] = Math.max(0, Math.min(100, Number(match[1])));
+    }
+  }
+
+  const points = buffer.match(/"emergencePoints"\s*:\s*\[([^\]]*)\]/);
+  if (points) {
+    partial.emergencePoints = points[1]
+      .split(',')
+      .filter(part => part.trim().length > 0)
+      .map(Number)
+      .filter(point => Number.isFinite(point) && point >= 0 && point <= 100);
+  }
+
+  const signature = buffer.match(/"meaningSignature"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (signature) {
+    const raw = trimPartialEscape(signature[1]);
+    try {
+      partial.meaningSignature = JSON.parse(`"${raw}"`);
+    } catch {
+      partial.meaningSignature = raw;
+    }
+  }
+
+  return partial;
+}
+
+// Peak-relative phases: rising toward the peak is buildup, near it climax,
+// falling after it release, and a quiet final quarter is echo
+export function classifyPhases(resonances: number[]): ResonancePhase[] {
+  if (resonances.length === 0) return [];
+  const peak = Math.max(...resonances);
+  const peakIndex = resonances.indexOf(peak);
+  const tailStart = resonances.length - Math.max(1, Math.floor(resonances.length * 0.25));
+
+  return resonances.map((value, index) => {
+    if (peak > 0 && value >= peak * 0.85) return 'climax';
+    if (index === 0) return 'beginning';
+    if (index < peakIndex) return 'buildup';
+    if (index >= tailStart && value < peak * 0.5) return 'echo';
+    return 'release';
+  });
+}
+
+// Sentences with their character offsets, trimmed of surrounding whitespace
+export function getSentenceSpans(text: string, language: SupportedLanguage = 'en'): SentenceSpan[] {
+  return segmentSentences(text, language);
+}
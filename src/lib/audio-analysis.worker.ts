@@ -0,0 +1,12 @@
+// Analyses decoded audio files off the main thread; see analyzeAudioFile
+import { analyzeDecodedAudio, type AudioFileAnalysisResult, type DecodedAudioFile } from './voice-recorder';
+
+self.onmessage = (event: MessageEvent<DecodedAudioFile>) => {
+  let result: AudioFileAnalysisResult;
+  try {
+    result = { ok: true, analysis: analyzeDecodedAudio(event.data) };
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(result);
+};
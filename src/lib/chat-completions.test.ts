@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ChatCompletionsClient } from './chat-completions';
+import { getAdapter } from './provider-adapters';
+
+const request = { model: 'stub', messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+function client(fetchImpl: typeof fetch, timeoutMs?: number): ChatCompletionsClient {
+  return new ChatCompletionsClient({ baseUrl: 'http://stub.test/v1', adapter: getAdapter('ollama'), fetchImpl, timeoutMs });
+}
+
+function completion(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+}
+
+describe('ChatCompletionsClient request signals', () => {
+  it('leaves no listener on the caller signal once a request finishes', async () => {
+    const signal = new AbortController().signal;
+    const added = vi.spyOn(signal, 'addEventListener');
+    const removed = vi.spyOn(signal, 'removeEventListener');
+    const chat = client(async () => completion('Hi'));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(chat.complete(request, signal)).resolves.toBe('Hi');
+    }
+
+    expect(added.mock.calls.length).toBe(removed.mock.calls.length);
+  });
+
+  it('cancels the request when the caller aborts', async () => {
+    const controller = new AbortController();
+    const chat = client((_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const pending = chat.complete(request, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('times out waiting for headers but not while the body streams', async () => {
+    const encoder = new TextEncoder();
+    const chat = client(async () => new Response(new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"slow"}}]}\n\n'));
+        await new Promise(resolve => setTimeout(resolve, 80));
+        controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":" reply"}}]}\n\ndata: [DONE]\n\n'));
+        controller.close();
+      }
+    })), 40);
+
+    const deltas: string[] = [];
+    for await (const delta of chat.stream(request)) deltas.push(delta);
+    expect(deltas.join('')).toBe('slow reply');
+
+    const stalled = client((_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }), 40);
+    await expect(stalled.complete(request)).rejects.toThrow('chat request timed out after 40ms');
+  });
+});
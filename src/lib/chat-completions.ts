@@ -0,0 +1,206 @@
+// OpenAI-compatible chat-completions client
+import type { ProviderAdapter, ProviderCapability, RateLimiter } from './provider-adapters';
+import { buildAuthHeaders, ProviderResponseError } from './provider-adapters';
+
+// Multi-part content carries images for vision models
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  stream?: boolean;
+}
+
+export interface ChatClientOptions {
+  baseUrl: string;
+  adapter: ProviderAdapter;
+  apiKey?: string;
+  rateLimiter?: RateLimiter;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export class ChatCompletionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ChatCompletionError';
+    this.status = status;
+  }
+}
+
+export class ChatCompletionsClient {
+  private baseUrl: string;
+  private adapter: ProviderAdapter;
+  private apiKey?: string;
+  private rateLimiter?: RateLimiter;
+  private timeoutMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: ChatClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.adapter = options.adapter;
+    this.apiKey = options.apiKey;
+    this.rateLimiter = options.rateLimiter;
+    this.timeoutMs = options.timeoutMs ?? 20000;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.send('chat', this.adapter.buildChatBody({ ...request, stream: false }), signal);
+    const payload = await response.json();
+    const content = this.parse(() => this.adapter.parseChatResponse(payload));
+    if (!content || content.trim().length === 0) {
+      throw new ChatCompletionError('Chat completion returned no message content');
+    }
+    return content;
+  }
+
+  // Yields content deltas from a server-sent-events stream
+  async *stream(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await this.send('chat', this.adapter.buildChatBody({ ...request, stream: true }), signal);
+    if (!response.body) {
+      throw new ChatCompletionError('Streaming response had no body');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          let payload: unknown;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          const delta = this.parse(() => this.adapter.parseChatStreamChunk(payload));
+          if (delta) yield delta;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async embed(model: string, input: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.send('embeddings', this.adapter.buildEmbeddingsBody(model, input), signal);
+    const payload = await response.json();
+    const vectors = this.parse(() => this.adapter.parseEmbeddingsResponse(payload));
+    if (!vectors) {
+      throw new ChatCompletionError('Embeddings response had an unexpected shape');
+    }
+    return vectors;
+  }
+
+  // Reports a malformed payload as this client's error, naming the provider
+  private parse<T>(parse: () => T): T {
+    try {
+      return parse();
+    } catch (error) {
+      if (error instanceof ProviderResponseError) {
+        throw new ChatCompletionError(`${this.adapter.label}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // Resolves once response headers arrive. The timeout only covers waiting for them: a
+  // streamed body can take longer, and the caller's signal still cancels reading it
+  private async send(capability: ProviderCapability, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const path = this.adapter.paths[capability];
+    if (!path || !this.adapter.capabilities.includes(capability)) {
+      throw new ChatCompletionError(`${this.adapter.label} does not support ${capability}`);
+    }
+    if (this.rateLimiter && !this.rateLimiter.tryAcquire()) {
+      throw new ChatCompletionError(
+        `${this.adapter.label} rate limit of ${this.adapter.rateLimit.requestsPerMinute} requests/minute reached`,
+        429
+      );
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Request cancelled', 'AbortError');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    // Combined rather than forwarded with a listener, so the caller's signal keeps no reference
+    // to requests that have finished
+    const requestSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...buildAuthHeaders(this.adapter, this.apiKey)
+        },
+        body: JSON.stringify(body),
+        signal: requestSignal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new ChatCompletionError(
+          `${capability} request failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+          response.status
+        );
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof ChatCompletionError) throw error;
+      if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+      if (controller.signal.aborted) {
+        throw new ChatCompletionError(`${capability} request timed out after ${this.timeoutMs}ms`);
+      }
+      throw new ChatCompletionError(`${capability} request failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// Models often wrap JSON in prose or code fences; pull out the first object
+export function extractJsonObject(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new ChatCompletionError('Response did not contain a JSON object');
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    throw new ChatCompletionError('Response contained malformed JSON');
+  }
+}
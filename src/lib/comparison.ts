@@ -0,0 +1,66 @@
+// Metric and symbol comparison between saved analyses
+import type { ResonanceAnalysis, Symbolism } from './ai-providers';
+
+export const COMPARISON_METRICS = [
+  { key: 'cognitiveLoad', label: 'Cognitive' },
+  { key: 'emotionalIntensity', label: 'Emotional' },
+  { key: 'symbolicDensity', label: 'Symbolic' },
+  { key: 'temporalFlow', label: 'Temporal' }
+] as const;
+
+export interface ComparedAnalysis {
+  analysis: ResonanceAnalysis;
+  symbolism: Symbolism;
+}
+
+export interface SetDiff {
+  shared: string[]; // present in every list
+  unique: string[][]; // per list, present in that list only
+}
+
+export function diffSets(lists: string[][]): SetDiff {
+  const sets = lists.map(list => new Set(list));
+  const all = [...new Set(lists.flat())];
+  return {
+    shared: all.filter(item => sets.every(set => set.has(item))),
+    unique: sets.map((set, index) =>
+      [...set].filter(item => sets.every((other, otherIndex) => otherIndex === index || !other.has(item)))
+    )
+  };
+}
+
+function symbolKeys(symbolism: Symbolism): Set<string> {
+  return new Set([
+    `archetype:${symbolism.archetype}`,
+    `mood:${symbolism.mood}`,
+    ...symbolism.themes.map(theme => `theme:${theme}`)
+  ]);
+}
+
+// 0 means identical metrics and symbols; 100 means opposite metrics and nothing in common.
+// Metrics carry 70% of the score, the archetype/mood/theme overlap (Jaccard) the rest
+export function resonanceDistance(a: ComparedAnalysis, b: ComparedAnalysis): number {
+  const squared = COMPARISON_METRICS.reduce((sum, { key }) => {
+    const delta = (a.analysis[key] - b.analysis[key]) / 100;
+    return sum + delta * delta;
+  }, 0);
+  const metricDistance = Math.sqrt(squared) / Math.sqrt(COMPARISON_METRICS.length);
+
+  const keysA = symbolKeys(a.symbolism);
+  const keysB = symbolKeys(b.symbolism);
+  const intersection = [...keysA].filter(key => keysB.has(key)).length;
+  const union = new Set([...keysA, ...keysB]).size;
+  const symbolDistance = union === 0 ? 0 : 1 - intersection / union;
+
+  return Math.round((metricDistance * 0.7 + symbolDistance * 0.3) * 100);
+}
+
+export function pairwiseDistances(items: ComparedAnalysis[]): Array<{ a: number; b: number; distance: number }> {
+  const pairs: Array<{ a: number; b: number; distance: number }> = [];
+  for (let a = 0; a < items.length; a++) {
+    for (let b = a + 1; b < items.length; b++) {
+      pairs.push({ a, b, distance: resonanceDistance(items[a], items[b]) });
+    }
+  }
+  return pairs;
+}
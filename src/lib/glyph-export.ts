@@ -0,0 +1,102 @@
+// File exports of a glyph: vector SVG, high-DPI PNG and a WebM animation loop
+import type { ResonanceAnalysis } from './ai-providers';
+import { GlyphRenderer, type GlyphRenderOptions } from './glyph-renderer';
+
+const CSS_DPI = 96;
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// A still PNG of the glyph at a fixed moment, so repeated renders of the same analysis match
+export function renderGlyphSnapshot(analysis: ResonanceAnalysis, size: number, time: number = 1.5): string {
+  const renderer = new GlyphRenderer(document.createElement('canvas'));
+  return renderer.captureSnapshotAt(analysis, {
+    width: size,
+    height: size,
+    animate: false,
+    showParticles: true,
+    showResonanceField: true,
+    complexity: analysis.glyphData.complexity
+  }, time);
+}
+
+export function exportSvg(analysis: ResonanceAnalysis, options: GlyphRenderOptions): Blob {
+  const renderer = new GlyphRenderer(document.createElement('canvas'));
+  return new Blob([renderer.toSVG(analysis, options)], { type: 'image/svg+xml' });
+}
+
+// Renders the still frame offscreen with the backing store scaled to the requested DPI
+export function exportPng(analysis: ResonanceAnalysis, options: GlyphRenderOptions, dpi: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  const renderer = new GlyphRenderer(canvas);
+  renderer.captureSnapshotAt(analysis, { ...options, pixelRatio: dpi / CSS_DPI }, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('PNG is too large to encode at this DPI'));
+      }
+    }, 'image/png');
+  });
+}
+
+// Frames are drawn at fixed time steps, so the loop is identical on every export;
+// each one is pushed to the recorder explicitly and held for one frame interval
+export async function recordGlyphLoop(
+  analysis: ResonanceAnalysis,
+  options: GlyphRenderOptions,
+  seconds: number,
+  fps: number = 30
+): Promise<Blob> {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? undefined
+    : VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('Video recording is not supported in this browser');
+  }
+
+  const canvas = document.createElement('canvas');
+  const renderer = new GlyphRenderer(canvas);
+  const frames = renderer.renderFrames(analysis, options, seconds, fps);
+  frames.next(); // draw the first frame before the stream starts
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  try {
+    const frameInterval = 1000 / fps;
+    let result = { done: false } as IteratorResult<number>;
+    while (!result.done) {
+      track.requestFrame();
+      await new Promise(resolve => setTimeout(resolve, frameInterval));
+      result = frames.next();
+    }
+    recorder.stop();
+    await stopped;
+  } finally {
+    // A frame that throws would otherwise leave the recorder and capture running
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Some browsers only start reading the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { GlyphAnalyzer, type ResonanceAnalysis } from './ai-providers';
+import { GlyphRenderer, type GlyphRenderOptions } from './glyph-renderer';
+
+const options: GlyphRenderOptions = { width: 320, height: 240, animate: false, showParticles: true, showResonanceField: true, complexity: 5 };
+
+// Stands in for Path2D, which node lacks, and keeps the path data for the call log
+class RecordedPath {
+  readonly d: string;
+
+  constructor(d: string) {
+    this.d = d;
+  }
+}
+
+// A canvas whose 2D context records every call and assignment instead of drawing
+function recordingCanvas(): { canvas: HTMLCanvasElement; calls: string[] } {
+  const calls: string[] = [];
+  const context = new Proxy({}, {
+    get: (_target, name) => (...args: unknown[]) => {
+      calls.push(`${String(name)}(${args.map(arg => (arg instanceof RecordedPath ? arg.d : JSON.stringify(arg))).join(',')})`);
+    },
+    set: (_target, name, value) => {
+      calls.push(`${String(name)}=${JSON.stringify(value)}`);
+      return true;
+    }
+  });
+  const canvas = { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+  return { canvas, calls };
+}
+
+function drawCalls(analysis: ResonanceAnalysis, time: number): string[] {
+  const { canvas, calls } = recordingCanvas();
+  new GlyphRenderer(canvas).renderAt(analysis, options, time);
+  return calls;
+}
+
+let analysis: ResonanceAnalysis;
+
+beforeAll(async () => {
+  vi.stubGlobal('Path2D', RecordedPath);
+  const analyzer = new GlyphAnalyzer({ id: 'offline', name: 'Offline', kind: 'groq', baseUrl: 'http://127.0.0.1:1', model: 'none', free: true });
+  analysis = await analyzer.analyzeText('Light pours through the broken window. We begin again, slowly.', { seed: 'team' });
+});
+
+describe('GlyphRenderer determinism', () => {
+  it('draws the same frame for the same analysis and time', () => {
+    expect(drawCalls(analysis, 2.5)).toEqual(drawCalls(analysis, 2.5));
+  });
+
+  it('draws particles and the resonance field differently for another seed', () => {
+    expect(drawCalls({ ...analysis, seed: (analysis.seed ?? 0) + 1 }, 2.5)).not.toEqual(drawCalls(analysis, 2.5));
+  });
+
+  it('exports the same SVG after rendering the same frame', () => {
+    const first = recordingCanvas();
+    const second = recordingCanvas();
+    const renderer = new GlyphRenderer(first.canvas);
+    const other = new GlyphRenderer(second.canvas);
+    renderer.renderAt(analysis, options, 1);
+    other.renderAt({ ...analysis, seed: 7 }, options, 4);
+    other.renderAt(analysis, options, 1);
+
+    expect(renderer.toSVG(analysis, options, 1)).toBe(other.toSVG(analysis, options, 1));
+    expect(renderer.toSVG(analysis, options, 1)).not.toBe(renderer.toSVG(analysis, options, 2));
+  });
+});
@@ -1,4 +1,5 @@
-import { ResonanceAnalysis } from './ai-providers';
+import type { EmergencePoint, ResonanceAnalysis } from './ai-providers';
+import { createRandom, hashString, type RandomSource } from './random';
 
 export interface GlyphRenderOptions {
   width: number;
@@ -7,15 +8,34 @@ export interface GlyphRenderOptions {
   showParticles: boolean;
   showResonanceField: boolean;
   complexity: number;
+  pixelRatio?: number; // backing-store pixels per layout pixel, for high-DPI output
+}
+
+// One stroked (and optionally filled) outline of the main glyph, as SVG path data
+// centered on the origin; the canvas draws the same data through Path2D
+interface GlyphPath {
+  d: string;
+  fill: boolean;
 }
 
 export class GlyphRenderer {
+  private static readonly SIMULATION_FPS = 60;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private animationId: number | null = null;
   private startTime: number = 0;
   private particles: Particle[] = [];
   private resonanceField: ResonanceField;
+  private random: RandomSource = Math.random;
+  // Where emergence dots were last drawn, for click hit-testing
+  private emergenceHitAreas: Array<{ x: number; y: number; radius: number; point: EmergencePoint }> = [];
+  // The animation loop eases the displayed analysis toward the target each frame
+  private displayedAnalysis: ResonanceAnalysis | null = null;
+  private targetAnalysis: ResonanceAnalysis | null = null;
+  private currentOptions: GlyphRenderOptions | null = null;
+  // Layout size; the canvas backing store is this times the pixel ratio
+  private width: number;
+  private height: number;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -24,13 +44,14 @@ export class GlyphRenderer {
       throw new Error('Could not get 2D context from canvas');
     }
     this.ctx = context;
+    this.width = canvas.width;
+    this.height = canvas.height;
     this.resonanceField = new ResonanceField(canvas.width, canvas.height);
   }
 
   render(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
-    this.canvas.width = options.width;
-    this.canvas.height = options.height;
-    this.resonanceField.resize(options.width, options.height);
+    this.resize(options);
+    this.reseed(analysis);
 
     if (options.animate) {
       this.startAnimation(analysis, options);
@@ -39,30 +60,157 @@ export class GlyphRenderer {
     }
   }
 
+  private resize(options: GlyphRenderOptions): void {
+    const ratio = options.pixelRatio ?? 1;
+    this.width = options.width;
+    this.height = options.height;
+    this.canvas.width = Math.round(options.width * ratio);
+    this.canvas.height = Math.round(options.height * ratio);
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    this.resonanceField.resize(options.width, options.height);
+  }
+
+  // Older entries have no seed; fall back to hashing the signature so they stay stable too
+  private reseed(analysis: ResonanceAnalysis): void {
+    this.random = createRandom(analysis.seed ?? hashString(analysis.meaningSignature));
+    this.resonanceField.reseed(this.random);
+  }
+
+  // Renders the frame at `time` seconds from a fresh seeded state, so the same
+  // analysis and time always produce the same pixels regardless of frame rate
+  renderAt(analysis: ResonanceAnalysis, options: GlyphRenderOptions, time: number): void {
+    this.stopAnimation();
+    this.resetSimulation(analysis, options);
+    this.advanceParticles(analysis, 0, Math.round(time * GlyphRenderer.SIMULATION_FPS));
+    this.renderFrame(analysis, options, time);
+  }
+
+  // Draws an animation frame by frame at fixed time steps and yields each frame's time,
+  // e.g. for video export. Particles still move at the live simulation rate.
+  *renderFrames(analysis: ResonanceAnalysis, options: GlyphRenderOptions, seconds: number, fps: number): Generator<number> {
+    this.stopAnimation();
+    this.resetSimulation(analysis, options);
+
+    const frameCount = Math.max(1, Math.round(seconds * fps));
+    let step = 0;
+    for (let frame = 0; frame < frameCount; frame++) {
+      const time = frame / fps;
+      // Same simulation state as captureSnapshotAt(time); renderFrame itself advances one more step
+      const targetStep = Math.round(time * GlyphRenderer.SIMULATION_FPS);
+      this.advanceParticles(analysis, step, targetStep);
+      step = Math.max(step, targetStep) + 1;
+      this.renderFrame(analysis, options, time);
+      yield time;
+    }
+  }
+
+  // Standalone vector image of the frame at `time`. Particles and the resonance field
+  // are raster effects and are left out.
+  toSVG(analysis: ResonanceAnalysis, options: GlyphRenderOptions, time: number = 0): string {
+    const { width, height } = options;
+    const layout = glyphLayout(analysis, width, height, time);
+    const format = (value: number) => Number(value.toFixed(2));
+
+    const rings = frequencyRingRadii(width, height, time).map(radius =>
+      `<circle cx="${format(width / 2)}" cy="${format(height / 2)}" r="${format(radius)}" />`
+    );
+    const paths = glyphPaths(analysis.glyphData.shape, layout.size, analysis.glyphData.complexity, time).map(path =>
+      `<path d="${path.d}"${path.fill ? '' : ' fill="none"'} />`
+    );
+    const points = emergenceLayout(analysis, width, height, time).map(({ x, y, size }) =>
+      `<circle cx="${format(x)}" cy="${format(y)}" r="${format(size)}" />`
+    );
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      '<defs><filter id="glow" x="-50%" y="-50%" width="200%" height="200%">',
+      '<feGaussianBlur stdDeviation="4" result="blur" /><feMerge><feMergeNode in="blur" /><feMergeNode in="SourceGraphic" /></feMerge>',
+      '</filter></defs>',
+      `<rect width="${width}" height="${height}" fill="#0a0a0f" />`,
+      `<g fill="none" stroke="#00FFFF" stroke-opacity="${format(0.1 + (analysis.temporalFlow / 100) * 0.2)}" stroke-width="1">`,
+      ...rings,
+      '</g>',
+      `<g transform="translate(${format(width / 2)} ${format(height / 2)}) rotate(${format((layout.rotation * 180) / Math.PI)}) scale(${format(layout.pulse)})"`,
+      ` stroke="${analysis.glyphData.color}" stroke-opacity="${format(layout.opacity)}" stroke-width="${format(layout.lineWidth)}"`,
+      ` fill="${analysis.glyphData.color}" fill-opacity="${format(layout.opacity * 0.3)}" stroke-linejoin="round">`,
+      ...paths,
+      '</g>',
+      '<g fill="#F5A623" filter="url(#glow)">',
+      ...points,
+      '</g>',
+      '</svg>'
+    ].join('\n');
+  }
+
+  captureSnapshotAt(analysis: ResonanceAnalysis, options: GlyphRenderOptions, time: number = 0): string {
+    this.renderAt(analysis, { ...options, animate: false }, time);
+    return this.captureSnapshot();
+  }
+
+  // Moves a running animation toward a new analysis without restarting it
+  morphTo(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
+    if (!this.animationId || !options.animate || !this.displayedAnalysis) {
+      this.render(analysis, options);
+      return;
+    }
+
+    this.targetAnalysis = analysis;
+    this.currentOptions = options;
+    this.particles.forEach(particle => {
+      particle.color = analysis.glyphData.color;
+    });
+  }
+
   private startAnimation(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
     }
 
     this.startTime = performance.now();
-    this.initializeParticles(analysis, options);
+    this.initializeParticles(analysis);
+    this.displayedAnalysis = analysis;
+    this.targetAnalysis = analysis;
+    this.currentOptions = options;
 
     const animate = (currentTime: number) => {
       const elapsed = (currentTime - this.startTime) / 1000;
-      this.renderFrame(analysis, options, elapsed);
+      if (this.displayedAnalysis && this.targetAnalysis && this.displayedAnalysis !== this.targetAnalysis) {
+        this.displayedAnalysis = interpolateAnalysis(this.displayedAnalysis, this.targetAnalysis, 0.08);
+      }
+      this.renderFrame(this.displayedAnalysis ?? analysis, this.currentOptions ?? options, elapsed);
       this.animationId = requestAnimationFrame(animate);
     };
 
     this.animationId = requestAnimationFrame(animate);
   }
 
+  private resetSimulation(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
+    this.resize(options);
+    this.reseed(analysis);
+    this.initializeParticles(analysis);
+
+    this.ctx.fillStyle = '#0a0a0f';
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  // Runs simulation steps [from, to) without drawing
+  private advanceParticles(analysis: ResonanceAnalysis, from: number, to: number): void {
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
+    for (let step = from; step < to; step++) {
+      this.particles.forEach(particle => {
+        particle.update(centerX, centerY, analysis.glyphData.frequency, step / GlyphRenderer.SIMULATION_FPS);
+      });
+    }
+  }
+
   private renderFrame(analysis: ResonanceAnalysis, options: GlyphRenderOptions, time: number): void {
     // Clear canvas with fade effect
     this.ctx.fillStyle = 'rgba(10, 10, 15, 0.1)';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.fillRect(0, 0, this.width, this.height);
 
-    const centerX = this.canvas.width / 2;
-    const centerY = this.canvas.height / 2;
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
 
     // Render resonance field
     if (options.showResonanceField) {
@@ -86,10 +234,10 @@ export class GlyphRenderer {
 
   private renderStatic(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
     this.ctx.fillStyle = '#0a0a0f';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.fillRect(0, 0, this.width, this.height);
 
-    const centerX = this.canvas.width / 2;
-    const centerY = this.canvas.height / 2;
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
 
     this.renderMainGlyph(analysis, centerX, centerY, 0);
     this.renderEmergencePoints(analysis, 0);
@@ -97,205 +245,33 @@ export class GlyphRenderer {
 
   private renderMainGlyph(analysis: ResonanceAnalysis, x: number, y: number, time: number): void {
     const { glyphData } = analysis;
-    const size = Math.min(this.canvas.width, this.canvas.height) * 0.3;
-    const rotation = time * glyphData.frequency * 0.5;
-    const pulse = 1 + Math.sin(time * glyphData.frequency * 2) * 0.1;
+    const layout = glyphLayout(analysis, this.width, this.height, time);
 
     this.ctx.save();
     this.ctx.translate(x, y);
-    this.ctx.rotate(rotation);
-    this.ctx.scale(pulse, pulse);
+    this.ctx.rotate(layout.rotation);
+    this.ctx.scale(layout.pulse, layout.pulse);
 
     // Set glyph color with opacity based on emotional intensity
-    const opacity = 0.7 + (analysis.emotionalIntensity / 100) * 0.3;
-    this.ctx.strokeStyle = this.hexToRgba(glyphData.color, opacity);
-    this.ctx.fillStyle = this.hexToRgba(glyphData.color, opacity * 0.3);
-    this.ctx.lineWidth = 2 + (analysis.symbolicDensity / 100) * 3;
-
-    // Render shape based on glyph data
-    switch (glyphData.shape) {
-      case 'circle':
-        this.renderCircleGlyph(size, analysis);
-        break;
-      case 'triangle':
-        this.renderTriangleGlyph(size, analysis);
-        break;
-      case 'square':
-        this.renderSquareGlyph(size, analysis);
-        break;
-      case 'hexagon':
-        this.renderHexagonGlyph(size, analysis);
-        break;
-      case 'star':
-        this.renderStarGlyph(size, analysis);
-        break;
-      case 'spiral':
-        this.renderSpiralGlyph(size, analysis, time);
-        break;
-      default:
-        this.renderCircleGlyph(size, analysis);
-    }
-
-    this.ctx.restore();
-  }
-
-  private renderCircleGlyph(size: number, analysis: ResonanceAnalysis): void {
-    const rings = Math.max(1, Math.floor(analysis.glyphData.complexity / 2));
-    
-    for (let i = 0; i < rings; i++) {
-      const radius = (size / 2) * (1 - i * 0.2);
-      this.ctx.beginPath();
-      this.ctx.arc(0, 0, radius, 0, Math.PI * 2);
-      this.ctx.stroke();
-      
-      if (i === 0) {
-        this.ctx.fill();
-      }
-    }
-  }
-
-  private renderTriangleGlyph(size: number, analysis: ResonanceAnalysis): void {
-    const height = size * 0.866; // Equilateral triangle height
-    
-    this.ctx.beginPath();
-    this.ctx.moveTo(0, -height / 2);
-    this.ctx.lineTo(-size / 2, height / 2);
-    this.ctx.lineTo(size / 2, height / 2);
-    this.ctx.closePath();
-    this.ctx.stroke();
-    this.ctx.fill();
-
-    // Add inner triangles based on complexity
-    for (let i = 1; i < analysis.glyphData.complexity; i++) {
-      const scale = 1 - (i * 0.3);
-      this.ctx.save();
-      this.ctx.scale(scale, scale);
-      this.ctx.beginPath();
-      this.ctx.moveTo(0, -height / 2);
-      this.ctx.lineTo(-size / 2, height / 2);
-      this.ctx.lineTo(size / 2, height / 2);
-      this.ctx.closePath();
-      this.ctx.stroke();
-      this.ctx.restore();
-    }
-  }
-
-  private renderSquareGlyph(size: number, analysis: ResonanceAnalysis): void {
-    const halfSize = size / 2;
-    
-    this.ctx.beginPath();
-    this.ctx.rect(-halfSize, -halfSize, size, size);
-    this.ctx.stroke();
-    this.ctx.fill();
-
-    // Add rotated inner squares
-    for (let i = 1; i < analysis.glyphData.complexity; i++) {
-      const scale = 1 - (i * 0.2);
-      const rotation = (i * Math.PI) / 4;
-      
-      this.ctx.save();
-      this.ctx.rotate(rotation);
-      this.ctx.scale(scale, scale);
-      this.ctx.beginPath();
-      this.ctx.rect(-halfSize, -halfSize, size, size);
-      this.ctx.stroke();
-      this.ctx.restore();
-    }
-  }
-
-  private renderHexagonGlyph(size: number, analysis: ResonanceAnalysis): void {
-    const radius = size / 2;
-    
-    this.ctx.beginPath();
-    for (let i = 0; i < 6; i++) {
-      const angle = (i * Math.PI) / 3;
-      const x = radius * Math.cos(angle);
-      const y = radius * Math.sin(angle);
-      
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-    }
-    this.ctx.closePath();
-    this.ctx.stroke();
-    this.ctx.fill();
-
-    // Add inner patterns
-    for (let i = 1; i < analysis.glyphData.complexity; i++) {
-      const innerRadius = radius * (1 - i * 0.25);
-      this.ctx.beginPath();
-      for (let j = 0; j < 6; j++) {
-        const angle = (j * Math.PI) / 3;
-        const x = innerRadius * Math.cos(angle);
-        const y = innerRadius * Math.sin(angle);
-        
-        if (j === 0) {
-          this.ctx.moveTo(x, y);
-        } else {
-          this.ctx.lineTo(x, y);
-        }
+    this.ctx.strokeStyle = withAlpha(glyphData.color, layout.opacity);
+    this.ctx.fillStyle = withAlpha(glyphData.color, layout.opacity * 0.3);
+    this.ctx.lineWidth = layout.lineWidth;
+
+    glyphPaths(glyphData.shape, layout.size, glyphData.complexity, time).forEach(({ d, fill }) => {
+      const path = new Path2D(d);
+      this.ctx.stroke(path);
+      if (fill) {
+        this.ctx.fill(path);
       }
-      this.ctx.closePath();
-      this.ctx.stroke();
-    }
-  }
-
-  private renderStarGlyph(size: number, analysis: ResonanceAnalysis): void {
-    const outerRadius = size / 2;
-    const innerRadius = outerRadius * 0.4;
-    const points = 5 + Math.floor(analysis.glyphData.complexity);
-    
-    this.ctx.beginPath();
-    for (let i = 0; i < points * 2; i++) {
-      const angle = (i * Math.PI) / points;
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const x = radius * Math.cos(angle - Math.PI / 2);
-      const y = radius * Math.sin(angle - Math.PI / 2);
-      
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-    }
-    this.ctx.closePath();
-    this.ctx.stroke();
-    this.ctx.fill();
-  }
+    });
 
-  private renderSpiralGlyph(size: number, analysis: ResonanceAnalysis, time: number): void {
-    const maxRadius = size / 2;
-    const turns = 3 + analysis.glyphData.complexity;
-    const points = 100;
-    
-    this.ctx.beginPath();
-    for (let i = 0; i <= points; i++) {
-      const t = i / points;
-      const angle = t * turns * Math.PI * 2 + time;
-      const radius = maxRadius * t;
-      const x = radius * Math.cos(angle);
-      const y = radius * Math.sin(angle);
-      
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-    }
-    this.ctx.stroke();
+    this.ctx.restore();
   }
 
   private renderEmergencePoints(analysis: ResonanceAnalysis, time: number): void {
-    analysis.emergencePoints.forEach((point, index) => {
-      const angle = (point / 100) * Math.PI * 2;
-      const distance = Math.min(this.canvas.width, this.canvas.height) * 0.4;
-      const x = this.canvas.width / 2 + distance * Math.cos(angle);
-      const y = this.canvas.height / 2 + distance * Math.sin(angle);
-      
-      const pulse = 1 + Math.sin(time * 3 + index) * 0.3;
-      const size = 8 * pulse;
+    this.emergenceHitAreas = [];
+    emergenceLayout(analysis, this.width, this.height, time).forEach(({ x, y, size, point }) => {
+      this.emergenceHitAreas.push({ x, y, radius: Math.max(size, 10), point });
       
       this.ctx.save();
       this.ctx.fillStyle = '#F5A623';
@@ -309,21 +285,17 @@ export class GlyphRenderer {
   }
 
   private renderFrequencyRings(analysis: ResonanceAnalysis, x: number, y: number, time: number): void {
-    const maxRadius = Math.min(this.canvas.width, this.canvas.height) * 0.6;
-    const rings = 3;
-    
-    for (let i = 0; i < rings; i++) {
-      const radius = maxRadius * (0.3 + i * 0.2) + Math.sin(time * 2 + i) * 20;
+    frequencyRingRadii(this.width, this.height, time).forEach(radius => {
       const opacity = 0.1 + (analysis.temporalFlow / 100) * 0.2;
       
       this.ctx.save();
-      this.ctx.strokeStyle = this.hexToRgba('#00FFFF', opacity);
+      this.ctx.strokeStyle = withAlpha('#00FFFF', opacity);
       this.ctx.lineWidth = 1;
       this.ctx.beginPath();
       this.ctx.arc(x, y, radius, 0, Math.PI * 2);
       this.ctx.stroke();
       this.ctx.restore();
-    }
+    });
   }
 
   private renderResonanceField(analysis: ResonanceAnalysis, time: number): void {
@@ -331,22 +303,23 @@ export class GlyphRenderer {
     this.resonanceField.render(this.ctx);
   }
 
-  private initializeParticles(analysis: ResonanceAnalysis, options: GlyphRenderOptions): void {
+  private initializeParticles(analysis: ResonanceAnalysis): void {
     this.particles = [];
     const particleCount = Math.floor(analysis.symbolicDensity / 10) + 10;
     
     for (let i = 0; i < particleCount; i++) {
       this.particles.push(new Particle(
-        Math.random() * this.canvas.width,
-        Math.random() * this.canvas.height,
-        analysis.glyphData.color
+        this.width,
+        this.height,
+        analysis.glyphData.color,
+        this.random
       ));
     }
   }
 
   private updateAndRenderParticles(analysis: ResonanceAnalysis, time: number): void {
-    const centerX = this.canvas.width / 2;
-    const centerY = this.canvas.height / 2;
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
     
     this.particles.forEach(particle => {
       particle.update(centerX, centerY, analysis.glyphData.frequency, time);
@@ -354,11 +327,12 @@ export class GlyphRenderer {
     });
   }
 
-  private hexToRgba(hex: string, alpha: number): string {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  // Takes canvas-space coordinates (already scaled from CSS pixels)
+  getEmergencePointAt(x: number, y: number): EmergencePoint | null {
+    const hit = this.emergenceHitAreas.find(area =>
+      Math.hypot(area.x - x, area.y - y) <= area.radius
+    );
+    return hit ? hit.point : null;
   }
 
   stopAnimation(): void {
@@ -366,6 +340,8 @@ export class GlyphRenderer {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
+    this.displayedAnalysis = null;
+    this.targetAnalysis = null;
   }
 
   captureSnapshot(): string {
@@ -373,6 +349,186 @@ export class GlyphRenderer {
   }
 }
 
+// Size, motion and stroke of the main glyph at a given time, shared by the canvas and SVG output
+function glyphLayout(analysis: ResonanceAnalysis, width: number, height: number, time: number) {
+  const { glyphData } = analysis;
+  return {
+    size: Math.min(width, height) * 0.3,
+    rotation: time * glyphData.frequency * 0.5,
+    pulse: 1 + Math.sin(time * glyphData.frequency * 2) * 0.1,
+    opacity: 0.7 + (analysis.emotionalIntensity / 100) * 0.3,
+    lineWidth: 2 + (analysis.symbolicDensity / 100) * 3
+  };
+}
+
+function emergenceLayout(analysis: ResonanceAnalysis, width: number, height: number, time: number) {
+  const distance = Math.min(width, height) * 0.4;
+  return analysis.emergencePoints.map((point, index) => {
+    const angle = (point.timestamp / 100) * Math.PI * 2;
+    const pulse = 1 + Math.sin(time * 3 + index) * 0.3;
+    return {
+      x: width / 2 + distance * Math.cos(angle),
+      y: height / 2 + distance * Math.sin(angle),
+      size: (6 + point.intensity * 4) * pulse,
+      point
+    };
+  });
+}
+
+function frequencyRingRadii(width: number, height: number, time: number): number[] {
+  const maxRadius = Math.min(width, height) * 0.6;
+  return [0, 1, 2].map(i => maxRadius * (0.3 + i * 0.2) + Math.sin(time * 2 + i) * 20);
+}
+
+function formatPoint([x, y]: [number, number]): string {
+  return `${Number(x.toFixed(2))} ${Number(y.toFixed(2))}`;
+}
+
+function polygonPath(points: Array<[number, number]>, closed: boolean = true): string {
+  const [first, ...rest] = points;
+  return `M${formatPoint(first)}${rest.map(point => `L${formatPoint(point)}`).join('')}${closed ? 'Z' : ''}`;
+}
+
+function circlePath(radius: number): string {
+  const r = Number(radius.toFixed(2));
+  return `M${r} 0A${r} ${r} 0 1 1 ${-r} 0A${r} ${r} 0 1 1 ${r} 0Z`;
+}
+
+function transformPoints(points: Array<[number, number]>, scale: number, rotation: number = 0): Array<[number, number]> {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return points.map(([x, y]) => [(x * cos - y * sin) * scale, (x * sin + y * cos) * scale]);
+}
+
+function regularPolygon(sides: number, radius: number, offset: number = 0): Array<[number, number]> {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (i * Math.PI * 2) / sides + offset;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)] as [number, number];
+  });
+}
+
+// Outline of each glyph shape around the origin; inner rings are scaled and rotated into the coordinates
+function glyphPaths(shape: string, size: number, complexity: number, time: number): GlyphPath[] {
+  const paths: GlyphPath[] = [];
+
+  switch (shape) {
+    case 'triangle': {
+      const height = size * 0.866; // Equilateral triangle height
+      const triangle: Array<[number, number]> = [[0, -height / 2], [-size / 2, height / 2], [size / 2, height / 2]];
+      paths.push({ d: polygonPath(triangle), fill: true });
+      for (let i = 1; i < complexity; i++) {
+        paths.push({ d: polygonPath(transformPoints(triangle, 1 - i * 0.3)), fill: false });
+      }
+      break;
+    }
+    case 'square': {
+      const half = size / 2;
+      const square: Array<[number, number]> = [[-half, -half], [half, -half], [half, half], [-half, half]];
+      paths.push({ d: polygonPath(square), fill: true });
+      for (let i = 1; i < complexity; i++) {
+        paths.push({ d: polygonPath(transformPoints(square, 1 - i * 0.2, (i * Math.PI) / 4)), fill: false });
+      }
+      break;
+    }
+    case 'hexagon': {
+      const radius = size / 2;
+      paths.push({ d: polygonPath(regularPolygon(6, radius)), fill: true });
+      for (let i = 1; i < complexity; i++) {
+        paths.push({ d: polygonPath(regularPolygon(6, radius * (1 - i * 0.25))), fill: false });
+      }
+      break;
+    }
+    case 'star': {
+      const outerRadius = size / 2;
+      const innerRadius = outerRadius * 0.4;
+      const points = 5 + Math.floor(complexity);
+      const star = Array.from({ length: points * 2 }, (_, i) => {
+        const angle = (i * Math.PI) / points - Math.PI / 2;
+        const radius = i % 2 === 0 ? outerRadius : innerRadius;
+        return [radius * Math.cos(angle), radius * Math.sin(angle)] as [number, number];
+      });
+      paths.push({ d: polygonPath(star), fill: true });
+      break;
+    }
+    case 'spiral': {
+      const maxRadius = size / 2;
+      const turns = 3 + complexity;
+      const steps = 100;
+      const spiral = Array.from({ length: steps + 1 }, (_, i) => {
+        const t = i / steps;
+        const angle = t * turns * Math.PI * 2 + time;
+        return [maxRadius * t * Math.cos(angle), maxRadius * t * Math.sin(angle)] as [number, number];
+      });
+      paths.push({ d: polygonPath(spiral, false), fill: false });
+      break;
+    }
+    default: {
+      const rings = Math.max(1, Math.floor(complexity / 2));
+      for (let i = 0; i < rings; i++) {
+        const radius = (size / 2) * (1 - i * 0.2);
+        if (radius > 0) {
+          paths.push({ d: circlePath(radius), fill: i === 0 });
+        }
+      }
+    }
+  }
+
+  return paths;
+}
+
+// Glyph colors arrive either as #rrggbb or as hsl(h, s%, l%)
+function parseHsl(color: string): [number, number, number] | null {
+  const match = color.match(/hsl\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+function withAlpha(color: string, alpha: number): string {
+  const hsl = parseHsl(color);
+  if (hsl) {
+    return `hsla(${hsl[0]}, ${hsl[1]}%, ${hsl[2]}%, ${alpha})`;
+  }
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return Math.abs(to - from) < 0.05 ? to : from + (to - from) * t;
+}
+
+function interpolateColor(from: string, to: string, t: number): string {
+  const a = parseHsl(from);
+  const b = parseHsl(to);
+  if (!a || !b) return to;
+  // Take the short way around the hue wheel
+  const hueDelta = ((b[0] - a[0] + 540) % 360) - 180;
+  const hue = (lerp(a[0], a[0] + hueDelta, t) + 360) % 360;
+  return `hsl(${hue.toFixed(1)}, ${lerp(a[1], b[1], t).toFixed(1)}%, ${lerp(a[2], b[2], t).toFixed(1)}%)`;
+}
+
+function interpolateAnalysis(from: ResonanceAnalysis, to: ResonanceAnalysis, t: number): ResonanceAnalysis {
+  const next: ResonanceAnalysis = {
+    ...to,
+    cognitiveLoad: lerp(from.cognitiveLoad, to.cognitiveLoad, t),
+    emotionalIntensity: lerp(from.emotionalIntensity, to.emotionalIntensity, t),
+    symbolicDensity: lerp(from.symbolicDensity, to.symbolicDensity, t),
+    temporalFlow: lerp(from.temporalFlow, to.temporalFlow, t),
+    glyphData: {
+      ...to.glyphData,
+      frequency: lerp(from.glyphData.frequency, to.glyphData.frequency, t),
+      color: interpolateColor(from.glyphData.color, to.glyphData.color, t)
+    }
+  };
+
+  const settled = next.cognitiveLoad === to.cognitiveLoad &&
+    next.emotionalIntensity === to.emotionalIntensity &&
+    next.symbolicDensity === to.symbolicDensity &&
+    next.temporalFlow === to.temporalFlow &&
+    next.glyphData.frequency === to.glyphData.frequency;
+  return settled ? to : next;
+}
+
 class Particle {
   x: number;
   y: number;
@@ -382,15 +538,21 @@ class Particle {
   size: number;
   life: number;
   maxLife: number;
+  private width: number;
+  private height: number;
+  private random: RandomSource;
 
-  constructor(x: number, y: number, color: string) {
-    this.x = x;
-    this.y = y;
-    this.vx = (Math.random() - 0.5) * 2;
-    this.vy = (Math.random() - 0.5) * 2;
+  constructor(width: number, height: number, color: string, random: RandomSource) {
+    this.width = width;
+    this.height = height;
+    this.random = random;
+    this.x = random() * width;
+    this.y = random() * height;
+    this.vx = (random() - 0.5) * 2;
+    this.vy = (random() - 0.5) * 2;
     this.color = color;
-    this.size = Math.random() * 3 + 1;
-    this.maxLife = Math.random() * 100 + 50;
+    this.size = random() * 3 + 1;
+    this.maxLife = random() * 100 + 50;
     this.life = this.maxLife;
   }
 
@@ -427,7 +589,7 @@ class Particle {
   render(ctx: CanvasRenderingContext2D): void {
     const alpha = this.life / this.maxLife;
     ctx.save();
-    ctx.fillStyle = this.hexToRgba(this.color, alpha * 0.6);
+    ctx.fillStyle = withAlpha(this.color, alpha * 0.6);
     ctx.shadowColor = this.color;
     ctx.shadowBlur = 5;
     ctx.beginPath();
@@ -437,26 +599,20 @@ class Particle {
   }
 
   private respawn(): void {
-    this.x = Math.random() * 800; // Assuming canvas width
-    this.y = Math.random() * 600; // Assuming canvas height
-    this.vx = (Math.random() - 0.5) * 2;
-    this.vy = (Math.random() - 0.5) * 2;
+    this.x = this.random() * this.width;
+    this.y = this.random() * this.height;
+    this.vx = (this.random() - 0.5) * 2;
+    this.vy = (this.random() - 0.5) * 2;
     this.life = this.maxLife;
   }
-
-  private hexToRgba(hex: string, alpha: number): string {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-  }
 }
 
 class ResonanceField {
   private width: number;
   private height: number;
-  private field: number[][];
+  private field: number[][] = [];
   private gridSize: number = 20;
+  private phase: number = 0;
 
   constructor(width: number, height: number) {
     this.width = width;
@@ -477,6 +633,11 @@ class ResonanceField {
     }
   }
 
+  // A seeded phase offset keeps fields of different seeds visibly distinct
+  reseed(random: RandomSource): void {
+    this.phase = random() * Math.PI * 2;
+  }
+
   resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
@@ -496,7 +657,7 @@ class ResonanceField {
         const distance = Math.sqrt(dx * dx + dy * dy);
         
         // Create wave patterns based on analysis
-        const wave1 = Math.sin(distance * 0.3 - time * analysis.glyphData.frequency * 2) * analysis.emotionalIntensity / 100;
+        const wave1 = Math.sin(distance * 0.3 - time * analysis.glyphData.frequency * 2 + this.phase) * analysis.emotionalIntensity / 100;
         const wave2 = Math.cos(distance * 0.2 + time * analysis.temporalFlow / 50) * analysis.cognitiveLoad / 100;
         
         this.field[i][j] = (wave1 + wave2) * 0.5;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { describeImageSymbolism, extractImageFeatures, imageFingerprint, imageResonance, type ImageFeatures, type PixelData } from './image-analysis';
+
+function image(size: number, paint: (x: number, y: number) => [number, number, number, number]): PixelData {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) data.set(paint(x, y), (y * size + x) * 4);
+  }
+  return { width: size, height: size, data };
+}
+
+const WHITE: [number, number, number, number] = [255, 255, 255, 255];
+
+function features(overrides: Partial<ImageFeatures> = {}): ImageFeatures {
+  return {
+    width: 64,
+    height: 64,
+    palette: [{ color: '#ffffff', share: 0.7 }, { color: '#e11d48', share: 0.3 }],
+    saturation: 0.5,
+    brightness: 0.7,
+    contrast: 0.5,
+    edgeDensity: 0.1,
+    bilateralSymmetry: 0.9,
+    symmetryAxis: 'vertical',
+    radialSymmetry: 0.2,
+    folds: 2,
+    contourCount: 5,
+    entropy: 4,
+    figureShare: 0.3,
+    ...overrides
+  };
+}
+
+describe('extractImageFeatures', () => {
+  it('measures a centered square as a four-fold symmetric figure', () => {
+    const square = extractImageFeatures(image(32, (x, y) => (x >= 8 && x < 24 && y >= 8 && y < 24 ? [220, 30, 60, 255] : WHITE)));
+
+    expect(square.palette).toEqual([{ color: '#ffffff', share: 0.75 }, { color: '#dc1e3c', share: 0.25 }]);
+    expect(square.figureShare).toBe(0.25);
+    expect(square).toMatchObject({ bilateralSymmetry: 1, radialSymmetry: 1, folds: 4, contourCount: 1 });
+  });
+
+  it('counts the hole of a ring as a second contour', () => {
+    const ring = extractImageFeatures(image(32, (x, y) => {
+      const distance = Math.hypot(x - 15.5, y - 15.5);
+      return distance > 6 && distance < 11 ? [0, 0, 0, 255] : WHITE;
+    }));
+
+    expect(ring.contourCount).toBe(2);
+    expect(ring.saturation).toBe(0);
+  });
+});
+
+describe('imageResonance', () => {
+  it('maps features onto metrics, symbolism and glyph data', () => {
+    const analysis = imageResonance(features(), 42);
+
+    expect(analysis).toMatchObject({
+      cognitiveLoad: 40,
+      emotionalIntensity: 50,
+      symbolicDensity: 74,
+      temporalFlow: 16,
+      emergencePoints: [],
+      seed: 42,
+      symbolism: { archetype: 'The Ruler', mood: 'euphoric', themes: ['existence'] },
+      meaningSignature: 'The Ruler resonance with euphoric undertones, exploring themes of existence',
+      glyphData: { shape: 'triangle', frequency: 0.5, color: '#e11d48', complexity: 5 }
+    });
+  });
+
+  it('gives radially symmetric images a polygon for their fold count', () => {
+    const analysis = imageResonance(features({ radialSymmetry: 0.8, folds: 6, contourCount: 12 }), 1);
+
+    expect(analysis.glyphData.shape).toBe('hexagon');
+    expect(analysis.symbolism).toMatchObject({ archetype: 'The Magician', themes: ['connection', 'discovery'] });
+    expect(imageResonance(features({ radialSymmetry: 0.8, folds: 5 }), 1).glyphData.shape).toBe('star');
+  });
+
+  it('clamps metrics and keeps the default color for colorless images', () => {
+    const analysis = imageResonance(features({
+      edgeDensity: 1,
+      contourCount: 40,
+      palette: [{ color: '#111111', share: 0.6 }, { color: '#eeeeee', share: 0.4 }]
+    }), 1);
+
+    expect(analysis.cognitiveLoad).toBe(100);
+    expect(analysis.glyphData.color).toBe('#8b5cf6');
+  });
+});
+
+describe('describeImageSymbolism', () => {
+  it('reads mood from saturation and brightness', () => {
+    expect(describeImageSymbolism(features({ saturation: 0.1, brightness: 0.2 })).mood).toBe('melancholic');
+    expect(describeImageSymbolism(features({ saturation: 0.4, brightness: 0.2 })).mood).toBe('mysterious');
+    expect(describeImageSymbolism(features({ saturation: 0.7, brightness: 0.5 })).mood).toBe('energetic');
+  });
+
+  it('sees busy asymmetric images as conflict', () => {
+    expect(describeImageSymbolism(features({ bilateralSymmetry: 0.1, saturation: 0.8, edgeDensity: 0.3, entropy: 7 }))).toEqual({
+      archetype: 'The Rebel',
+      mood: 'euphoric',
+      themes: ['conflict', 'transformation']
+    });
+  });
+});
+
+describe('imageFingerprint', () => {
+  it('changes with the features that identify an image', () => {
+    expect(imageFingerprint(features())).toBe(imageFingerprint(features({ brightness: 0.2 })));
+    expect(imageFingerprint(features())).not.toBe(imageFingerprint(features({ contourCount: 6 })));
+  });
+});
@@ -0,0 +1,497 @@
+// Visual features of uploaded symbols and drawings, and how they map onto a ResonanceAnalysis
+// so an image produces its own glyph
+import { composeMeaningSignature } from './language';
+import type { ResonanceAnalysis, Symbolism } from './ai-providers';
+
+// RGBA bytes, row by row, as in ImageData
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PaletteColor {
+  color: string; // #rrggbb
+  share: number; // of the opaque pixels, 0-1
+}
+
+export interface ImageFeatures {
+  width: number; // of the analysed, downscaled image
+  height: number;
+  palette: PaletteColor[]; // most common first
+  saturation: number; // 0-1, mean over opaque pixels
+  brightness: number; // 0-1, mean luminance
+  contrast: number; // 0-1, luminance standard deviation
+  edgeDensity: number; // share of pixels on a Sobel edge
+  bilateralSymmetry: number; // 0-1 overlap of the figure with its mirror image
+  symmetryAxis: 'vertical' | 'horizontal';
+  radialSymmetry: number; // 0-1 overlap of the figure with itself rotated by 360/folds degrees
+  folds: number;
+  contourCount: number; // outlines of the figure's regions plus the holes inside them
+  entropy: number; // bits, Shannon entropy of the luminance histogram (0-8)
+  figureShare: number; // share of pixels that belong to the figure rather than the background
+}
+
+const ANALYSIS_SIZE = 256; // longest side, in pixels
+const THUMBNAIL_SIZE = 128;
+const PALETTE_SIZE = 5;
+const OPAQUE_ALPHA = 128;
+const EDGE_THRESHOLD = 128; // Sobel magnitude on 0-255 luminance
+const TRANSPARENT_BACKGROUND_SHARE = 0.1; // above this, transparency rather than tone separates the figure
+const MIN_REGION_SHARE = 0.0005; // regions smaller than this are specks, not contours
+const MAX_FOLDS = 8;
+const FOLD_TOLERANCE = 0.03; // a higher fold count wins when it scores this close to the best
+const MAX_SYMMETRY_CHANCE = 0.9;
+const MIN_GLYPH_SATURATION = 0.15;
+const DEFAULT_GLYPH_COLOR = '#8b5cf6';
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+// Luminance with transparent pixels composited over white
+function luminanceOf(data: Uint8ClampedArray, offset: number): number {
+  const alpha = data[offset + 3] / 255;
+  const blend = (channel: number) => channel * alpha + 255 * (1 - alpha);
+  return 0.299 * blend(data[offset]) + 0.587 * blend(data[offset + 1]) + 0.114 * blend(data[offset + 2]);
+}
+
+function saturationOf(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b);
+  return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+}
+
+function hexSaturation(color: string): number {
+  const value = parseInt(color.slice(1), 16);
+  return saturationOf((value >> 16) & 255, (value >> 8) & 255, value & 255);
+}
+
+// Colors are bucketed at three bits per channel and each bucket reports its mean color
+function extractPalette({ data }: PixelData): PaletteColor[] {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let opaque = 0;
+  for (let offset = 0; offset < data.length; offset += 4) {
+    if (data[offset + 3] < OPAQUE_ALPHA) continue;
+    opaque++;
+    const [r, g, b] = [data[offset], data[offset + 1], data[offset + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PALETTE_SIZE)
+    .map(bucket => ({
+      color: `#${toHex(bucket.r / bucket.count)}${toHex(bucket.g / bucket.count)}${toHex(bucket.b / bucket.count)}`,
+      share: bucket.count / opaque
+    }));
+}
+
+function otsuThreshold(histogram: number[], total: number): number {
+  let sumAll = 0;
+  histogram.forEach((count, level) => { sumAll += count * level; });
+  let sumBelow = 0;
+  let weightBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+// The figure is the opaque part of a cut-out, otherwise whichever tone is in the minority
+function figureMask(pixels: PixelData, luminance: Float32Array, histogram: number[]): Uint8Array {
+  const { width, height, data } = pixels;
+  const size = width * height;
+  const mask = new Uint8Array(size);
+  let transparent = 0;
+  for (let i = 0; i < size; i++) {
+    if (data[i * 4 + 3] < OPAQUE_ALPHA) transparent++;
+  }
+  if (transparent / size > TRANSPARENT_BACKGROUND_SHARE) {
+    for (let i = 0; i < size; i++) mask[i] = data[i * 4 + 3] >= OPAQUE_ALPHA ? 1 : 0;
+    return mask;
+  }
+
+  // Compared at the histogram's resolution so the threshold level itself counts as dark
+  const threshold = otsuThreshold(histogram, size);
+  const isDark = (i: number) => Math.round(luminance[i]) <= threshold;
+  let dark = 0;
+  for (let i = 0; i < size; i++) {
+    if (isDark(i)) dark++;
+  }
+  const darkIsFigure = dark <= size - dark;
+  for (let i = 0; i < size; i++) {
+    mask[i] = isDark(i) === darkIsFigure ? 1 : 0;
+  }
+  return mask;
+}
+
+// Pixels whose whole 3x3 neighbourhood is figure
+function countInterior(mask: Uint8Array, width: number, height: number): number {
+  let interior = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let solid = true;
+      for (let dy = -1; dy <= 1 && solid; dy++) {
+        for (let dx = -1; dx <= 1 && solid; dx++) {
+          if (!mask[(y + dy) * width + x + dx]) solid = false;
+        }
+      }
+      if (solid) interior++;
+    }
+  }
+  return interior;
+}
+
+function dilate(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const dilated = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) dilated[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return dilated;
+}
+
+// Share of the figure's pixels that land on the target after the transform
+function transformMatch(
+  points: Array<[number, number]>,
+  target: Uint8Array,
+  width: number,
+  height: number,
+  transform: (x: number, y: number) => [number, number]
+): number {
+  if (points.length === 0) return 0;
+  let matches = 0;
+  points.forEach(([x, y]) => {
+    const [tx, ty] = transform(x, y);
+    const rx = Math.round(tx);
+    const ry = Math.round(ty);
+    if (rx >= 0 && ry >= 0 && rx < width && ry < height && target[ry * width + rx]) matches++;
+  });
+  return matches / points.length;
+}
+
+function measureSymmetry(mask: Uint8Array, width: number, height: number) {
+  const points: Array<[number, number]> = [];
+  let cx = 0;
+  let cy = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      points.push([x, y]);
+      cx += x;
+      cy += y;
+    }
+  }
+  if (points.length === 0) {
+    return { bilateralSymmetry: 0, symmetryAxis: 'vertical' as const, radialSymmetry: 0, folds: 1 };
+  }
+  cx /= points.length;
+  cy /= points.length;
+
+  // Solid figures are compared exactly, as intersection over union (both sides have the same
+  // area). Thin strokes get a pixel of slack so they still line up after rounding, less the
+  // matches that slack would produce by chance inside the figure's bounding box
+  let overlap: (transform: (x: number, y: number) => [number, number]) => number;
+  if (countInterior(mask, width, height) >= points.length / 2) {
+    overlap = transform => {
+      const match = transformMatch(points, mask, width, height, transform);
+      return match / (2 - match);
+    };
+  } else {
+    const target = dilate(mask, width, height);
+    // Reduced rather than spread: a figure can have more pixels than the argument limit
+    const [left, right, top, bottom] = points.reduce(
+      ([minX, maxX, minY, maxY], [x, y]) => [Math.min(minX, x), Math.max(maxX, x), Math.min(minY, y), Math.max(maxY, y)],
+      [Infinity, -Infinity, Infinity, -Infinity]
+    );
+    let covered = 0;
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) covered += target[y * width + x];
+    }
+    // Speckle such as photo texture fills its box once dilated, leaving nothing to measure
+    const chance = covered / ((right - left + 1) * (bottom - top + 1));
+    overlap = transform => chance >= MAX_SYMMETRY_CHANCE
+      ? 0
+      : Math.max(0, (transformMatch(points, target, width, height, transform) - chance) / (1 - chance));
+  }
+
+  const vertical = overlap((x, y) => [2 * cx - x, y]);
+  const horizontal = overlap((x, y) => [x, 2 * cy - y]);
+
+  const scores: number[] = [];
+  for (let folds = 2; folds <= MAX_FOLDS; folds++) {
+    const angle = (2 * Math.PI) / folds;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    scores[folds] = overlap((x, y) => [
+      cx + (x - cx) * cos - (y - cy) * sin,
+      cy + (x - cx) * sin + (y - cy) * cos
+    ]);
+  }
+  const best = Math.max(...scores.slice(2));
+  let folds = 2;
+  for (let candidate = MAX_FOLDS; candidate >= 2; candidate--) {
+    if (scores[candidate] >= best - FOLD_TOLERANCE) {
+      folds = candidate;
+      break;
+    }
+  }
+
+  return {
+    bilateralSymmetry: Math.max(vertical, horizontal),
+    symmetryAxis: vertical >= horizontal ? 'vertical' as const : 'horizontal' as const,
+    radialSymmetry: best > 0 ? scores[folds] : 0,
+    folds: best > 0 ? folds : 1
+  };
+}
+
+// Flood fills regions whose mask value is `value`; returns their sizes and whether they touch the border
+function labelRegions(mask: Uint8Array, width: number, height: number, value: number, diagonal: boolean) {
+  const seen = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const neighbours = diagonal
+    ? [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+    : [[0, -1], [-1, 0], [1, 0], [0, 1]];
+  const regions: Array<{ size: number; touchesBorder: boolean }> = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (seen[start] || mask[start] !== value) continue;
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    let size = 0;
+    let touchesBorder = false;
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const y = (index - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+      neighbours.forEach(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) return;
+        const next = ny * width + nx;
+        if (!seen[next] && mask[next] === value) {
+          seen[next] = 1;
+          stack[top++] = next;
+        }
+      });
+    }
+    regions.push({ size, touchesBorder });
+  }
+  return regions;
+}
+
+// Figure regions are 8-connected and holes 4-connected, so a diagonal stroke encloses
+function countContours(mask: Uint8Array, width: number, height: number): number {
+  const minSize = Math.max(4, mask.length * MIN_REGION_SHARE);
+  const regions = labelRegions(mask, width, height, 1, true).filter(region => region.size >= minSize);
+  const holes = labelRegions(mask, width, height, 0, false)
+    .filter(region => !region.touchesBorder && region.size >= minSize);
+  return regions.length + holes.length;
+}
+
+export function extractImageFeatures(pixels: PixelData): ImageFeatures {
+  const { width, height, data } = pixels;
+  const size = width * height;
+  const luminance = new Float32Array(size);
+  const histogram = new Array<number>(256).fill(0);
+  let luminanceSum = 0;
+  let saturationSum = 0;
+  let opaque = 0;
+  for (let i = 0; i < size; i++) {
+    const offset = i * 4;
+    luminance[i] = luminanceOf(data, offset);
+    histogram[Math.min(255, Math.round(luminance[i]))]++;
+    luminanceSum += luminance[i];
+    if (data[offset + 3] >= OPAQUE_ALPHA) {
+      opaque++;
+      saturationSum += saturationOf(data[offset], data[offset + 1], data[offset + 2]);
+    }
+  }
+  const meanLuminance = size > 0 ? luminanceSum / size : 0;
+  let variance = 0;
+  for (let i = 0; i < size; i++) variance += (luminance[i] - meanLuminance) ** 2;
+
+  let edges = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => luminance[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) edges++;
+    }
+  }
+  const interior = Math.max(1, (width - 2) * (height - 2));
+
+  let entropy = 0;
+  histogram.forEach(count => {
+    if (count === 0) return;
+    const p = count / size;
+    entropy -= p * Math.log2(p);
+  });
+
+  const mask = figureMask(pixels, luminance, histogram);
+  const figure = mask.reduce((sum, value) => sum + value, 0);
+
+  return {
+    width,
+    height,
+    palette: extractPalette(pixels),
+    saturation: opaque > 0 ? saturationSum / opaque : 0,
+    brightness: meanLuminance / 255,
+    contrast: size > 0 ? Math.min(1, Math.sqrt(variance / size) / 128) : 0,
+    edgeDensity: edges / interior,
+    ...measureSymmetry(mask, width, height),
+    contourCount: countContours(mask, width, height),
+    entropy,
+    figureShare: size > 0 ? figure / size : 0
+  };
+}
+
+export function describeImageSymbolism(features: ImageFeatures): Symbolism {
+  const symmetry = Math.max(features.bilateralSymmetry, features.radialSymmetry);
+
+  let archetype = 'The Sage';
+  if (features.radialSymmetry >= 0.6 && features.folds >= 3) archetype = 'The Magician';
+  else if (features.bilateralSymmetry >= 0.7) archetype = 'The Ruler';
+  else if (features.contourCount >= 15 && features.edgeDensity >= 0.1) archetype = 'The Creator';
+  else if (symmetry < 0.3 && features.saturation >= 0.5) archetype = 'The Rebel';
+  else if (features.entropy >= 6) archetype = 'The Seeker';
+
+  let mood = 'contemplative';
+  if (features.saturation < 0.2) mood = features.brightness < 0.4 ? 'melancholic' : 'contemplative';
+  else if (features.brightness < 0.35) mood = 'mysterious';
+  else if (features.saturation >= 0.5) mood = features.brightness >= 0.6 ? 'euphoric' : 'energetic';
+
+  const themes: string[] = [];
+  if (features.radialSymmetry >= 0.6) themes.push('connection');
+  if (features.contourCount >= 10) themes.push('discovery');
+  if (symmetry < 0.3 && features.edgeDensity >= 0.1) themes.push('conflict');
+  if (features.entropy >= 6) themes.push('transformation');
+
+  return { archetype, mood, themes: themes.length > 0 ? themes : ['existence'] };
+}
+
+function glyphShape(features: ImageFeatures): string {
+  if (features.radialSymmetry >= 0.6) {
+    if (features.folds === 3) return 'triangle';
+    if (features.folds === 4) return 'square';
+    if (features.folds === 6) return 'hexagon';
+    if (features.folds === 8) return 'circle';
+    if (features.folds === 2) return 'spiral';
+    return 'star';
+  }
+  return features.bilateralSymmetry >= 0.7 ? 'triangle' : 'spiral';
+}
+
+// The most saturated of the palette's substantial colors, so a white page does not tint the
+// glyph; black-and-white images keep the default color, which shows on the dark canvas
+function glyphColor(palette: PaletteColor[]): string {
+  const candidates = palette.filter(entry => entry.share >= 0.05);
+  const vivid = candidates.reduce<PaletteColor | null>(
+    (best, entry) => !best || hexSaturation(entry.color) > hexSaturation(best.color) ? entry : best,
+    null
+  );
+  return vivid && hexSaturation(vivid.color) >= MIN_GLYPH_SATURATION ? vivid.color : DEFAULT_GLYPH_COLOR;
+}
+
+const clampMetric = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+// Images have no text to place emergence points in, so they carry none
+export function imageResonance(features: ImageFeatures, seed: number): ResonanceAnalysis {
+  const symmetry = Math.max(features.bilateralSymmetry, features.radialSymmetry);
+  const cognitiveLoad = clampMetric(features.edgeDensity * 300 + Math.min(features.contourCount, 25) * 2);
+  const emotionalIntensity = clampMetric(features.saturation * 60 + features.contrast * 40);
+  const symbolicDensity = clampMetric(symmetry * 60 + (features.entropy / 8) * 40);
+  const temporalFlow = clampMetric((1 - symmetry) * 60 + Math.min(1, features.contourCount / 20) * 40);
+  const symbolism = describeImageSymbolism(features);
+
+  return {
+    cognitiveLoad,
+    emotionalIntensity,
+    symbolicDensity,
+    temporalFlow,
+    emergencePoints: [],
+    meaningSignature: composeMeaningSignature('en', symbolism.archetype, symbolism.mood, symbolism.themes),
+    seed,
+    symbolism,
+    glyphData: {
+      shape: glyphShape(features),
+      frequency: Math.max(0.5, emotionalIntensity / 100),
+      color: glyphColor(features.palette),
+      complexity: Math.floor((cognitiveLoad + symbolicDensity) / 20)
+    }
+  };
+}
+
+// Stable text for seeding: the same image always yields the same glyph
+export function imageFingerprint(features: ImageFeatures): string {
+  return [
+    features.width,
+    features.height,
+    ...features.palette.map(entry => `${entry.color}:${entry.share.toFixed(3)}`),
+    features.edgeDensity.toFixed(4),
+    features.entropy.toFixed(4),
+    features.contourCount
+  ].join('|');
+}
+
+function drawScaled(image: HTMLImageElement, maxSize: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Decodes an image file (SVG included) into downscaled pixels for analysis, the same pixels as a
+// PNG preview for vision models, and a smaller PNG thumbnail to keep with the entry
+export async function loadImagePixels(file: Blob): Promise<{ pixels: PixelData; preview: string; thumbnail: string }> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    if (image.naturalWidth === 0 || image.naturalHeight === 0) {
+      throw new Error('The image has no size');
+    }
+    const canvas = drawScaled(image, ANALYSIS_SIZE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    const { width, height, data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return {
+      pixels: { width, height, data },
+      preview: canvas.toDataURL('image/png'),
+      thumbnail: drawScaled(image, THUMBNAIL_SIZE).toDataURL('image/png')
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
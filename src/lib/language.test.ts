@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { composeMeaningSignature, detectLanguage, segmentSentences, segmentWords, type TextSpan } from './language';
+
+const texts = (spans: TextSpan[]) => spans.map(span => span.text);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.resetModules();
+});
+
+describe('detectLanguage', () => {
+  it.each([
+    ['en', 'The light returns and we are here with the river.'],
+    ['es', 'La luz vuelve y estamos aquí con el río, pero no sé por qué.'],
+    ['fr', "La lumière revient et nous sommes là avec la rivière, mais je ne sais pas pourquoi."],
+    ['de', 'Das Licht kehrt zurück und wir sind hier mit dem Fluss, aber ich weiß nicht warum.'],
+    ['ja', '光が戻ってきて、私たちは川のそばにいる。']
+  ])('recognizes %s', (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('falls back to English without letters', () => {
+    expect(detectLanguage('')).toBe('en');
+    expect(detectLanguage('42 — 17!')).toBe('en');
+  });
+});
+
+describe('segmentSentences', () => {
+  it('returns trimmed sentences with offsets into the text', () => {
+    const text = '  Where does it go?  It flows on. And on…  ';
+    const spans = segmentSentences(text);
+
+    expect(texts(spans)).toEqual(['Where does it go?', 'It flows on.', 'And on…']);
+    spans.forEach(span => expect(text.slice(span.start, span.end)).toBe(span.text));
+  });
+
+  it('splits Japanese on its own punctuation and drops punctuation-only fragments', () => {
+    expect(texts(segmentSentences('雨が降る。空は暗い！ ……', 'ja'))).toEqual(['雨が降る。', '空は暗い！']);
+  });
+
+  it('splits on sentence punctuation when Intl.Segmenter is unavailable', async () => {
+    vi.stubGlobal('Intl', {});
+    const fallback = await import('./language');
+    const text = 'First one. Second one?! 第三。';
+
+    const spans = fallback.segmentSentences(text);
+
+    expect(texts(spans)).toEqual(['First one.', 'Second one?!', '第三。']);
+    spans.forEach(span => expect(text.slice(span.start, span.end)).toBe(span.text));
+    expect(texts(fallback.segmentWords("Don't stop"))).toEqual(["Don't", 'stop']);
+  });
+});
+
+describe('segmentWords', () => {
+  it('skips punctuation and keeps offsets', () => {
+    const text = "I don't know, 42 times.";
+    const words = segmentWords(text);
+
+    expect(texts(words)).toEqual(['I', "don't", 'know', '42', 'times']);
+    words.forEach(word => expect(text.slice(word.start, word.end)).toBe(word.text));
+  });
+
+  it('splits Japanese text without spaces into words', () => {
+    const words = segmentWords('私は川が好きです', 'ja');
+
+    expect(words.length).toBeGreaterThan(1);
+    expect(texts(words).join('')).toBe('私は川が好きです');
+  });
+});
+
+describe('composeMeaningSignature', () => {
+  it('translates known groups and keeps custom ones', () => {
+    expect(composeMeaningSignature('es', 'The Sage', 'melancholic', ['growth', 'rituals'])).toBe(
+      'Resonancia del Sabio con matices melancólicos, que explora temas de crecimiento, rituals'
+    );
+    expect(composeMeaningSignature('en', 'The Sage', 'calm', ['growth'])).toBe(
+      'The Sage resonance with calm undertones, exploring themes of growth'
+    );
+  });
+});
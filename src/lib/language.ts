@@ -0,0 +1,222 @@
+// Language detection, segmentation and localized strings for the heuristic analyzer
+export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'ja';
+
+export interface LanguageInfo {
+  code: SupportedLanguage;
+  label: string; // English name, also used when prompting providers
+  nativeLabel: string;
+  speechLang: string; // BCP 47 tag for SpeechRecognition
+}
+
+export const LANGUAGES: Record<SupportedLanguage, LanguageInfo> = {
+  en: { code: 'en', label: 'English', nativeLabel: 'English', speechLang: 'en-US' },
+  es: { code: 'es', label: 'Spanish', nativeLabel: 'Español', speechLang: 'es-ES' },
+  fr: { code: 'fr', label: 'French', nativeLabel: 'Français', speechLang: 'fr-FR' },
+  de: { code: 'de', label: 'German', nativeLabel: 'Deutsch', speechLang: 'de-DE' },
+  ja: { code: 'ja', label: 'Japanese', nativeLabel: '日本語', speechLang: 'ja-JP' }
+};
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && value in LANGUAGES;
+}
+
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const STOPWORDS: Record<Exclude<SupportedLanguage, 'ja'>, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'of', 'to', 'in', 'that', 'it', 'with', 'for', 'i', 'you', 'not', 'this', 'but', 'my', 'was', 'are']),
+  es: new Set(['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'un', 'una', 'por', 'con', 'para', 'no', 'mi', 'pero', 'del', 'se', 'lo']),
+  fr: new Set(['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'que', 'dans', 'pour', 'pas', 'je', 'ne', 'avec', 'sur', 'du', 'mais', 'il']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'zu', 'mit', 'den', 'auf', 'sich', 'es', 'aber', 'auch', 'im', 'dem', 'wir'])
+};
+
+// Letters that only (or mostly) show up in one of the Latin-script languages
+const CHARACTER_HINTS: Array<{ language: SupportedLanguage; pattern: RegExp; weight: number }> = [
+  { language: 'es', pattern: /[ñ¿¡]/g, weight: 2 },
+  { language: 'fr', pattern: /[çœèêëàâîïûù]/g, weight: 1 },
+  { language: 'de', pattern: /[äöüß]/g, weight: 2 }
+];
+
+// A high share of kana/kanji means Japanese; otherwise stopword and character votes pick a
+// Latin-script language, defaulting to English when the text gives no signal
+export function detectLanguage(text: string): SupportedLanguage {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length === 0) return 'en';
+
+  const japanese = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]/g) || [];
+  if (japanese.length / letters.length > 0.3) return 'ja';
+
+  const scores: Record<SupportedLanguage, number> = { en: 0, es: 0, fr: 0, de: 0, ja: 0 };
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  words.forEach(word => {
+    (Object.keys(STOPWORDS) as Array<keyof typeof STOPWORDS>).forEach(language => {
+      if (STOPWORDS[language].has(word)) scores[language]++;
+    });
+  });
+  const lowered = text.toLowerCase();
+  CHARACTER_HINTS.forEach(({ language, pattern, weight }) => {
+    scores[language] += (lowered.match(pattern) || []).length * weight;
+  });
+
+  let best: SupportedLanguage = 'en';
+  (Object.keys(scores) as SupportedLanguage[]).forEach(language => {
+    if (scores[language] > scores[best]) best = language;
+  });
+  return best;
+}
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+
+// Sentence spans with offsets; punctuation-only fragments are dropped
+export function segmentSentences(text: string, language: SupportedLanguage = 'en'): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const push = (raw: string, index: number) => {
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!/[\p{L}\p{N}]/u.test(trimmed)) return;
+    const start = index + leading;
+    spans.push({ text: trimmed, start, end: start + trimmed.length });
+  };
+
+  if (hasSegmenter) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+    for (const { segment, index } of segmenter.segment(text)) {
+      push(segment, index);
+    }
+    return spans;
+  }
+
+  const pattern = /[^.!?。！？]+[.!?。！？]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    push(match[0], match.index);
+  }
+  return spans;
+}
+
+// Word tokens with offsets; Japanese needs the segmenter since it has no spaces
+export function segmentWords(text: string, language: SupportedLanguage = 'en'): TextSpan[] {
+  const words: TextSpan[] = [];
+  if (hasSegmenter) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+    for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+      if (isWordLike) words.push({ text: segment, start: index, end: index + segment.length });
+    }
+    return words;
+  }
+
+  const pattern = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+}
+
+interface SignatureStrings {
+  compose: (archetype: string, mood: string, themes: string[]) => string;
+  archetypes: Record<string, string>;
+  moods: Record<string, string>;
+  themes: Record<string, string>;
+}
+
+// Keyed by the canonical (English) group names used in lexicon packs
+const SIGNATURES: Record<SupportedLanguage, SignatureStrings> = {
+  en: {
+    compose: (archetype, mood, themes) =>
+      `${archetype} resonance with ${mood} undertones, exploring themes of ${themes.join(', ')}`,
+    archetypes: {},
+    moods: {},
+    themes: {}
+  },
+  es: {
+    compose: (archetype, mood, themes) =>
+      `Resonancia ${archetype} con matices ${mood}, que explora temas de ${themes.join(', ')}`,
+    archetypes: {
+      'The Seeker': 'del Buscador', 'The Sage': 'del Sabio', 'The Creator': 'del Creador',
+      'The Rebel': 'del Rebelde', 'The Hero': 'del Héroe', 'The Lover': 'del Amante',
+      'The Jester': 'del Bufón', 'The Caregiver': 'del Cuidador', 'The Ruler': 'del Gobernante',
+      'The Magician': 'del Mago'
+    },
+    moods: {
+      contemplative: 'contemplativos', energetic: 'enérgicos', melancholic: 'melancólicos',
+      euphoric: 'eufóricos', mysterious: 'misteriosos', neutral: 'neutros'
+    },
+    themes: {
+      transformation: 'transformación', connection: 'conexión', discovery: 'descubrimiento',
+      conflict: 'conflicto', growth: 'crecimiento', mystery: 'misterio', existence: 'existencia'
+    }
+  },
+  fr: {
+    compose: (archetype, mood, themes) =>
+      `Résonance ${archetype} aux accents ${mood}, explorant les thèmes de ${themes.join(', ')}`,
+    archetypes: {
+      'The Seeker': 'du Chercheur', 'The Sage': 'du Sage', 'The Creator': 'du Créateur',
+      'The Rebel': 'du Rebelle', 'The Hero': 'du Héros', 'The Lover': "de l'Amoureux",
+      'The Jester': 'du Bouffon', 'The Caregiver': 'du Protecteur', 'The Ruler': 'du Souverain',
+      'The Magician': 'du Magicien'
+    },
+    moods: {
+      contemplative: 'contemplatifs', energetic: 'énergiques', melancholic: 'mélancoliques',
+      euphoric: 'euphoriques', mysterious: 'mystérieux', neutral: 'neutres'
+    },
+    themes: {
+      transformation: 'transformation', connection: 'connexion', discovery: 'découverte',
+      conflict: 'conflit', growth: 'croissance', mystery: 'mystère', existence: 'existence'
+    }
+  },
+  de: {
+    compose: (archetype, mood, themes) =>
+      `Resonanz des ${archetype} mit ${mood} Untertönen, die Themen wie ${themes.join(', ')} erkundet`,
+    archetypes: {
+      'The Seeker': 'Suchenden', 'The Sage': 'Weisen', 'The Creator': 'Schöpfers',
+      'The Rebel': 'Rebellen', 'The Hero': 'Helden', 'The Lover': 'Liebenden',
+      'The Jester': 'Narren', 'The Caregiver': 'Fürsorgers', 'The Ruler': 'Herrschers',
+      'The Magician': 'Magiers'
+    },
+    moods: {
+      contemplative: 'nachdenklichen', energetic: 'energischen', melancholic: 'melancholischen',
+      euphoric: 'euphorischen', mysterious: 'geheimnisvollen', neutral: 'neutralen'
+    },
+    themes: {
+      transformation: 'Wandlung', connection: 'Verbindung', discovery: 'Entdeckung',
+      conflict: 'Konflikt', growth: 'Wachstum', mystery: 'Geheimnis', existence: 'Existenz'
+    }
+  },
+  ja: {
+    compose: (archetype, mood, themes) =>
+      `${archetype}の共鳴。${mood}な響きを帯び、${themes.join('、')}というテーマを探る`,
+    archetypes: {
+      'The Seeker': '探求者', 'The Sage': '賢者', 'The Creator': '創造者',
+      'The Rebel': '反逆者', 'The Hero': '英雄', 'The Lover': '恋人',
+      'The Jester': '道化師', 'The Caregiver': '養育者', 'The Ruler': '支配者',
+      'The Magician': '魔術師'
+    },
+    moods: {
+      contemplative: '瞑想的', energetic: '活動的', melancholic: '哀愁的',
+      euphoric: '陶酔的', mysterious: '神秘的', neutral: '中立的'
+    },
+    themes: {
+      transformation: '変容', connection: 'つながり', discovery: '発見',
+      conflict: '葛藤', growth: '成長', mystery: '神秘', existence: '存在'
+    }
+  }
+};
+
+// Custom groups without a translation keep their pack name
+export function composeMeaningSignature(
+  language: SupportedLanguage,
+  archetype: string,
+  mood: string,
+  themes: string[]
+): string {
+  const strings = SIGNATURES[language];
+  return strings.compose(
+    strings.archetypes[archetype] ?? archetype,
+    strings.moods[mood] ?? mood,
+    themes.map(theme => strings.themes[theme] ?? theme)
+  );
+}
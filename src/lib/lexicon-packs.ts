@@ -0,0 +1,241 @@
+// Built-in lexicon packs for non-English input. Group keys stay canonical (English)
+// so meaning signatures can be localized from one table, see language.ts
+import type { LexiconPack, LexiconTerm } from './lexicon';
+
+const terms = (...words: string[]): LexiconTerm[] => words.map(term => ({ term, weight: 1 }));
+
+const SPANISH: LexiconPack = {
+  format: 'glyphmind-lexicon',
+  formatVersion: 1,
+  id: 'general-es',
+  name: 'General (Español)',
+  version: '1.0.0',
+  language: 'es',
+  builtIn: true,
+  negators: ['no', 'nunca', 'jamás', 'sin', 'tampoco', 'ni'],
+  terms: {
+    emotional: terms(
+      'amor', 'odio', 'miedo', 'alegría', 'ira', 'tristeza', 'emoción', 'ansiedad',
+      'pasión', 'rabia', 'dicha', 'terror', 'éxtasis', 'desesperación', 'esperanza', 'temor'
+    ),
+    intensifiers: terms('muy', 'extremadamente', 'increíblemente', 'absolutamente', 'completamente', 'totalmente'),
+    abstract: terms(
+      'conciencia', 'realidad', 'existencia', 'significado', 'propósito', 'alma',
+      'espíritu', 'esencia', 'verdad', 'sabiduría', 'iluminación', 'trascendencia'
+    ),
+    symbols: terms(
+      'sombra', 'luz', 'espejo', 'puerta', 'río', 'fuego', 'agua', 'árbol', 'serpiente',
+      'luna', 'sol', 'océano', 'montaña', 'laberinto', 'llave', 'puente', 'estrella', 'semilla'
+    ),
+    metaphors: terms('como', 'parece', 'semeja', 'cual'),
+    time: terms('ahora', 'entonces', 'antes', 'después', 'durante', 'mientras', 'cuando', 'hasta'),
+    transitions: terms('además', 'entretanto', 'asimismo', 'consecuentemente', 'aunque', 'pues')
+  },
+  groups: {
+    themes: {
+      transformation: terms('cambiar', 'transformar', 'evolucionar', 'convertir', 'transformación'),
+      connection: terms('juntos', 'vínculo', 'unir', 'conectar', 'relación'),
+      discovery: terms('encontrar', 'descubrir', 'revelar', 'explorar', 'hallar'),
+      conflict: terms('lucha', 'luchar', 'batalla', 'oponer', 'resistir'),
+      growth: terms('crecer', 'desarrollar', 'expandir', 'progreso', 'avanzar'),
+      mystery: terms('desconocido', 'secreto', 'oculto', 'misterioso', 'enigma')
+    },
+    moods: {
+      contemplative: terms('pensar', 'meditar', 'reflexionar', 'considerar', 'preguntarse'),
+      energetic: terms('energía', 'poder', 'fuerza', 'dinámico', 'vibrante'),
+      melancholic: terms('triste', 'pena', 'pérdida', 'duelo', 'melancolía'),
+      euphoric: terms('alegría', 'dicha', 'éxtasis', 'euforia', 'júbilo'),
+      mysterious: terms('misterio', 'enigma', 'acertijo', 'secreto', 'extraño')
+    },
+    archetypes: {
+      'The Seeker': terms('buscar', 'búsqueda', 'viaje', 'vagar', 'peregrinar'),
+      'The Sage': terms('saber', 'entender', 'verdad', 'sabiduría', 'aprender'),
+      'The Creator': terms('crear', 'hacer', 'construir', 'imaginar', 'diseñar'),
+      'The Rebel': terms('romper', 'rebelde', 'rechazar', 'desafiar', 'revuelta'),
+      'The Hero': terms('luchar', 'superar', 'coraje', 'valiente', 'ganar'),
+      'The Lover': terms('amor', 'corazón', 'deseo', 'amado', 'pasión'),
+      'The Jester': terms('reír', 'broma', 'jugar', 'divertido', 'tonto'),
+      'The Caregiver': terms('cuidar', 'ayudar', 'proteger', 'nutrir', 'sanar'),
+      'The Ruler': terms('control', 'orden', 'liderar', 'gobernar', 'poder'),
+      'The Magician': terms('transformar', 'magia', 'sueño', 'visión', 'alquimia')
+    }
+  }
+};
+
+const FRENCH: LexiconPack = {
+  format: 'glyphmind-lexicon',
+  formatVersion: 1,
+  id: 'general-fr',
+  name: 'Général (Français)',
+  version: '1.0.0',
+  language: 'fr',
+  builtIn: true,
+  negators: ['ne', 'pas', 'jamais', 'sans', 'aucun', 'aucune', 'ni'],
+  terms: {
+    emotional: terms(
+      'amour', 'haine', 'peur', 'joie', 'colère', 'tristesse', 'excitation', 'anxiété',
+      'passion', 'rage', 'béatitude', 'terreur', 'extase', 'désespoir', 'espoir', 'effroi'
+    ),
+    intensifiers: terms('très', 'extrêmement', 'incroyablement', 'absolument', 'complètement', 'tellement'),
+    abstract: terms(
+      'conscience', 'réalité', 'existence', 'sens', 'but', 'âme',
+      'esprit', 'essence', 'vérité', 'sagesse', 'illumination', 'transcendance'
+    ),
+    symbols: terms(
+      'ombre', 'lumière', 'miroir', 'porte', 'rivière', 'feu', 'eau', 'arbre', 'serpent',
+      'lune', 'soleil', 'océan', 'montagne', 'labyrinthe', 'clé', 'pont', 'étoile', 'graine'
+    ),
+    metaphors: terms('comme', 'semble', 'ressemble', 'paraît'),
+    time: terms('maintenant', 'alors', 'avant', 'après', 'pendant', 'quand', 'lorsque', 'tandis'),
+    transitions: terms('cependant', 'donc', 'pourtant', 'toutefois', 'ensuite', 'néanmoins')
+  },
+  groups: {
+    themes: {
+      transformation: terms('changer', 'transformer', 'évoluer', 'devenir', 'changement'),
+      connection: terms('ensemble', 'lien', 'unir', 'connecter', 'relation'),
+      discovery: terms('trouver', 'découvrir', 'révéler', 'explorer', 'dévoiler'),
+      conflict: terms('lutte', 'combattre', 'bataille', 'opposer', 'résister'),
+      growth: terms('grandir', 'développer', 'croissance', 'progresser', 'avancer'),
+      mystery: terms('inconnu', 'secret', 'caché', 'mystérieux', 'énigme')
+    },
+    moods: {
+      contemplative: terms('penser', 'réfléchir', 'méditer', 'songer', 'contempler'),
+      energetic: terms('énergie', 'puissance', 'force', 'dynamique', 'vibrant'),
+      melancholic: terms('triste', 'chagrin', 'perte', 'deuil', 'mélancolie'),
+      euphoric: terms('joie', 'extase', 'euphorie', 'ravissement', 'allégresse'),
+      mysterious: terms('mystère', 'énigme', 'secret', 'devinette', 'étrange')
+    },
+    archetypes: {
+      'The Seeker': terms('chercher', 'quête', 'voyage', 'errer', 'explorer'),
+      'The Sage': terms('savoir', 'comprendre', 'vérité', 'sagesse', 'apprendre'),
+      'The Creator': terms('créer', 'faire', 'construire', 'imaginer', 'inventer'),
+      'The Rebel': terms('briser', 'révolte', 'refuser', 'défier', 'rebelle'),
+      'The Hero': terms('combattre', 'vaincre', 'courage', 'brave', 'gagner'),
+      'The Lover': terms('amour', 'cœur', 'désir', 'aimer', 'passion'),
+      'The Jester': terms('rire', 'blague', 'jouer', 'amusant', 'drôle'),
+      'The Caregiver': terms('soin', 'aider', 'protéger', 'nourrir', 'guérir'),
+      'The Ruler': terms('contrôle', 'ordre', 'diriger', 'régner', 'pouvoir'),
+      'The Magician': terms('transformer', 'magie', 'rêve', 'vision', 'alchimie')
+    }
+  }
+};
+
+const GERMAN: LexiconPack = {
+  format: 'glyphmind-lexicon',
+  formatVersion: 1,
+  id: 'general-de',
+  name: 'Allgemein (Deutsch)',
+  version: '1.0.0',
+  language: 'de',
+  builtIn: true,
+  negators: ['nicht', 'kein', 'keine', 'keinen', 'nie', 'niemals', 'ohne', 'weder'],
+  terms: {
+    emotional: terms(
+      'liebe', 'hass', 'angst', 'freude', 'wut', 'trauer', 'aufregung', 'sorge',
+      'leidenschaft', 'zorn', 'glückseligkeit', 'schrecken', 'ekstase', 'verzweiflung', 'hoffnung', 'furcht'
+    ),
+    intensifiers: terms('sehr', 'extrem', 'unglaublich', 'absolut', 'völlig', 'total'),
+    abstract: terms(
+      'bewusstsein', 'wirklichkeit', 'existenz', 'bedeutung', 'sinn', 'seele',
+      'geist', 'wesen', 'wahrheit', 'weisheit', 'erleuchtung', 'transzendenz'
+    ),
+    symbols: terms(
+      'schatten', 'licht', 'spiegel', 'tür', 'fluss', 'feuer', 'wasser', 'baum', 'schlange',
+      'mond', 'sonne', 'ozean', 'berg', 'labyrinth', 'schlüssel', 'brücke', 'stern', 'samen'
+    ),
+    metaphors: terms('wie', 'scheint', 'gleicht', 'ähnelt'),
+    time: terms('jetzt', 'dann', 'vorher', 'nachher', 'während', 'als', 'wenn', 'bis'),
+    transitions: terms('jedoch', 'deshalb', 'inzwischen', 'folglich', 'außerdem', 'trotzdem')
+  },
+  groups: {
+    themes: {
+      transformation: terms('ändern', 'verwandeln', 'verändern', 'werden', 'wandel'),
+      connection: terms('zusammen', 'bindung', 'vereinen', 'verbinden', 'beziehung'),
+      discovery: terms('finden', 'entdecken', 'enthüllen', 'erforschen', 'aufdecken'),
+      conflict: terms('kampf', 'kämpfen', 'schlacht', 'widerstehen', 'widerstand'),
+      growth: terms('wachsen', 'wachstum', 'entwickeln', 'erweitern', 'fortschritt'),
+      mystery: terms('unbekannt', 'geheimnis', 'verborgen', 'geheimnisvoll', 'rätsel')
+    },
+    moods: {
+      contemplative: terms('denken', 'grübeln', 'nachdenken', 'betrachten', 'wundern'),
+      energetic: terms('energie', 'kraft', 'macht', 'dynamisch', 'lebendig'),
+      melancholic: terms('traurig', 'kummer', 'verlust', 'trauer', 'melancholie'),
+      euphoric: terms('freude', 'glückseligkeit', 'ekstase', 'euphorie', 'jubel'),
+      mysterious: terms('mysterium', 'rätsel', 'geheimnis', 'seltsam', 'unheimlich')
+    },
+    archetypes: {
+      'The Seeker': terms('suchen', 'suche', 'reise', 'wandern', 'sehnsucht'),
+      'The Sage': terms('wissen', 'verstehen', 'wahrheit', 'weisheit', 'lernen'),
+      'The Creator': terms('erschaffen', 'machen', 'bauen', 'vorstellen', 'gestalten'),
+      'The Rebel': terms('brechen', 'rebellieren', 'verweigern', 'trotzen', 'aufstand'),
+      'The Hero': terms('kämpfen', 'überwinden', 'mut', 'tapfer', 'siegen'),
+      'The Lover': terms('liebe', 'herz', 'verlangen', 'geliebt', 'leidenschaft'),
+      'The Jester': terms('lachen', 'witz', 'spielen', 'spaß', 'albern'),
+      'The Caregiver': terms('pflege', 'helfen', 'schützen', 'nähren', 'heilen'),
+      'The Ruler': terms('kontrolle', 'ordnung', 'führen', 'herrschen', 'macht'),
+      'The Magician': terms('verwandeln', 'magie', 'traum', 'vision', 'alchemie')
+    }
+  }
+};
+
+// Japanese terms are matched as substrings, so stems like 悲し cover 悲しい and 悲しみ
+const JAPANESE: LexiconPack = {
+  format: 'glyphmind-lexicon',
+  formatVersion: 1,
+  id: 'general-ja',
+  name: '一般 (日本語)',
+  version: '1.0.0',
+  language: 'ja',
+  builtIn: true,
+  negators: [],
+  negationSuffixes: ['ない', 'なく', 'ません', 'なかった', 'ず'],
+  terms: {
+    emotional: terms(
+      '愛', '憎', '恐怖', '喜び', '怒り', '悲しみ', '興奮', '不安',
+      '情熱', '激怒', '至福', '恐れ', '絶望', '希望', '嬉し', '寂し'
+    ),
+    intensifiers: terms('とても', '非常に', '信じられない', '絶対', '完全に', 'すごく'),
+    abstract: terms(
+      '意識', '現実', '存在', '意味', '目的', '魂',
+      '精神', '本質', '真実', '知恵', '悟り', '超越'
+    ),
+    symbols: terms(
+      '影', '光', '鏡', '扉', '川', '炎', '水', '樹', '蛇',
+      '月', '太陽', '海', '山', '迷宮', '鍵', '橋', '星', '種'
+    ),
+    metaphors: terms('ような', 'ように', 'みたい', 'らしい', '似て'),
+    time: terms('今', 'それから', '以前', 'その後', '最中', 'ながら', '時に', 'までに'),
+    transitions: terms('しかし', 'だから', '一方', 'その結果', 'さらに', 'けれども')
+  },
+  groups: {
+    themes: {
+      transformation: terms('変化', '変わ', '変容', '進化', '転換'),
+      connection: terms('一緒', '絆', '結び', 'つなが', '関係'),
+      discovery: terms('見つけ', '発見', '明らか', '探検', '探索'),
+      conflict: terms('闘', '戦', '争', '対立', '抵抗'),
+      growth: terms('成長', '発展', '広が', '進歩', '前進'),
+      mystery: terms('未知', '秘密', '隠れ', '神秘', '謎')
+    },
+    moods: {
+      contemplative: terms('考え', '思い', '振り返', '熟考', '不思議'),
+      energetic: terms('エネルギー', '力', '勢い', '活発', '鮮やか'),
+      melancholic: terms('悲し', '哀し', '喪失', '嘆き', '憂鬱'),
+      euphoric: terms('喜び', '至福', '恍惚', '歓喜', '有頂天'),
+      mysterious: terms('神秘', '謎', '不可解', '秘密', '奇妙')
+    },
+    archetypes: {
+      'The Seeker': terms('探', '求め', '旅', 'さまよ', '探求'),
+      'The Sage': terms('知', '理解', '真実', '知恵', '学'),
+      'The Creator': terms('創', '作', '築', '想像', '設計'),
+      'The Rebel': terms('壊', '反逆', '拒', '逆ら', '反乱'),
+      'The Hero': terms('戦', '克服', '勇気', '勇敢', '勝'),
+      'The Lover': terms('愛', '心', '欲望', '恋', '情熱'),
+      'The Jester': terms('笑', '冗談', '遊', '楽し', 'ふざけ'),
+      'The Caregiver': terms('世話', '助け', '守', '育', '癒'),
+      'The Ruler': terms('支配', '秩序', '導', '統治', '権力'),
+      'The Magician': terms('変容', '魔法', '夢', '幻', '錬金')
+    }
+  }
+};
+
+export const LOCALIZED_LEXICON_PACKS: LexiconPack[] = [SPANISH, FRENCH, GERMAN, JAPANESE];
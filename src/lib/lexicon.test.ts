@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LEXICON_PACK, Lexicon, NEGATION_FACTOR, stem } from './lexicon';
+
+const lexicon = new Lexicon(DEFAULT_LEXICON_PACK);
+
+const matchedTerms = (text: string) => lexicon.match(text, ['emotional']).map(match => match.term);
+
+describe('stem', () => {
+  it('brings inflections of a word to one stem', () => {
+    expect(new Set(['hope', 'hoped', 'hoping', 'hopes'].map(word => stem(word)))).toEqual(new Set(['hope']));
+    expect(new Set(['love', 'loved', 'loving', 'loves'].map(word => stem(word)))).toEqual(new Set(['love']));
+    expect(new Set(['change', 'changed', 'changing', 'changes'].map(word => stem(word)))).toEqual(new Set(['chang']));
+    expect(stem('stopped')).toBe(stem('stop'));
+    expect(stem('sadness')).toBe(stem('sad'));
+    expect(stem('stories')).toBe('story');
+  });
+
+  it('keeps words that only look inflected apart', () => {
+    expect(stem('hopping')).toBe('hop');
+    expect(stem('hopping')).not.toBe(stem('hope'));
+    expect(stem('hating')).not.toBe(stem('hat'));
+    expect(stem('bliss')).toBe('bliss');
+    expect(stem('falling')).toBe('fall');
+  });
+});
+
+describe('Lexicon.match', () => {
+  it('matches inflected forms but not look-alikes', () => {
+    expect(matchedTerms('Still hoping, she loved the quiet.')).toEqual(['hope', 'love']);
+    expect(matchedTerms('Rabbits hopping over the hill.')).toEqual([]);
+  });
+
+  it('marks terms negated within three words before them', () => {
+    const [negated] = lexicon.match('I do not feel any hope', ['emotional']);
+    const [contracted] = lexicon.match("We don't fear the dark", ['emotional']);
+    const [outside] = lexicon.match('I did not think there was hope', ['emotional']);
+    const [acrossClause] = lexicon.match('Not now, hope remains', ['emotional']);
+
+    expect(negated.negatedBy).toBe('not');
+    expect(contracted.negatedBy).toBe("don't");
+    expect(outside.negatedBy).toBeUndefined();
+    expect(acrossClause.negatedBy).toBeUndefined();
+  });
+
+  it('counts negated hits at a fraction of their weight', () => {
+    expect(lexicon.score('No hope, but joy', 'emotional')).toBeCloseTo(NEGATION_FACTOR + 1);
+    expect(lexicon.scoreGroups('not sad, only grief', 'moods')).toEqual({ melancholic: 1 });
+  });
+});
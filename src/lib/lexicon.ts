@@ -0,0 +1,512 @@
+// Versioned, weighted word lists that drive the heuristic analyzer
+import { isSupportedLanguage, segmentWords, type SupportedLanguage, type TextSpan } from './language';
+import { LOCALIZED_LEXICON_PACKS } from './lexicon-packs';
+
+export type TermCategory =
+  | 'emotional'
+  | 'intensifiers'
+  | 'abstract'
+  | 'symbols'
+  | 'metaphors'
+  | 'time'
+  | 'transitions';
+
+export type GroupCategory = 'themes' | 'moods' | 'archetypes';
+
+export interface LexiconTerm {
+  term: string;
+  weight: number; // multiplier on the category's base score; 1 is neutral
+}
+
+export interface LexiconPack {
+  format: 'glyphmind-lexicon';
+  formatVersion: 1;
+  id: string;
+  name: string;
+  version: string; // semver, bumped on every saved edit
+  description?: string;
+  builtIn?: boolean;
+  language?: SupportedLanguage; // defaults to English
+  negators: string[]; // words that negate a term within a few words before it
+  negationSuffixes?: string[]; // endings that negate a term right after it, e.g. Japanese ない
+  terms: Record<TermCategory, LexiconTerm[]>;
+  groups: Record<GroupCategory, Record<string, LexiconTerm[]>>;
+}
+
+export interface LexiconMatch {
+  term: string; // lexicon entry that matched
+  text: string; // surface form in the input
+  category: TermCategory | GroupCategory;
+  group?: string;
+  weight: number;
+  start: number;
+  end: number;
+  negatedBy?: string;
+}
+
+export const TERM_CATEGORIES: TermCategory[] = [
+  'emotional', 'intensifiers', 'abstract', 'symbols', 'metaphors', 'time', 'transitions'
+];
+export const GROUP_CATEGORIES: GroupCategory[] = ['themes', 'moods', 'archetypes'];
+
+// Negated hits still count, but only this fraction of their weight
+export const NEGATION_FACTOR = 0.3;
+const NEGATION_WINDOW = 3;
+
+const terms = (...words: string[]): LexiconTerm[] => words.map(term => ({ term, weight: 1 }));
+
+export const DEFAULT_LEXICON_PACK: LexiconPack = {
+  format: 'glyphmind-lexicon',
+  formatVersion: 1,
+  id: 'general',
+  name: 'General',
+  version: '1.0.0',
+  description: 'Built-in general-purpose lexicon',
+  builtIn: true,
+  language: 'en',
+  negators: ['not', 'no', 'never', 'without', 'hardly', 'barely', 'nor', 'cannot'],
+  terms: {
+    emotional: terms(
+      'love', 'hate', 'fear', 'joy', 'anger', 'sadness', 'excitement', 'anxiety',
+      'passion', 'rage', 'bliss', 'terror', 'ecstasy', 'despair', 'hope', 'dread'
+    ),
+    intensifiers: terms('very', 'extremely', 'incredibly', 'absolutely', 'completely'),
+    abstract: terms(
+      'consciousness', 'reality', 'existence', 'meaning', 'purpose', 'soul',
+      'spirit', 'essence', 'truth', 'wisdom', 'enlightenment', 'transcendence'
+    ),
+    symbols: terms(
+      'shadow', 'light', 'mirror', 'door', 'river', 'fire', 'water', 'tree', 'serpent',
+      'moon', 'sun', 'ocean', 'mountain', 'labyrinth', 'key', 'bridge', 'star', 'seed'
+    ),
+    metaphors: terms('like', 'as', 'seems', 'appears', 'resembles'),
+    time: terms('now', 'then', 'before', 'after', 'during', 'while', 'when', 'until'),
+    transitions: terms('however', 'therefore', 'meanwhile', 'consequently', 'furthermore')
+  },
+  groups: {
+    themes: {
+      transformation: terms('change', 'transform', 'evolve', 'become', 'shift'),
+      connection: terms('together', 'bond', 'unite', 'connect', 'relationship'),
+      discovery: terms('find', 'discover', 'reveal', 'uncover', 'explore'),
+      conflict: terms('struggle', 'fight', 'battle', 'oppose', 'resist'),
+      growth: terms('grow', 'develop', 'expand', 'progress', 'advance'),
+      mystery: terms('unknown', 'secret', 'hidden', 'mysterious', 'enigma')
+    },
+    moods: {
+      contemplative: terms('think', 'ponder', 'reflect', 'consider', 'wonder'),
+      energetic: terms('energy', 'power', 'force', 'dynamic', 'vibrant'),
+      melancholic: terms('sad', 'sorrow', 'loss', 'grief', 'melancholy'),
+      euphoric: terms('joy', 'bliss', 'ecstasy', 'elation', 'rapture'),
+      mysterious: terms('mystery', 'enigma', 'puzzle', 'riddle', 'secret')
+    },
+    archetypes: {
+      'The Seeker': terms('search', 'seek', 'journey', 'wander', 'quest'),
+      'The Sage': terms('know', 'understand', 'truth', 'wisdom', 'learn'),
+      'The Creator': terms('create', 'make', 'build', 'imagine', 'design'),
+      'The Rebel': terms('break', 'rebel', 'refuse', 'defy', 'revolt'),
+      'The Hero': terms('fight', 'overcome', 'courage', 'brave', 'win'),
+      'The Lover': terms('love', 'heart', 'desire', 'beloved', 'passion'),
+      'The Jester': terms('laugh', 'joke', 'play', 'fun', 'silly'),
+      'The Caregiver': terms('care', 'help', 'protect', 'nurture', 'heal'),
+      'The Ruler': terms('control', 'order', 'lead', 'rule', 'power'),
+      'The Magician': terms('transform', 'magic', 'dream', 'vision', 'alchemy')
+    }
+  }
+};
+
+const SUFFIXES: Record<SupportedLanguage, Array<[string, string]>> = {
+  en: [
+    ['ingly', ''], ['edly', ''], ['ness', ''], ['ment', ''], ['ings', ''], ['ing', ''],
+    ['ies', 'y'], ['ied', 'y'], ['ed', ''], ['ly', ''], ['es', ''], ['s', '']
+  ],
+  es: [
+    ['mente', ''], ['ieron', ''], ['iendo', ''], ['aron', ''], ['ando', ''], ['amos', ''],
+    ['emos', ''], ['imos', ''], ['ado', ''], ['ido', ''], ['ar', ''], ['er', ''], ['ir', ''],
+    ['es', ''], ['s', '']
+  ],
+  fr: [
+    ['issement', ''], ['issons', ''], ['issent', ''], ['issant', ''], ['issez', ''], ['ements', ''], ['ement', ''], ['ment', ''], ['euses', ''], ['euse', ''],
+    ['ations', ''], ['ation', ''], ['eux', ''], ['ées', ''], ['ons', ''], ['ent', ''], ['ée', ''],
+    ['és', ''], ['er', ''], ['ir', ''], ['ez', ''], ['es', ''], ['é', ''], ['e', ''], ['s', ''], ['x', '']
+  ],
+  de: [
+    ['ungen', 'ung'], ['ern', ''], ['em', ''], ['en', ''], ['er', ''], ['es', ''], ['e', ''], ['n', ''], ['s', '']
+  ],
+  ja: []
+};
+
+// Suffixes that take the silent e off a stem: "hope" -> "hoping", "hoped", "hopes"
+const E_DROPPING_SUFFIXES = new Set(['ing', 'ings', 'ingly', 'ed', 'edly', 'es']);
+
+// One vowel group ending consonant-vowel-consonant, like "hop" or "lov"
+function isShortSyllable(word: string): boolean {
+  return /^[^aeiouy]*[aeiouy][^aeiouywx]$/.test(word);
+}
+
+// Light suffix stripping so "loved", "loving" and "loves" all meet "love"
+export function stem(word: string, language: SupportedLanguage = 'en'): string {
+  let result = word.toLocaleLowerCase(language).replace(/['’]s$/, '');
+  if (language === 'fr') {
+    // l'amour, d'espoir, qu'il
+    result = result.replace(/^(?:l|d|j|m|t|s|n|c|qu)['’]/, '');
+  }
+  if (result.length <= 3) return result;
+
+  let stripped = '';
+  for (const [suffix, replacement] of SUFFIXES[language]) {
+    if (!result.endsWith(suffix)) continue;
+    const base = result.slice(0, -suffix.length) + replacement;
+    // Leave "bliss", "chaos", "this" alone
+    if (language === 'en' && suffix === 's' && /[siu]$/.test(base)) continue;
+    if (base.length < 3) continue;
+    result = base;
+    stripped = suffix;
+    break;
+  }
+
+  if (language === 'en') {
+    // A short stem keeps its silent e, so "hope" and "hop" stay apart; longer ones drop it
+    // to meet their inflections: "change" and "changing" both become "chang"
+    if (result.length > 3 && result.endsWith('e')) {
+      if (!isShortSyllable(result.slice(0, -1))) result = result.slice(0, -1);
+    } else if (result.length > 3 && /([^aeiouls])\1$/.test(result)) {
+      // "hopping" -> "hop"
+      result = result.slice(0, -1);
+    } else if (E_DROPPING_SUFFIXES.has(stripped) && isShortSyllable(result)) {
+      // "hoping" -> "hope"
+      result += 'e';
+    }
+  } else if (language === 'es' && result.length > 3) {
+    // Gender and verb vowels: "triste"/"tristeza", "cambio"/"cambiar"
+    result = result.replace(/[aeoáéíó]$/, '');
+  } else if (language === 'fr' && result.length > 3) {
+    // "changeons" -> "change" -> "chang", matching "changer"
+    result = result.replace(/e$/, '');
+  }
+  return result;
+}
+
+interface IndexedTerm {
+  term: string;
+  weight: number;
+  category: TermCategory | GroupCategory;
+  group?: string;
+}
+
+// Compiled, stem-indexed view of a pack
+export class Lexicon {
+  readonly pack: LexiconPack;
+  private index = new Map<string, IndexedTerm[]>();
+  private negators: Set<string>;
+  private negationSuffixes: string[];
+
+  constructor(pack: LexiconPack) {
+    this.pack = pack;
+    this.negators = new Set(pack.negators.map(word => word.toLowerCase()));
+    this.negationSuffixes = pack.negationSuffixes ?? [];
+
+    TERM_CATEGORIES.forEach(category => {
+      (pack.terms[category] || []).forEach(({ term, weight }) => {
+        this.addToIndex({ term, weight, category });
+      });
+    });
+    GROUP_CATEGORIES.forEach(category => {
+      Object.entries(pack.groups[category] || {}).forEach(([group, groupTerms]) => {
+        groupTerms.forEach(({ term, weight }) => {
+          this.addToIndex({ term, weight, category, group });
+        });
+      });
+    });
+  }
+
+  get language(): SupportedLanguage {
+    return this.pack.language ?? 'en';
+  }
+
+  private addToIndex(entry: IndexedTerm): void {
+    const key = this.language === 'ja' ? entry.term : stem(entry.term, this.language);
+    const existing = this.index.get(key) || [];
+    existing.push(entry);
+    this.index.set(key, existing);
+  }
+
+  match(text: string, categories?: Array<TermCategory | GroupCategory>): LexiconMatch[] {
+    if (this.language === 'ja') return this.matchSubstrings(text, categories);
+
+    const tokens = segmentWords(text, this.language);
+    const matches: LexiconMatch[] = [];
+
+    tokens.forEach((token, tokenIndex) => {
+      const entries = this.index.get(stem(token.text, this.language));
+      if (!entries) return;
+
+      const negatedBy = this.findNegator(text, tokens, tokenIndex) ?? this.findNegationSuffix(text, token.end);
+      entries.forEach(entry => {
+        if (categories && !categories.includes(entry.category)) return;
+        matches.push({
+          term: entry.term,
+          text: token.text,
+          category: entry.category,
+          group: entry.group,
+          weight: entry.weight,
+          start: token.start,
+          end: token.end,
+          negatedBy
+        });
+      });
+    });
+
+    return matches;
+  }
+
+  // Languages written without spaces are scanned term by term instead of token by token
+  private matchSubstrings(text: string, categories?: Array<TermCategory | GroupCategory>): LexiconMatch[] {
+    const matches: LexiconMatch[] = [];
+    this.index.forEach((entries, key) => {
+      let start = text.indexOf(key);
+      while (start !== -1) {
+        const end = start + key.length;
+        const negatedBy = this.findNegationSuffix(text, end);
+        entries.forEach(entry => {
+          if (categories && !categories.includes(entry.category)) return;
+          matches.push({
+            term: entry.term,
+            text: key,
+            category: entry.category,
+            group: entry.group,
+            weight: entry.weight,
+            start,
+            end,
+            negatedBy
+          });
+        });
+        start = text.indexOf(key, end);
+      }
+    });
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  // Weighted hit count; negated hits contribute NEGATION_FACTOR of their weight
+  score(text: string, category: TermCategory): number {
+    return this.match(text, [category]).reduce((sum, match) =>
+      sum + match.weight * (match.negatedBy ? NEGATION_FACTOR : 1), 0
+    );
+  }
+
+  // Weighted, non-negated hit count per group, e.g. { growth: 2, conflict: 1 }
+  scoreGroups(text: string, category: GroupCategory): Record<string, number> {
+    const scores: Record<string, number> = {};
+    this.match(text, [category]).forEach(match => {
+      if (match.negatedBy || !match.group) return;
+      scores[match.group] = (scores[match.group] || 0) + match.weight;
+    });
+    return scores;
+  }
+
+  private findNegator(text: string, tokens: TextSpan[], tokenIndex: number): string | undefined {
+    for (let i = tokenIndex - 1; i >= Math.max(0, tokenIndex - NEGATION_WINDOW); i--) {
+      // Negation does not carry across clause punctuation
+      if (/[.!?,;:]/.test(text.slice(tokens[i].end, tokens[i + 1].start))) return undefined;
+      const word = tokens[i].text.toLowerCase();
+      if (this.negators.has(word) || (this.language === 'en' && /n['’]t$/.test(word))) return tokens[i].text;
+    }
+    return undefined;
+  }
+
+  // e.g. 幸せではない: the negation follows the term within the same clause
+  private findNegationSuffix(text: string, end: number): string | undefined {
+    if (this.negationSuffixes.length === 0) return undefined;
+    const following = text.slice(end, end + 6).split(/[。、！？.,!?\s]/)[0];
+    return this.negationSuffixes.find(suffix => following.includes(suffix));
+  }
+}
+
+export function bumpPatchVersion(version: string): string {
+  const [major = 1, minor = 0, patch = 0] = version.split('.').map(part => parseInt(part, 10) || 0);
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+// Validates an imported pack; throws with a readable message on the first problem
+export function parseLexiconPack(raw: unknown): LexiconPack {
+  if (!raw || typeof raw !== 'object') throw new Error('Lexicon pack must be a JSON object');
+  const data = raw as Record<string, any>;
+
+  if (data.format !== 'glyphmind-lexicon') throw new Error('Not a GlyphMind lexicon pack');
+  if (data.formatVersion !== 1) throw new Error(`Unsupported lexicon format version ${data.formatVersion}`);
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new Error('Lexicon pack needs a name');
+  if (typeof data.version !== 'string' || !/^\d+\.\d+\.\d+$/.test(data.version)) {
+    throw new Error('Lexicon pack version must look like 1.0.0');
+  }
+
+  const parseTerms = (value: unknown, path: string): LexiconTerm[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw new Error(`${path} must be a list of terms`);
+    return value.map((item, index) => {
+      const term = typeof item === 'string' ? item : item?.term;
+      const weight = typeof item === 'string' ? 1 : Number(item?.weight ?? 1);
+      if (typeof term !== 'string' || !term.trim() || /\s/.test(term.trim())) {
+        throw new Error(`${path}[${index}] must be a single word`);
+      }
+      if (!Number.isFinite(weight) || weight < 0 || weight > 5) {
+        throw new Error(`${path}[${index}] weight must be between 0 and 5`);
+      }
+      return { term: term.trim().toLowerCase(), weight };
+    });
+  };
+
+  const termsByCategory = {} as Record<TermCategory, LexiconTerm[]>;
+  TERM_CATEGORIES.forEach(category => {
+    termsByCategory[category] = parseTerms(data.terms?.[category], `terms.${category}`);
+  });
+
+  const groups = {} as Record<GroupCategory, Record<string, LexiconTerm[]>>;
+  GROUP_CATEGORIES.forEach(category => {
+    groups[category] = {};
+    Object.entries(data.groups?.[category] || {}).forEach(([group, value]) => {
+      groups[category][group] = parseTerms(value, `groups.${category}.${group}`);
+    });
+  });
+
+  return {
+    format: 'glyphmind-lexicon',
+    formatVersion: 1,
+    id: typeof data.id === 'string' && data.id ? data.id : `pack_${Date.now()}`,
+    name: data.name.trim(),
+    version: data.version,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    language: isSupportedLanguage(data.language) ? data.language : 'en',
+    negators: Array.isArray(data.negators)
+      ? data.negators.filter((word: unknown) => typeof word === 'string').map((word: string) => word.toLowerCase())
+      : [...DEFAULT_LEXICON_PACK.negators],
+    negationSuffixes: Array.isArray(data.negationSuffixes)
+      ? data.negationSuffixes.filter((suffix: unknown) => typeof suffix === 'string')
+      : undefined,
+    terms: termsByCategory,
+    groups
+  };
+}
+
+export class LexiconStore {
+  private static readonly PACKS_KEY = 'glyphmind_lexicon_packs';
+  private static readonly ACTIVE_KEY = 'glyphmind_active_lexicon';
+  private packs: LexiconPack[];
+  private activeId: string;
+
+  constructor() {
+    this.packs = this.loadPacks();
+    this.activeId = localStorage.getItem(LexiconStore.ACTIVE_KEY) || DEFAULT_LEXICON_PACK.id;
+  }
+
+  private loadPacks(): LexiconPack[] {
+    try {
+      const stored = localStorage.getItem(LexiconStore.PACKS_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          return parsed.flatMap(pack => {
+            try {
+              return [parseLexiconPack(pack)];
+            } catch (error) {
+              console.error('Skipping invalid stored lexicon pack:', error);
+              return [];
+            }
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error loading lexicon packs:', error);
+    }
+    return [];
+  }
+
+  private savePacks(): void {
+    try {
+      localStorage.setItem(LexiconStore.PACKS_KEY, JSON.stringify(this.packs));
+    } catch (error) {
+      console.error('Error saving lexicon packs:', error);
+    }
+  }
+
+  listPacks(): LexiconPack[] {
+    return [DEFAULT_LEXICON_PACK, ...LOCALIZED_LEXICON_PACKS, ...this.packs];
+  }
+
+  getActivePack(): LexiconPack {
+    return this.listPacks().find(pack => pack.id === this.activeId) || DEFAULT_LEXICON_PACK;
+  }
+
+  setActivePack(id: string): void {
+    this.activeId = id;
+    localStorage.setItem(LexiconStore.ACTIVE_KEY, id);
+  }
+
+  // Built-in packs are read-only; edits go to a copy
+  duplicatePack(source: LexiconPack, name: string): LexiconPack {
+    const copy: LexiconPack = {
+      ...structuredClone(source),
+      id: `pack_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      name,
+      version: '1.0.0',
+      builtIn: false
+    };
+    this.packs.push(copy);
+    this.savePacks();
+    return copy;
+  }
+
+  savePack(pack: LexiconPack): LexiconPack {
+    if (pack.builtIn) throw new Error('Built-in packs cannot be modified');
+    const index = this.packs.findIndex(existing => existing.id === pack.id);
+    const saved = { ...pack, version: index === -1 ? pack.version : bumpPatchVersion(this.packs[index].version) };
+    if (index === -1) {
+      this.packs.push(saved);
+    } else {
+      this.packs[index] = saved;
+    }
+    this.savePacks();
+    return saved;
+  }
+
+  deletePack(id: string): boolean {
+    const index = this.packs.findIndex(pack => pack.id === id);
+    if (index === -1) return false;
+    this.packs.splice(index, 1);
+    this.savePacks();
+    if (this.activeId === id) this.setActivePack(DEFAULT_LEXICON_PACK.id);
+    return true;
+  }
+
+  importPack(json: string): LexiconPack {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    const pack = parseLexiconPack(raw);
+    // Never let an import shadow a built-in or silently replace another pack
+    const clash = this.listPacks().some(existing => existing.id === pack.id);
+    const imported = clash ? { ...pack, id: `pack_${Date.now()}_${Math.random().toString(36).substr(2, 6)}` } : pack;
+    this.packs.push(imported);
+    this.savePacks();
+    return imported;
+  }
+
+  exportPack(pack: LexiconPack): string {
+    const { builtIn: _builtIn, ...exported } = pack;
+    return JSON.stringify(exported, null, 2);
+  }
+}
+
+const builtInLexicons = new Map<SupportedLanguage, Lexicon>();
+
+// Fallback for input whose language differs from the active pack
+export function getBuiltInLexicon(language: SupportedLanguage): Lexicon {
+  let lexicon = builtInLexicons.get(language);
+  if (!lexicon) {
+    const pack = [DEFAULT_LEXICON_PACK, ...LOCALIZED_LEXICON_PACKS].find(p => (p.language ?? 'en') === language);
+    lexicon = new Lexicon(pack ?? DEFAULT_LEXICON_PACK);
+    builtInLexicons.set(language, lexicon);
+  }
+  return lexicon;
+}
@@ -0,0 +1,102 @@
+// Small markdown subset for entry notes: headings, lists, quotes, code, emphasis and links.
+// Produces tokens rather than HTML so notes never reach the DOM as markup.
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: InlineToken[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineToken[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineToken[] }
+  | { type: 'paragraph'; children: InlineToken[] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] }
+  | { type: 'quote'; children: InlineToken[] }
+  | { type: 'code'; text: string };
+
+// Only http(s) links are kept; anything else stays plain text
+const INLINE_PATTERN = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/;
+
+export function parseInline(text: string): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      tokens.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      tokens.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+    const [, strong, strongAlt, em, emAlt, code, label, href] = match;
+    if (strong ?? strongAlt) tokens.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    else if (em ?? emAlt) tokens.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    else if (code) tokens.push({ type: 'code', text: code });
+    else tokens.push({ type: 'link', href, children: parseInline(label) });
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return tokens;
+}
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    const quote = QUOTE.exec(line);
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const item = parseInline((bullet ?? numbered)![1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+    } else if (quote) {
+      flushParagraph();
+      blocks.push({ type: 'quote', children: parseInline(quote[1]) });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
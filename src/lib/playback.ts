@@ -0,0 +1,78 @@
+// Maps a voice entry's transcript, prosody timeline and emergence points onto
+// recording time so playback can drive a single cursor across all of them
+import type { EmergencePoint } from './ai-providers';
+import type { ProsodyFrame } from './prosody';
+import type { SessionEntry } from './session-storage';
+import type { TranscriptWord } from './transcription';
+
+export interface TimedEmergence {
+  time: number; // seconds into the recording
+  point: EmergencePoint;
+}
+
+export interface PlaybackTimeline {
+  duration: number;
+  words: TranscriptWord[];
+  prosody: ProsodyFrame[];
+  emergences: TimedEmergence[];
+}
+
+// Index of the word being spoken at `time`, or of the last one already spoken; -1 before the first
+export function activeWordIndex(words: TranscriptWord[], time: number): number {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (words[middle].start <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+// Character offset of each transcript word within the entry text, or -1 for words that
+// were edited away; the transcript is usually appended after any typed text
+function locateWords(text: string, words: TranscriptWord[]): number[] {
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  return words.map(({ word }) => {
+    const offset = haystack.indexOf(word.toLowerCase(), cursor);
+    if (offset === -1) return -1;
+    cursor = offset + word.length;
+    return offset;
+  });
+}
+
+// Emergence points sit at character offsets in the text; the first transcript word at or
+// after that offset gives their moment in the recording. Without a usable transcript the
+// point's position through the text is scaled to the recording length
+export function timeEmergences(
+  text: string,
+  points: EmergencePoint[],
+  words: TranscriptWord[],
+  duration: number
+): TimedEmergence[] {
+  const offsets = locateWords(text, words);
+  return points
+    .map(point => {
+      const index = offsets.findIndex(offset => offset >= point.start);
+      const time = index !== -1 ? words[index].start : (point.timestamp / 100) * duration;
+      return { time: Math.min(duration, Math.max(0, time)), point };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+export function buildPlaybackTimeline(entry: SessionEntry, duration?: number): PlaybackTimeline {
+  const length = duration ?? entry.audio?.duration ?? entry.voiceAnalysis?.duration ?? 0;
+  const words = entry.transcript?.words ?? [];
+  return {
+    duration: length,
+    words,
+    prosody: entry.voiceAnalysis?.timeSeries ?? [],
+    emergences: timeEmergences(entry.inputData, entry.analysis.emergencePoints, words, length)
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeProsody, decodeWav, encodeWav, estimatePitch, rms, zeroCrossingRate, type PcmAudio } from './prosody';
+import { createRandom } from './random';
+
+const SAMPLE_RATE = 16000;
+
+// A sine at `frequency`, optionally pulsed on and off `bursts` times a second like syllables
+function tone(frequency: number, seconds: number, bursts = 0): PcmAudio {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    const envelope = bursts > 0 ? Math.sin(Math.PI * bursts * time) ** 2 : 1;
+    samples[i] = 0.5 * envelope * Math.sin(2 * Math.PI * frequency * time);
+  }
+  return { sampleRate: SAMPLE_RATE, samples };
+}
+
+// The same tone as a 16-bit WAV file, read back the way an uploaded recording would be
+function wavFixture(frequency: number, seconds: number, bursts = 0): PcmAudio {
+  return decodeWav(encodeWav(tone(frequency, seconds, bursts)));
+}
+
+describe('estimatePitch', () => {
+  it('finds the frequency of a voiced frame', () => {
+    const { samples } = tone(220, 0.04);
+    expect(estimatePitch(samples, SAMPLE_RATE)).toBeCloseTo(220, 0);
+  });
+
+  it('returns null for frames without a period', () => {
+    expect(estimatePitch(new Float32Array(640), SAMPLE_RATE)).toBeNull();
+    const random = createRandom(1);
+    const noise = Float32Array.from({ length: 640 }, () => random() * 2 - 1);
+    expect(estimatePitch(noise, SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('frame measures', () => {
+  it('computes RMS and zero-crossing rate', () => {
+    const { samples } = tone(400, 0.1);
+    expect(rms(samples)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(zeroCrossingRate(samples)).toBeCloseTo((2 * 400) / SAMPLE_RATE, 2);
+  });
+});
+
+describe('analyzeProsody', () => {
+  it('tracks a steady tone as voiced with a flat pitch', () => {
+    const features = analyzeProsody(wavFixture(150, 1));
+    expect(features.pitchMean).toBeCloseTo(150, 0);
+    expect(features.pitchMax! - features.pitchMin!).toBeLessThan(5);
+    expect(features.voicedFraction).toBeGreaterThan(0.9);
+    expect(features.jitter).toBeLessThan(0.01);
+    expect(features.timeSeries.length).toBeGreaterThan(5);
+  });
+
+  it('counts pulses of sound as syllables', () => {
+    const features = analyzeProsody(wavFixture(180, 2, 4));
+    expect(features.syllableCount).toBeGreaterThanOrEqual(7);
+    expect(features.syllableCount).toBeLessThanOrEqual(9);
+    expect(features.syllableRate).toBeCloseTo(features.syllableCount / 2);
+  });
+
+  it('reports no pitch for silence', () => {
+    const features = analyzeProsody({ sampleRate: SAMPLE_RATE, samples: new Float32Array(SAMPLE_RATE) });
+    expect(features.pitchMean).toBeNull();
+    expect(features.jitter).toBeNull();
+    expect(features.syllableCount).toBe(0);
+    expect(features.voicedFraction).toBe(0);
+  });
+});
+
+describe('WAV encoding', () => {
+  it('round-trips samples at 16-bit precision', () => {
+    const audio = tone(300, 0.05);
+    const decoded = decodeWav(encodeWav(audio));
+    expect(decoded.sampleRate).toBe(SAMPLE_RATE);
+    expect(decoded.samples.length).toBe(audio.samples.length);
+    audio.samples.forEach((sample, index) => {
+      expect(Math.abs(decoded.samples[index] - sample)).toBeLessThan(1 / 16384);
+    });
+  });
+});
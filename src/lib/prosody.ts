@@ -0,0 +1,407 @@
+// Prosodic and spectral features from mono PCM: YIN pitch contour, jitter,
+// shimmer, spectral centroid/rolloff, zero-crossing rate and syllable nuclei.
+// Pure functions over sample buffers so they can run on decoded recordings or synthetic WAVs.
+
+export interface PcmAudio {
+  sampleRate: number;
+  samples: Float32Array; // mono, -1..1
+}
+
+export interface ProsodyFrame {
+  time: number; // seconds from the start
+  pitch: number | null; // Hz, null when unvoiced
+  energy: number; // RMS, 0-1
+  spectralCentroid: number; // Hz
+}
+
+export interface ProsodyFeatures {
+  pitchMean: number | null; // Hz over voiced frames
+  pitchMin: number | null;
+  pitchMax: number | null;
+  pitchStdDev: number | null;
+  jitter: number | null; // mean relative period change between consecutive voiced frames
+  shimmer: number | null; // mean relative amplitude change between consecutive voiced frames
+  spectralCentroid: number; // Hz, mean over non-silent frames
+  spectralRolloff: number; // Hz below which 85% of the spectral energy lies
+  zeroCrossingRate: number; // crossings per sample, mean over non-silent frames
+  syllableCount: number;
+  syllableRate: number; // syllables per second of audio
+  voicedFraction: number; // share of frames with a pitch
+  timeSeries: ProsodyFrame[]; // one point per TIME_SERIES_STEP
+}
+
+export interface PitchOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number; // YIN absolute threshold
+}
+
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.016;
+const TIME_SERIES_STEP = 0.1;
+const ROLLOFF_FRACTION = 0.85;
+const MIN_SILENCE_RMS = 0.005;
+const SILENCE_RELATIVE_RMS = 0.05; // frames quieter than this share of the loudest are silence
+const SYLLABLE_DIP_DB = 2;
+const SYLLABLE_FLOOR_DB = 25; // below the loudest frame
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Reduced rather than spread: frame arrays from long recordings exceed the argument limit
+function maximum(values: number[], floor: number = -Infinity): number {
+  return values.reduce((max, value) => (value > max ? value : max), floor);
+}
+
+function minimum(values: number[]): number {
+  return values.reduce((min, value) => (value < min ? value : min), Infinity);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function nextPowerOfTwo(value: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(2, value)));
+}
+
+export function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / Math.max(1, frame.length));
+}
+
+export function zeroCrossingRate(frame: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / Math.max(1, frame.length - 1);
+}
+
+// YIN (de Cheveigné & Kawahara, 2002): cumulative mean normalized difference
+// with an absolute threshold and parabolic interpolation. Returns null for unvoiced frames.
+export function estimatePitch(frame: Float32Array, sampleRate: number, options: PitchOptions = {}): number | null {
+  const { minFrequency = 70, maxFrequency = 500, threshold = 0.15 } = options;
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const tauMax = Math.min(Math.ceil(sampleRate / minFrequency), Math.floor(frame.length / 2));
+  if (tauMax <= tauMin) return null;
+  const window = frame.length - tauMax;
+
+  const difference = new Float64Array(tauMax + 1);
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = frame[j] - frame[j + tau];
+      sum += delta * delta;
+    }
+    difference[tau] = sum;
+  }
+
+  const normalized = new Float64Array(tauMax + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    runningSum += difference[tau];
+    normalized[tau] = runningSum > 0 ? (difference[tau] * tau) / runningSum : 1;
+  }
+
+  let tau = tauMin;
+  while (tau < tauMax && normalized[tau] >= threshold) tau++;
+  if (tau >= tauMax) return null;
+  while (tau + 1 < tauMax && normalized[tau + 1] < normalized[tau]) tau++;
+
+  const previous = normalized[tau - 1];
+  const next = normalized[tau + 1] ?? normalized[tau];
+  const curvature = previous + next - 2 * normalized[tau];
+  const refined = curvature > 0 ? tau + (previous - next) / (2 * curvature) : tau;
+  return sampleRate / refined;
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
+
+// Hann-windowed magnitude spectrum, bins 0..n/2
+export function magnitudeSpectrum(frame: Float32Array): Float64Array {
+  const n = nextPowerOfTwo(frame.length);
+  const real = new Float64Array(n);
+  const imag = new Float64Array(n);
+  for (let i = 0; i < frame.length; i++) {
+    real[i] = frame[i] * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frame.length - 1)));
+  }
+  fft(real, imag);
+  const magnitudes = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) magnitudes[k] = Math.hypot(real[k], imag[k]);
+  return magnitudes;
+}
+
+export function spectralShape(magnitudes: Float64Array, sampleRate: number): { centroid: number; rolloff: number } {
+  const binWidth = sampleRate / (2 * (magnitudes.length - 1));
+  let weighted = 0;
+  let total = 0;
+  let energy = 0;
+  for (let k = 0; k < magnitudes.length; k++) {
+    weighted += k * binWidth * magnitudes[k];
+    total += magnitudes[k];
+    energy += magnitudes[k] * magnitudes[k];
+  }
+  if (total === 0) return { centroid: 0, rolloff: 0 };
+
+  let cumulative = 0;
+  let rolloffBin = magnitudes.length - 1;
+  for (let k = 0; k < magnitudes.length; k++) {
+    cumulative += magnitudes[k] * magnitudes[k];
+    if (cumulative >= ROLLOFF_FRACTION * energy) {
+      rolloffBin = k;
+      break;
+    }
+  }
+  return { centroid: weighted / total, rolloff: rolloffBin * binWidth };
+}
+
+function meanRelativeChange(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = mean(values);
+  if (average === 0) return null;
+  const changes = values.slice(1).map((value, index) => Math.abs(value - values[index]));
+  return mean(changes) / average;
+}
+
+// Syllable nuclei after de Jong & Wempe (2009): voiced intensity peaks above the
+// median and a floor relative to the loudest frame, separated by a dip of at least 2 dB
+function countSyllables(decibels: number[], voiced: boolean[]): number {
+  const smoothed = decibels.map((_, i) => mean(decibels.slice(Math.max(0, i - 1), i + 2)));
+  const threshold = Math.max(median(smoothed), maximum(smoothed) - SYLLABLE_FLOOR_DB);
+  let count = 0;
+  let lastPeak = -1;
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    const isPeak = smoothed[i] > smoothed[i - 1] && smoothed[i] >= smoothed[i + 1];
+    if (!isPeak || !voiced[i] || smoothed[i] < threshold) continue;
+    if (lastPeak >= 0) {
+      const dip = minimum(smoothed.slice(lastPeak, i + 1));
+      if (smoothed[i] - dip < SYLLABLE_DIP_DB) {
+        // Same nucleus; keep whichever peak is louder as the reference
+        if (smoothed[i] > smoothed[lastPeak]) lastPeak = i;
+        continue;
+      }
+    }
+    count++;
+    lastPeak = i;
+  }
+  return count;
+}
+
+export function analyzeProsody(audio: PcmAudio, pitchOptions: PitchOptions = {}): ProsodyFeatures {
+  const { samples, sampleRate } = audio;
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const hop = Math.max(1, Math.round(HOP_SECONDS * sampleRate));
+  const duration = samples.length / sampleRate;
+
+  const starts: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hop) starts.push(start);
+  if (starts.length === 0 && samples.length > 0) starts.push(0);
+
+  const frames = starts.map(start => samples.subarray(start, start + frameSize));
+  const energies = frames.map(rms);
+  const silence = Math.max(MIN_SILENCE_RMS, SILENCE_RELATIVE_RMS * maximum(energies, 0));
+
+  const series: ProsodyFrame[] = [];
+  // Runs of consecutive voiced frames; jitter and shimmer never compare across a gap
+  const periodRuns: number[][] = [[]];
+  const amplitudeRuns: number[][] = [[]];
+  const breakRun = () => {
+    if (periodRuns[periodRuns.length - 1].length > 0) {
+      periodRuns.push([]);
+      amplitudeRuns.push([]);
+    }
+  };
+  const centroids: number[] = [];
+  const rolloffs: number[] = [];
+  const crossingRates: number[] = [];
+  const voiced: boolean[] = [];
+
+  frames.forEach((frame, index) => {
+    const time = (starts[index] + frame.length / 2) / sampleRate;
+    if (energies[index] < silence) {
+      series.push({ time, pitch: null, energy: energies[index], spectralCentroid: 0 });
+      voiced.push(false);
+      breakRun();
+      return;
+    }
+
+    const pitch = estimatePitch(frame, sampleRate, pitchOptions);
+    const { centroid, rolloff } = spectralShape(magnitudeSpectrum(frame), sampleRate);
+    centroids.push(centroid);
+    rolloffs.push(rolloff);
+    crossingRates.push(zeroCrossingRate(frame));
+    voiced.push(pitch !== null);
+
+    if (pitch !== null) {
+      let peak = 0;
+      for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+      periodRuns[periodRuns.length - 1].push(1 / pitch);
+      amplitudeRuns[amplitudeRuns.length - 1].push(peak);
+    } else {
+      breakRun();
+    }
+    series.push({ time, pitch, energy: energies[index], spectralCentroid: centroid });
+  });
+
+  const relativeChange = (runs: number[][]) => {
+    const changes = runs.flatMap(run => meanRelativeChange(run) ?? []);
+    return changes.length > 0 ? mean(changes) : null;
+  };
+
+  const pitches = series.flatMap(frame => (frame.pitch !== null ? [frame.pitch] : []));
+  const pitchMean = pitches.length > 0 ? mean(pitches) : null;
+  const syllableCount = countSyllables(energies.map(energy => 20 * Math.log10(energy + 1e-10)), voiced);
+
+  return {
+    pitchMean,
+    pitchMin: pitches.length > 0 ? minimum(pitches) : null,
+    pitchMax: pitches.length > 0 ? maximum(pitches) : null,
+    pitchStdDev: pitchMean !== null ? Math.sqrt(mean(pitches.map(pitch => (pitch - pitchMean) ** 2))) : null,
+    jitter: relativeChange(periodRuns),
+    shimmer: relativeChange(amplitudeRuns),
+    spectralCentroid: mean(centroids),
+    spectralRolloff: mean(rolloffs),
+    zeroCrossingRate: mean(crossingRates),
+    syllableCount,
+    syllableRate: duration > 0 ? syllableCount / duration : 0,
+    voicedFraction: frames.length > 0 ? pitches.length / frames.length : 0,
+    timeSeries: downsampleSeries(series)
+  };
+}
+
+// Keeps stored analyses small: one averaged point per TIME_SERIES_STEP
+function downsampleSeries(series: ProsodyFrame[]): ProsodyFrame[] {
+  const buckets = new Map<number, ProsodyFrame[]>();
+  series.forEach(frame => {
+    const bucket = Math.floor(frame.time / TIME_SERIES_STEP);
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), frame]);
+  });
+  return Array.from(buckets.entries()).map(([bucket, frames]) => {
+    const pitches = frames.flatMap(frame => (frame.pitch !== null ? [frame.pitch] : []));
+    return {
+      time: Number((bucket * TIME_SERIES_STEP).toFixed(3)),
+      pitch: pitches.length > 0 ? mean(pitches) : null,
+      energy: mean(frames.map(frame => frame.energy)),
+      spectralCentroid: mean(frames.map(frame => frame.spectralCentroid))
+    };
+  });
+}
+
+// Reads 8/16/24/32-bit integer and 32-bit float PCM WAV files, mixing channels down to mono
+export function decodeWav(buffer: ArrayBuffer): PcmAudio {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === 0xfffe && size >= 26) audioFormat = view.getUint16(body + 24, true); // WAVE_FORMAT_EXTENSIBLE
+      format = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk appears before its format');
+      const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+      const bytesPerSample = bitsPerSample / 8;
+      const isFloat = audioFormat === 3 && bitsPerSample === 32;
+      if (!isFloat && (audioFormat !== 1 || ![8, 16, 24, 32].includes(bitsPerSample))) {
+        throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+      }
+
+      const length = Math.floor(Math.min(size, buffer.byteLength - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          const position = body + (i * channels + channel) * bytesPerSample;
+          if (isFloat) sum += view.getFloat32(position, true);
+          else if (bitsPerSample === 8) sum += (view.getUint8(position) - 128) / 128;
+          else if (bitsPerSample === 16) sum += view.getInt16(position, true) / 32768;
+          else if (bitsPerSample === 24) {
+            const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+            sum += value / 8388608;
+          } else sum += view.getInt32(position, true) / 2147483648;
+        }
+        samples[i] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    offset = body + size + (size % 2); // chunks are word aligned
+  }
+  throw new Error('WAV file has no audio data');
+}
+
+// 16-bit mono PCM
+export function encodeWav({ samples, sampleRate }: PcmAudio): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 32768 : clamped * 32767, true);
+  });
+  return buffer;
+}
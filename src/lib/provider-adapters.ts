@@ -0,0 +1,264 @@
+// Per-provider request/response adapters
+import { z } from 'zod';
+import type { ChatCompletionRequest } from './chat-completions';
+import type { TranscriptionRequest, TranscriptionResult } from './transcription';
+
+export type ProviderCapability = 'chat' | 'embeddings' | 'transcription';
+
+export type AuthScheme =
+  | { type: 'none' }
+  | { type: 'bearer'; optional?: boolean }
+  | { type: 'header'; header: string; optional?: boolean };
+
+export interface RateLimit {
+  requestsPerMinute: number;
+}
+
+export interface ProviderAdapter {
+  kind: string;
+  label: string;
+  auth: AuthScheme;
+  rateLimit: RateLimit;
+  capabilities: ProviderCapability[];
+  paths: Partial<Record<ProviderCapability, string>>;
+  keyPattern?: RegExp;
+  // The parse methods return null when a well-formed payload carries no content and
+  // throw ProviderResponseError when the payload does not have the expected shape
+  buildChatBody(request: ChatCompletionRequest): unknown;
+  parseChatResponse(payload: unknown): string | null;
+  parseChatStreamChunk(payload: unknown): string | null;
+  buildEmbeddingsBody(model: string, input: string[]): unknown;
+  parseEmbeddingsResponse(payload: unknown): number[][] | null;
+  buildTranscriptionForm(request: TranscriptionRequest): FormData;
+  parseTranscriptionResponse(payload: unknown): TranscriptionResult | null;
+}
+
+function buildOpenAIChatBody(request: ChatCompletionRequest) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature ?? 0.3,
+    max_tokens: request.maxTokens ?? 600,
+    ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    ...(request.stream ? { stream: true } : {})
+  };
+}
+
+export class ProviderResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderResponseError';
+  }
+}
+
+function parsePayload<T>(schema: z.ZodType<T>, payload: unknown, description: string): T {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.map(String).join('.') || '(root)';
+    throw new ProviderResponseError(`Malformed ${description}: ${path}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+const chatResponseSchema = z.object({
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullish() })
+  })).min(1)
+});
+
+// Role-only and final chunks have no content, and usage chunks have no choices
+const chatStreamChunkSchema = z.object({
+  choices: z.array(z.object({
+    delta: z.object({ content: z.string().nullish() }).optional()
+  }))
+});
+
+const embeddingsResponseSchema = z.object({
+  data: z.array(z.object({ embedding: z.array(z.number()) }))
+});
+
+function parseOpenAIChatResponse(payload: unknown): string | null {
+  const { choices } = parsePayload(chatResponseSchema, payload, 'chat completion response');
+  return choices[0].message.content ?? null;
+}
+
+function parseOpenAIChatStreamChunk(payload: unknown): string | null {
+  const { choices } = parsePayload(chatStreamChunkSchema, payload, 'chat completion stream chunk');
+  return choices[0]?.delta?.content ?? null;
+}
+
+function parseOpenAIEmbeddingsResponse(payload: unknown): number[][] | null {
+  const { data } = parsePayload(embeddingsResponseSchema, payload, 'embeddings response');
+  return data.map(item => item.embedding);
+}
+
+// Whisper verbose_json; word timings come either top level (timestamp_granularities=word)
+// or per segment (whisper.cpp server)
+function buildWhisperTranscriptionForm(request: TranscriptionRequest): FormData {
+  const form = new FormData();
+  form.append('file', request.audio, request.fileName ?? 'recording.webm');
+  form.append('model', request.model);
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'word');
+  form.append('timestamp_granularities[]', 'segment');
+  if (request.language) form.append('language', request.language);
+  return form;
+}
+
+const whisperWordSchema = z.object({ word: z.string(), start: z.number(), end: z.number() });
+
+const whisperSegmentSchema = z.object({ text: z.string(), start: z.number(), end: z.number() });
+
+// Words and segments are checked one by one; servers leave timings off some of them
+const whisperResponseSchema = z.object({
+  text: z.string(),
+  language: z.string().nullish(),
+  words: z.array(z.unknown()).nullish(),
+  segments: z.array(z.looseObject({ words: z.array(z.unknown()).nullish() })).nullish()
+});
+
+function parseWhisperWords(items: unknown[] | null | undefined): TranscriptionResult['words'] {
+  return (items ?? []).flatMap(item => {
+    const word = whisperWordSchema.safeParse(item);
+    return word.success && word.data.word.trim()
+      ? [{ word: word.data.word.trim(), start: word.data.start, end: word.data.end }]
+      : [];
+  });
+}
+
+function parseWhisperTranscriptionResponse(payload: unknown): TranscriptionResult | null {
+  const data = parsePayload(whisperResponseSchema, payload, 'transcription response');
+  const segments = data.segments ?? [];
+  const words = parseWhisperWords(data.words);
+  return {
+    text: data.text.trim(),
+    words: words.length > 0 ? words : segments.flatMap(segment => parseWhisperWords(segment.words)),
+    segments: segments.flatMap(segment => {
+      const parsed = whisperSegmentSchema.safeParse(segment);
+      return parsed.success ? [{ text: parsed.data.text.trim(), start: parsed.data.start, end: parsed.data.end }] : [];
+    }),
+    language: data.language ?? undefined
+  };
+}
+
+function createOpenAICompatibleAdapter(overrides: Partial<ProviderAdapter> & Pick<ProviderAdapter, 'kind' | 'label'>): ProviderAdapter {
+  return {
+    auth: { type: 'bearer' },
+    rateLimit: { requestsPerMinute: 60 },
+    capabilities: ['chat'],
+    paths: {
+      chat: '/chat/completions',
+      embeddings: '/embeddings',
+      transcription: '/audio/transcriptions'
+    },
+    buildChatBody: buildOpenAIChatBody,
+    parseChatResponse: parseOpenAIChatResponse,
+    parseChatStreamChunk: parseOpenAIChatStreamChunk,
+    buildEmbeddingsBody: (model, input) => ({ model, input }),
+    parseEmbeddingsResponse: parseOpenAIEmbeddingsResponse,
+    buildTranscriptionForm: buildWhisperTranscriptionForm,
+    parseTranscriptionResponse: parseWhisperTranscriptionResponse,
+    ...overrides
+  };
+}
+
+export const PROVIDER_ADAPTERS: Record<string, ProviderAdapter> = {
+  groq: createOpenAICompatibleAdapter({
+    kind: 'groq',
+    label: 'Groq',
+    rateLimit: { requestsPerMinute: 30 },
+    capabilities: ['chat', 'transcription'],
+    keyPattern: /^gsk_[A-Za-z0-9]{20,}$/
+  }),
+  huggingface: createOpenAICompatibleAdapter({
+    kind: 'huggingface',
+    label: 'Hugging Face',
+    rateLimit: { requestsPerMinute: 20 },
+    capabilities: ['chat'],
+    keyPattern: /^hf_[A-Za-z0-9]{20,}$/
+  }),
+  ollama: createOpenAICompatibleAdapter({
+    kind: 'ollama',
+    label: 'Ollama',
+    auth: { type: 'none' },
+    rateLimit: { requestsPerMinute: 600 },
+    capabilities: ['chat', 'embeddings']
+  }),
+  'llama-cpp': createOpenAICompatibleAdapter({
+    kind: 'llama-cpp',
+    label: 'llama.cpp server',
+    auth: { type: 'bearer', optional: true },
+    rateLimit: { requestsPerMinute: 600 },
+    capabilities: ['chat', 'embeddings']
+  }),
+  // whisper.cpp's example server; it ignores the model field
+  'whisper-cpp': createOpenAICompatibleAdapter({
+    kind: 'whisper-cpp',
+    label: 'whisper.cpp server',
+    auth: { type: 'none' },
+    rateLimit: { requestsPerMinute: 600 },
+    capabilities: ['transcription'],
+    paths: { transcription: '/inference' }
+  }),
+  'openai-compatible': createOpenAICompatibleAdapter({
+    kind: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    auth: { type: 'bearer', optional: true },
+    capabilities: ['chat', 'embeddings', 'transcription']
+  })
+};
+
+export function getAdapter(kind: string): ProviderAdapter {
+  return PROVIDER_ADAPTERS[kind] ?? PROVIDER_ADAPTERS['openai-compatible'];
+}
+
+export function requiresApiKey(adapter: ProviderAdapter): boolean {
+  return adapter.auth.type !== 'none' && !adapter.auth.optional;
+}
+
+export function buildAuthHeaders(adapter: ProviderAdapter, apiKey?: string): Record<string, string> {
+  if (!apiKey) return {};
+  switch (adapter.auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${apiKey}` };
+    case 'header':
+      return { [adapter.auth.header]: apiKey };
+    default:
+      return {};
+  }
+}
+
+// Returns an error message, or null when the key looks usable
+export function validateApiKey(adapter: ProviderAdapter, apiKey: string): string | null {
+  const key = apiKey.trim();
+  if (!key) {
+    return requiresApiKey(adapter) ? `${adapter.label} requires an API key` : null;
+  }
+  if (/\s/.test(key)) {
+    return 'API keys cannot contain whitespace';
+  }
+  if (adapter.keyPattern && !adapter.keyPattern.test(key)) {
+    return `This does not look like a ${adapter.label} API key`;
+  }
+  return null;
+}
+
+// Sliding one-minute window shared by every client of the same provider
+export class RateLimiter {
+  private timestamps: number[] = [];
+  private limit: RateLimit;
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+  }
+
+  tryAcquire(now: number = Date.now()): boolean {
+    this.timestamps = this.timestamps.filter(time => now - time < 60000);
+    if (this.timestamps.length >= this.limit.requestsPerMinute) {
+      return false;
+    }
+    this.timestamps.push(now);
+    return true;
+  }
+}
@@ -0,0 +1,202 @@
+import { AI_PROVIDERS, type AIProvider } from './ai-providers';
+import { getAdapter, RateLimiter, requiresApiKey, buildAuthHeaders, validateApiKey } from './provider-adapters';
+
+// Endpoint types users can add; whisper.cpp servers only transcribe
+export type CustomProviderKind = 'openai-compatible' | 'whisper-cpp';
+
+export interface CustomProviderInput {
+  kind?: CustomProviderKind; // defaults to 'openai-compatible'
+  name: string;
+  baseUrl: string;
+  model: string;
+  embeddingModel?: string;
+  apiKey?: string;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+export class ProviderRegistry {
+  private static readonly CUSTOM_PROVIDERS_KEY = 'glyphmind_custom_providers';
+  private static readonly API_KEYS_KEY = 'glyphmind_provider_keys';
+  private customProviders: AIProvider[];
+  private apiKeys: Record<string, string>;
+  private rateLimiters = new Map<string, RateLimiter>();
+
+  constructor() {
+    this.customProviders = this.load<AIProvider[]>(ProviderRegistry.CUSTOM_PROVIDERS_KEY, []);
+    this.apiKeys = this.load<Record<string, string>>(ProviderRegistry.API_KEYS_KEY, {});
+  }
+
+  private load<T>(key: string, fallback: T): T {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored) {
+        return JSON.parse(stored) as T;
+      }
+    } catch (error) {
+      console.error(`Error loading ${key}:`, error);
+    }
+    return fallback;
+  }
+
+  private save(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error saving ${key}:`, error);
+    }
+  }
+
+  listProviders(): AIProvider[] {
+    return [...AI_PROVIDERS, ...this.customProviders].map(provider => ({
+      ...provider,
+      // Keys entered in settings take precedence over build-time env keys
+      apiKey: this.apiKeys[provider.id] || provider.apiKey
+    }));
+  }
+
+  // Accepts an id, or a display name as stored by older preferences
+  getProvider(idOrName: string): AIProvider | null {
+    return this.listProviders().find(provider =>
+      provider.id === idOrName || provider.name === idOrName
+    ) || null;
+  }
+
+  getDefaultProvider(): AIProvider {
+    return this.listProviders()[0];
+  }
+
+  addCustomProvider(input: CustomProviderInput): AIProvider {
+    const kind = input.kind ?? 'openai-compatible';
+    const name = input.name.trim();
+    // whisper.cpp's server ignores the model field
+    const model = input.model.trim() || (kind === 'whisper-cpp' ? 'whisper-1' : '');
+    if (!name) throw new Error('Provider name is required');
+    if (!model) throw new Error('Model name is required');
+
+    let baseUrl: URL;
+    try {
+      baseUrl = new URL(input.baseUrl.trim());
+    } catch {
+      throw new Error('Base URL must be a valid URL, e.g. http://localhost:11434/v1');
+    }
+    if (baseUrl.protocol !== 'http:' && baseUrl.protocol !== 'https:') {
+      throw new Error('Base URL must use http or https');
+    }
+
+    const provider: AIProvider = {
+      id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      name,
+      kind,
+      baseUrl: baseUrl.toString().replace(/\/+$/, ''),
+      model,
+      embeddingModel: input.embeddingModel?.trim() || undefined,
+      free: isLocalUrl(baseUrl),
+      custom: true
+    };
+
+    this.customProviders.push(provider);
+    this.save(ProviderRegistry.CUSTOM_PROVIDERS_KEY, this.customProviders);
+
+    if (input.apiKey?.trim()) {
+      const error = this.setApiKey(provider.id, input.apiKey);
+      if (error) {
+        this.removeCustomProvider(provider.id);
+        throw new Error(error);
+      }
+    }
+
+    return { ...provider, apiKey: this.apiKeys[provider.id] };
+  }
+
+  removeCustomProvider(id: string): boolean {
+    const index = this.customProviders.findIndex(provider => provider.id === id);
+    if (index === -1) return false;
+
+    this.customProviders.splice(index, 1);
+    this.save(ProviderRegistry.CUSTOM_PROVIDERS_KEY, this.customProviders);
+    this.clearApiKey(id);
+    this.rateLimiters.delete(id);
+    return true;
+  }
+
+  // Returns a validation error, or null once the key is stored
+  setApiKey(id: string, apiKey: string): string | null {
+    const provider = this.getProvider(id);
+    if (!provider) return 'Unknown provider';
+
+    const error = validateApiKey(getAdapter(provider.kind), apiKey);
+    if (error) return error;
+
+    const key = apiKey.trim();
+    if (key) {
+      this.apiKeys[id] = key;
+    } else {
+      delete this.apiKeys[id];
+    }
+    this.save(ProviderRegistry.API_KEYS_KEY, this.apiKeys);
+    return null;
+  }
+
+  clearApiKey(id: string): void {
+    if (id in this.apiKeys) {
+      delete this.apiKeys[id];
+      this.save(ProviderRegistry.API_KEYS_KEY, this.apiKeys);
+    }
+  }
+
+  hasStoredApiKey(id: string): boolean {
+    return !!this.apiKeys[id];
+  }
+
+  isReady(provider: AIProvider): boolean {
+    return !!provider.apiKey || !requiresApiKey(getAdapter(provider.kind));
+  }
+
+  getRateLimiter(id: string): RateLimiter {
+    let limiter = this.rateLimiters.get(id);
+    if (!limiter) {
+      const provider = this.getProvider(id);
+      limiter = new RateLimiter(getAdapter(provider?.kind ?? '').rateLimit);
+      this.rateLimiters.set(id, limiter);
+    }
+    return limiter;
+  }
+
+  // Lists models to confirm both reachability and that the key is accepted
+  async testConnection(provider: AIProvider, fetchImpl: typeof fetch = fetch): Promise<ConnectionTestResult> {
+    const adapter = getAdapter(provider.kind);
+    try {
+      const response = await fetchImpl(`${provider.baseUrl}/models`, {
+        headers: buildAuthHeaders(adapter, provider.apiKey),
+        signal: AbortSignal.timeout(8000)
+      });
+      if (response.status === 401 || response.status === 403) {
+        return { ok: false, message: 'The provider rejected the API key' };
+      }
+      if (!response.ok) {
+        return { ok: false, message: `Provider responded with status ${response.status}` };
+      }
+      return { ok: true, message: `Connected to ${provider.name}` };
+    } catch (error) {
+      return { ok: false, message: `Could not reach ${provider.baseUrl}: ${(error as Error).message}` };
+    }
+  }
+}
+
+function isLocalUrl(url: URL): boolean {
+  return url.hostname === 'localhost' || url.hostname === '127.0.0.1' || url.hostname === '[::1]';
+}
+
+export function getProviderTier(provider: AIProvider): string {
+  try {
+    if (isLocalUrl(new URL(provider.baseUrl))) return 'Local';
+  } catch {
+    // fall through to the declared tier
+  }
+  if (provider.custom) return 'Custom';
+  return provider.free ? 'Free Tier' : 'Paid';
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, deriveSeed, hashString } from './random';
+
+describe('hashString', () => {
+  it('computes 32-bit FNV-1a', () => {
+    expect(hashString('')).toBe(0x811c9dc5);
+    expect(hashString('a')).toBe(0xe40c292c);
+    expect(hashString('foobar')).toBe(0xbf9cf968);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('uses the text hash alone without a user seed', () => {
+    expect(deriveSeed('glyph')).toBe(hashString('glyph'));
+    expect(deriveSeed('glyph', '')).toBe(hashString('glyph'));
+  });
+
+  it('gives each user seed its own variant', () => {
+    const variants = new Set([deriveSeed('glyph', 1), deriveSeed('glyph', 2), deriveSeed('glyph', 'team')]);
+    expect(variants.size).toBe(3);
+    expect(deriveSeed('glyph', 'team')).toBe(deriveSeed('glyph', 'team'));
+  });
+});
+
+describe('createRandom', () => {
+  const take = (seed: number, count: number) => {
+    const random = createRandom(seed);
+    return Array.from({ length: count }, () => random());
+  };
+
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(42, 10)).toEqual(take(42, 10));
+    expect(take(42, 10)).not.toEqual(take(43, 10));
+  });
+
+  it('stays within [0, 1) and spreads across it', () => {
+    const values = take(7, 10000);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.48);
+    expect(mean).toBeLessThan(0.52);
+  });
+});
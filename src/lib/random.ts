@@ -0,0 +1,31 @@
+// Seeded randomness so identical input always yields identical glyphs
+export type RandomSource = () => number;
+
+// 32-bit FNV-1a
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Combines the input hash with an optional user seed so a team can share a "variant"
+export function deriveSeed(text: string, userSeed?: string | number): number {
+  const base = hashString(text);
+  if (userSeed === undefined || userSeed === '') return base;
+  return hashString(`${base}:${userSeed}`);
+}
+
+// mulberry32: tiny, fast and good enough for visuals
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
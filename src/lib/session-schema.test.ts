@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEmergencePoints, parseSessionExport, serializeSession, SESSION_FORMAT, SESSION_SCHEMA_VERSION } from './session-schema';
+import type { FavoriteGlyph, SessionEntry, UserSession } from './session-storage';
+
+const SNAPSHOT = 'data:image/png;base64,AAAA';
+
+function entry(id: string, overrides: Partial<SessionEntry> = {}): SessionEntry {
+  return {
+    id,
+    timestamp: 1700000000000,
+    inputType: 'text',
+    inputData: `Text of ${id}`,
+    analysis: {
+      cognitiveLoad: 40,
+      emotionalIntensity: 60,
+      symbolicDensity: 30,
+      temporalFlow: 50,
+      emergencePoints: [],
+      meaningSignature: 'quiet-river',
+      glyphData: { shape: 'spiral', frequency: 1.5, color: '#8b5cf6', complexity: 3 }
+    },
+    tags: ['calm'],
+    ...overrides
+  };
+}
+
+function session(entries: SessionEntry[]): UserSession {
+  return {
+    id: 'session_1',
+    name: 'Evening notes',
+    startTime: 1700000000000,
+    entries,
+    totalAnalyses: entries.length,
+    favoriteGlyphs: [],
+    preferences: {
+      aiProvider: 'groq',
+      autoAnalyze: true,
+      saveHistory: true,
+      darkMode: true,
+      glyphSeed: '',
+      speechLanguage: 'en-US',
+      transcriptionProvider: 'groq'
+    }
+  };
+}
+
+function favorite(id: string, entryId: string): FavoriteGlyph {
+  return { id, entryId, snapshot: SNAPSHOT, title: `Favorite ${id}`, collection: 'Favorites', createdAt: 1700000000000 };
+}
+
+function errorsOf(json: string) {
+  const result = parseSessionExport(json);
+  if (result.ok) throw new Error('Expected the import to fail');
+  return result.errors;
+}
+
+describe('parseSessionExport', () => {
+  it('reads back a serialized session', () => {
+    const result = parseSessionExport(serializeSession(session([entry('a'), entry('b')])));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fromVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(result.session.name).toBe('Evening notes');
+    expect(result.session.entries.map(e => e.id)).toEqual(['a', 'b']);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('migrates a version 1 bare session', () => {
+    const legacy = {
+      id: 'old',
+      startTime: 1600000000000,
+      totalAnalyses: 1,
+      entries: [{
+        ...entry('a', { glyphSnapshot: SNAPSHOT }),
+        analysis: { ...entry('a').analysis, emergencePoints: [25, 80] }
+      }],
+      favoriteGlyphs: [SNAPSHOT],
+      preferences: {}
+    };
+    const result = parseSessionExport(JSON.stringify(legacy));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fromVersion).toBe(1);
+    expect(result.session.name).toMatch(/^Session of /);
+    expect(result.session.entries[0].analysis.emergencePoints.map(point => point.timestamp)).toEqual([25, 80]);
+    expect(result.session.favoriteGlyphs).toHaveLength(1);
+    expect(result.session.favoriteGlyphs[0]).toMatchObject({ entryId: 'a', snapshot: SNAPSHOT, collection: 'Favorites' });
+  });
+
+  it.each([0, -1, 1.5])('rejects schema version %s', version => {
+    const json = JSON.stringify({ format: SESSION_FORMAT, schemaVersion: version, exportedAt: 0, session: session([]) });
+    expect(errorsOf(json)).toEqual([
+      { path: 'schemaVersion', message: `Version ${version} is not a session format this app can read` }
+    ]);
+  });
+
+  it('rejects versions newer than the app', () => {
+    const json = JSON.stringify({ format: SESSION_FORMAT, schemaVersion: SESSION_SCHEMA_VERSION + 1, session: {} });
+    expect(errorsOf(json)[0].message).toMatch(/newer than this app supports/);
+  });
+
+  it('rejects files that are not sessions', () => {
+    expect(errorsOf('{"format":"glyphmind-session","schemaVersion":"2"}')[0].message).toBe('Not a GlyphMind session file');
+    expect(errorsOf('{"hello":"world"}')[0].message).toBe('Not a GlyphMind session file');
+    expect(errorsOf('not json')[0].message).toMatch(/^Not valid JSON/);
+  });
+
+  it('skips invalid entries and keeps the rest', () => {
+    const broken = { ...entry('b'), analysis: { ...entry('b').analysis, cognitiveLoad: 140 } };
+    const result = parseSessionExport(serializeSession(session([entry('a'), broken as SessionEntry])));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.session.entries.map(e => e.id)).toEqual(['a']);
+    expect(result.skipped[0].path).toBe('session.entries.1.analysis.cognitiveLoad');
+  });
+  it('skips invalid favorites and keeps the rest', () => {
+    const file = session([entry('a')]);
+    file.favoriteGlyphs = [favorite('f1', 'a'), { ...favorite('f2', 'a'), snapshot: 'not an image' }, favorite('f3', 'a')];
+    const result = parseSessionExport(serializeSession(file));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.session.entries).toHaveLength(1);
+    expect(result.session.favoriteGlyphs.map(f => f.id)).toEqual(['f1', 'f3']);
+    expect(result.skipped.map(issue => issue.path)).toEqual(['session.favoriteGlyphs.1.snapshot']);
+  });
+
+  it('drops favorites of skipped entries', () => {
+    const broken = { ...entry('b'), inputType: 'smell' };
+    const file = session([entry('a'), broken as unknown as SessionEntry]);
+    file.favoriteGlyphs = [favorite('f1', 'a'), favorite('f2', 'b')];
+    const result = parseSessionExport(serializeSession(file));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.session.favoriteGlyphs.map(f => f.id)).toEqual(['f1']);
+    expect(result.skipped).toEqual([
+      expect.objectContaining({ path: 'session.entries.1.inputType' }),
+      { path: 'session.favoriteGlyphs.1.entryId', message: 'Entry b is skipped' }
+    ]);
+  });
+});
+
+describe('normalizeEmergencePoints', () => {
+  it('turns bare percentages from older sessions into records', () => {
+    expect(normalizeEmergencePoints([12.4, 80])).toEqual([
+      { timestamp: 12.4, intensity: 0.5, description: 'Emergence at 12% of the text', trigger: 'emotional', start: 0, end: 0 },
+      { timestamp: 80, intensity: 0.5, description: 'Emergence at 80% of the text', trigger: 'emotional', start: 0, end: 0 }
+    ]);
+  });
+
+  it('keeps records and drops anything else', () => {
+    const point = { timestamp: 40, intensity: 0.9, description: 'Emotional surge in sentence 2', trigger: 'emotional', start: 10, end: 32 };
+    expect(normalizeEmergencePoints([point, null, 'late', 55])).toEqual([point, expect.objectContaining({ timestamp: 55 })]);
+    expect(normalizeEmergencePoints(undefined)).toEqual([]);
+    expect(normalizeEmergencePoints({ timestamp: 40 })).toEqual([]);
+  });
+});
@@ -0,0 +1,365 @@
+// Versioned file format for session export/import, validated with zod
+import { z } from 'zod';
+import type { EmergencePoint } from './ai-providers';
+import type { FavoriteGlyph, SessionEntry, UserSession } from './session-storage';
+
+export const SESSION_FORMAT = 'glyphmind-session';
+export const SESSION_SCHEMA_VERSION = 2;
+
+const metricSchema = z.number().min(0).max(100);
+
+const emergencePointSchema = z.object({
+  timestamp: z.number(),
+  intensity: z.number().min(0).max(1),
+  description: z.string(),
+  trigger: z.enum(['emotional', 'cognitive']),
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative()
+});
+
+export const analysisSchema = z.object({
+  cognitiveLoad: metricSchema,
+  emotionalIntensity: metricSchema,
+  symbolicDensity: metricSchema,
+  temporalFlow: metricSchema,
+  emergencePoints: z.array(emergencePointSchema),
+  meaningSignature: z.string(),
+  seed: z.number().int().optional(),
+  language: z.enum(['en', 'es', 'fr', 'de', 'ja']).optional(),
+  symbolism: z.object({
+    archetype: z.string(),
+    mood: z.string(),
+    themes: z.array(z.string())
+  }).optional(),
+  glyphData: z.object({
+    shape: z.string(),
+    frequency: z.number().positive(),
+    color: z.string(),
+    complexity: z.number().nonnegative()
+  })
+});
+
+const voiceAnalysisSchema = z.object({
+  duration: z.number().nonnegative(),
+  averageVolume: z.number(),
+  peakVolume: z.number(),
+  silencePeriods: z.array(z.number()),
+  speechRate: z.number().nonnegative(),
+  emotionalTone: z.enum(['calm', 'excited', 'stressed', 'neutral']),
+  pitchMean: z.number().nullable().optional(),
+  pitchMin: z.number().nullable().optional(),
+  pitchMax: z.number().nullable().optional(),
+  pitchStdDev: z.number().nullable().optional(),
+  jitter: z.number().nullable().optional(),
+  shimmer: z.number().nullable().optional(),
+  spectralCentroid: z.number().optional(),
+  spectralRolloff: z.number().optional(),
+  zeroCrossingRate: z.number().optional(),
+  syllableCount: z.number().int().nonnegative().optional(),
+  syllableRate: z.number().nonnegative().optional(),
+  voicedFraction: z.number().min(0).max(1).optional(),
+  timeSeries: z.array(z.object({
+    time: z.number(),
+    pitch: z.number().nullable(),
+    energy: z.number(),
+    spectralCentroid: z.number()
+  })).optional()
+});
+
+export const sessionEntrySchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.number(),
+  inputType: z.enum(['text', 'voice', 'symbol']),
+  inputData: z.string(),
+  analysis: analysisSchema,
+  voiceAnalysis: voiceAnalysisSchema.optional(),
+  glyphSnapshot: z.string().startsWith('data:image/').optional(),
+  tags: z.array(z.string()),
+  customTags: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+  moodRating: z.number().int().min(1).max(5).optional(),
+  analysisDuration: z.number().nonnegative().optional(),
+  transcript: z.object({
+    text: z.string(),
+    words: z.array(z.object({ word: z.string(), start: z.number(), end: z.number() })),
+    source: z.enum(['whisper', 'speech-recognition']),
+    provider: z.string().optional(),
+    timingsEstimated: z.boolean()
+  }).optional(),
+  audio: z.object({
+    mimeType: z.string(),
+    size: z.number().nonnegative(),
+    duration: z.number().nonnegative()
+  }).optional(),
+  symbolImage: z.string().startsWith('data:image/').optional(),
+  imageFeatures: z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    palette: z.array(z.object({ color: z.string(), share: z.number().min(0).max(1) })),
+    saturation: z.number().min(0).max(1),
+    brightness: z.number().min(0).max(1),
+    contrast: z.number().min(0).max(1),
+    edgeDensity: z.number().min(0).max(1),
+    bilateralSymmetry: z.number().min(0).max(1),
+    symmetryAxis: z.enum(['vertical', 'horizontal']),
+    radialSymmetry: z.number().min(0).max(1),
+    folds: z.number().int().positive(),
+    contourCount: z.number().int().nonnegative(),
+    entropy: z.number().nonnegative(),
+    figureShare: z.number().min(0).max(1)
+  }).optional()
+});
+
+const favoriteSchema = z.object({
+  id: z.string().min(1),
+  entryId: z.string(),
+  snapshot: z.string().startsWith('data:image/'),
+  title: z.string(),
+  collection: z.string(),
+  createdAt: z.number()
+});
+
+// Missing keys fall back to the defaults in SessionManager
+const preferencesSchema = z.object({
+  aiProvider: z.string(),
+  autoAnalyze: z.boolean(),
+  saveHistory: z.boolean(),
+  darkMode: z.boolean(),
+  glyphSeed: z.string(),
+  speechLanguage: z.string(),
+  transcriptionProvider: z.string()
+}).partial();
+
+// Entries and favorites are validated one by one so a single bad one does not sink the file
+const sessionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  archived: z.boolean().optional(),
+  startTime: z.number(),
+  totalAnalyses: z.number().int().nonnegative(),
+  favoriteGlyphs: z.array(z.unknown()),
+  preferences: preferencesSchema,
+  entries: z.array(z.unknown())
+});
+
+const envelopeSchema = z.object({
+  format: z.literal(SESSION_FORMAT),
+  schemaVersion: z.literal(SESSION_SCHEMA_VERSION),
+  exportedAt: z.number(),
+  session: sessionSchema
+});
+
+export interface ImportIssue {
+  path: string;
+  message: string;
+}
+
+export type SessionImportResult =
+  | {
+    ok: true;
+    session: UserSession;
+    fromVersion: number;
+    skipped: ImportIssue[]; // entries and favorites left out because they failed validation
+  }
+  | { ok: false; errors: ImportIssue[] };
+
+function favoriteId(): string {
+  return `favorite_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Generated and user tags together, without duplicates
+export function entryTags(entry: SessionEntry): string[] {
+  return [...new Set([...entry.tags, ...(entry.customTags ?? [])])];
+}
+
+export function defaultFavoriteTitle(entry: SessionEntry): string {
+  const text = entry.inputData.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text || entry.analysis.glyphData.shape;
+}
+
+// Entries saved before emergence points were structured stored bare 0-100 positions
+export function normalizeEmergencePoints(points: unknown): EmergencePoint[] {
+  if (!Array.isArray(points)) return [];
+  return points.flatMap(point => {
+    if (typeof point === 'number') {
+      return [{
+        timestamp: point,
+        intensity: 0.5,
+        description: `Emergence at ${Math.round(point)}% of the text`,
+        trigger: 'emotional' as const,
+        start: 0,
+        end: 0
+      }];
+    }
+    return point && typeof point === 'object' ? [point as EmergencePoint] : [];
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Version 1 stored favorites as bare base64 snapshots; match them to entries by snapshot.
+// Anything else is passed through for the caller to validate.
+export function migrateFavorites<T>(
+  favorites: Array<T | string>,
+  entries: SessionEntry[],
+  startTime: number
+): Array<T | FavoriteGlyph> {
+  return favorites.map((favorite, index) => {
+    if (typeof favorite !== 'string') return favorite;
+    const entry = entries.find(e => e.glyphSnapshot === favorite);
+    return {
+      id: favoriteId(),
+      entryId: entry?.id ?? '',
+      snapshot: favorite,
+      title: entry ? defaultFavoriteTitle(entry) : `Glyph ${index + 1}`,
+      collection: 'Favorites',
+      createdAt: entry?.timestamp ?? startTime
+    };
+  });
+}
+
+// Migrations see the file before validation, so they check every field they touch
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 was the bare UserSession: no envelope or session name, favorites as
+  // snapshots and emergence points as plain 0-100 positions
+  1: (session) => {
+    const entries = Array.isArray(session.entries)
+      ? session.entries.map((entry: unknown) =>
+        isRecord(entry) && isRecord(entry.analysis)
+          ? { ...entry, analysis: { ...entry.analysis, emergencePoints: normalizeEmergencePoints(entry.analysis.emergencePoints) } }
+          : entry
+      )
+      : session.entries;
+    const startTime = typeof session.startTime === 'number' ? session.startTime : Date.now();
+    // Favorites are matched by snapshot against the entries that will be imported
+    const validEntries = Array.isArray(entries)
+      ? entries.flatMap(entry => {
+        const parsed = sessionEntrySchema.safeParse(entry);
+        return parsed.success ? [parsed.data] : [];
+      })
+      : [];
+    return {
+      format: SESSION_FORMAT,
+      schemaVersion: 2,
+      exportedAt: Date.now(),
+      session: {
+        ...session,
+        entries,
+        startTime,
+        name: typeof session.name === 'string' && session.name
+          ? session.name
+          : `Session of ${new Date(startTime).toLocaleDateString()}`,
+        favoriteGlyphs: migrateFavorites<unknown>(
+          Array.isArray(session.favoriteGlyphs) ? session.favoriteGlyphs : [],
+          validEntries,
+          startTime
+        ),
+        preferences: session.preferences ?? {}
+      }
+    };
+  }
+};
+
+function detectVersion(data: Record<string, unknown>): number | null {
+  if (data.format === SESSION_FORMAT) {
+    return typeof data.schemaVersion === 'number' ? data.schemaVersion : null;
+  }
+  // Bare sessions predate the envelope
+  return 'id' in data && 'entries' in data ? 1 : null;
+}
+
+function toIssues(error: z.ZodError, prefix: string = ''): ImportIssue[] {
+  return error.issues.map(issue => ({
+    path: [prefix, ...issue.path.map(String)].filter(Boolean).join('.') || '(root)',
+    message: issue.message
+  }));
+}
+
+export function serializeSession(session: UserSession): string {
+  return JSON.stringify({
+    format: SESSION_FORMAT,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    session
+  }, null, 2);
+}
+
+export function parseSessionExport(json: string): SessionImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, errors: [{ path: '(root)', message: `Not valid JSON: ${(error as Error).message}` }] };
+  }
+
+  const fromVersion = isRecord(data) ? detectVersion(data) : null;
+  if (!isRecord(data) || fromVersion === null) {
+    return { ok: false, errors: [{ path: '(root)', message: 'Not a GlyphMind session file' }] };
+  }
+  if (fromVersion > SESSION_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [{ path: 'schemaVersion', message: `Version ${fromVersion} is newer than this app supports (${SESSION_SCHEMA_VERSION})` }]
+    };
+  }
+
+  // Every step up to the current version needs a registered migration
+  const supported = Number.isInteger(fromVersion) && fromVersion >= 1 &&
+    Array.from({ length: SESSION_SCHEMA_VERSION - fromVersion }, (_, step) => fromVersion + step)
+      .every(version => version in MIGRATIONS);
+  if (!supported) {
+    return {
+      ok: false,
+      errors: [{ path: 'schemaVersion', message: `Version ${fromVersion} is not a session format this app can read` }]
+    };
+  }
+
+  let migrated = data;
+  for (let version = fromVersion; version < SESSION_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+
+  const envelope = envelopeSchema.safeParse(migrated);
+  if (!envelope.success) {
+    return { ok: false, errors: toIssues(envelope.error) };
+  }
+
+  const entries: SessionEntry[] = [];
+  const skipped: ImportIssue[] = [];
+  const skippedEntryIds = new Set<string>();
+  envelope.data.session.entries.forEach((raw, index) => {
+    const entry = sessionEntrySchema.safeParse(raw);
+    if (entry.success) {
+      entries.push(entry.data);
+    } else {
+      skipped.push(...toIssues(entry.error, `session.entries.${index}`));
+      if (isRecord(raw) && typeof raw.id === 'string') skippedEntryIds.add(raw.id);
+    }
+  });
+
+  // A favorite of a skipped entry would point at nothing once imported
+  const favoriteGlyphs: FavoriteGlyph[] = [];
+  envelope.data.session.favoriteGlyphs.forEach((raw, index) => {
+    const favorite = favoriteSchema.safeParse(raw);
+    if (!favorite.success) {
+      skipped.push(...toIssues(favorite.error, `session.favoriteGlyphs.${index}`));
+    } else if (skippedEntryIds.has(favorite.data.entryId)) {
+      skipped.push({ path: `session.favoriteGlyphs.${index}.entryId`, message: `Entry ${favorite.data.entryId} is skipped` });
+    } else {
+      favoriteGlyphs.push(favorite.data);
+    }
+  });
+
+  const { preferences, ...session } = envelope.data.session;
+  return {
+    ok: true,
+    session: { ...session, entries, favoriteGlyphs, preferences: preferences as UserSession['preferences'] },
+    fromVersion,
+    skipped
+  };
+}
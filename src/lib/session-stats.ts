@@ -0,0 +1,124 @@
+// Aggregate statistics over a session's entries for the stats dashboard
+import { entryTags } from './session-schema';
+import type { SessionEntry, UserSession } from './session-storage';
+
+export interface CountedValue {
+  value: string;
+  count: number;
+}
+
+export interface MetricPoint {
+  timestamp: number;
+  cognitiveLoad: number;
+  emotionalIntensity: number;
+  symbolicDensity: number;
+  temporalFlow: number;
+}
+
+export interface ActivityDay {
+  day: string; // local YYYY-MM-DD
+  count: number;
+}
+
+export interface SessionStats {
+  totalEntries: number;
+  totalAnalyses: number;
+  sessionDuration: number;
+  averageAnalysisTime: number; // ms, mean over entries with a measured latency
+  measuredAnalyses: number;
+  topTags: Array<{ tag: string; count: number }>;
+  glyphShapeDistribution: Array<{ shape: string; count: number }>;
+  archetypeCounts: CountedValue[];
+  moodCounts: CountedValue[];
+  metricTrend: MetricPoint[]; // oldest first
+  activity: ActivityDay[]; // oldest first, days with at least one entry
+  currentStreak: number;
+  longestStreak: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function countValues(values: string[]): CountedValue[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Day keys are compared through local noon so DST shifts never skip or repeat a day
+function previousDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return dayKey(new Date(year, month - 1, date, 12).getTime() - DAY_MS);
+}
+
+// Expects days sorted oldest first
+function streaks(days: string[], now: number): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && previousDay(day) === days[index - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const active = new Set(days);
+  // A streak is still current if the last entry was today or yesterday
+  let cursor = active.has(dayKey(now)) ? dayKey(now) : previousDay(dayKey(now));
+  let current = 0;
+  while (active.has(cursor)) {
+    current++;
+    cursor = previousDay(cursor);
+  }
+  return { current, longest };
+}
+
+export function computeSessionStats(session: UserSession, now: number = Date.now()): SessionStats {
+  const entries: SessionEntry[] = [...session.entries].sort((a, b) => a.timestamp - b.timestamp);
+
+  const latencies = entries
+    .map(entry => entry.analysisDuration)
+    .filter((duration): duration is number => duration !== undefined);
+  const averageAnalysisTime = latencies.length > 0
+    ? latencies.reduce((sum, duration) => sum + duration, 0) / latencies.length
+    : 0;
+
+  const activity = countValues(entries.map(entry => dayKey(entry.timestamp)))
+    .map(({ value, count }) => ({ day: value, count }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+  const { current, longest } = streaks(activity.map(day => day.day), now);
+
+  // Entries saved before symbolism was recorded are left out of these counts
+  const symbolisms = entries.flatMap(entry => entry.analysis.symbolism ?? []);
+
+  return {
+    totalEntries: entries.length,
+    totalAnalyses: session.totalAnalyses,
+    sessionDuration: now - session.startTime,
+    averageAnalysisTime,
+    measuredAnalyses: latencies.length,
+    topTags: countValues(entries.flatMap(entryTags))
+      .slice(0, 10)
+      .map(({ value, count }) => ({ tag: value, count })),
+    glyphShapeDistribution: countValues(entries.map(entry => entry.analysis.glyphData.shape))
+      .map(({ value, count }) => ({ shape: value, count })),
+    archetypeCounts: countValues(symbolisms.map(symbolism => symbolism.archetype)),
+    moodCounts: countValues(symbolisms.map(symbolism => symbolism.mood)),
+    metricTrend: entries.map(({ timestamp, analysis }) => ({
+      timestamp,
+      cognitiveLoad: analysis.cognitiveLoad,
+      emotionalIntensity: analysis.emotionalIntensity,
+      symbolicDensity: analysis.symbolicDensity,
+      temporalFlow: analysis.temporalFlow
+    })),
+    activity,
+    currentStreak: current,
+    longestStreak: longest
+  };
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSessionExport, serializeSession } from './session-schema';
+import { LocalStorageSessionStore, MemoryStorage } from './session-store';
+import { SessionManager, type SessionEntry, type UserSession } from './session-storage';
+
+function entry(id: string, timestamp: number): SessionEntry {
+  return {
+    id,
+    timestamp,
+    inputType: 'text',
+    inputData: `Entry ${id}`,
+    analysis: {
+      cognitiveLoad: 40,
+      emotionalIntensity: 60,
+      symbolicDensity: 30,
+      temporalFlow: 50,
+      emergencePoints: [],
+      meaningSignature: 'quiet-river',
+      glyphData: { shape: 'spiral', frequency: 1.5, color: '#8b5cf6', complexity: 3 }
+    },
+    tags: []
+  };
+}
+
+// The session as SessionImportDialog hands it over: serialized, then parsed back
+function exported(entries: SessionEntry[]): UserSession {
+  const result = parseSessionExport(serializeSession({
+    id: 'exported',
+    name: 'Exported',
+    startTime: 1700000000000,
+    entries,
+    totalAnalyses: entries.length,
+    favoriteGlyphs: [],
+    preferences: {
+      aiProvider: 'groq',
+      autoAnalyze: true,
+      saveHistory: true,
+      darkMode: true,
+      glyphSeed: '',
+      speechLanguage: 'en-US',
+      transcriptionProvider: 'groq'
+    }
+  }));
+  if (!result.ok) throw new Error('Fixture did not parse');
+  return result.session;
+}
+
+describe('SessionManager.importSession', () => {
+  let manager: SessionManager;
+
+  beforeEach(async () => {
+    const storage = new MemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    manager = await SessionManager.open(new LocalStorageSessionStore(storage));
+  });
+
+  it('merges a file only once however often it is imported', async () => {
+    const file = exported([1, 2, 3, 4, 5].map(n => entry(`e${n}`, 1700000000000 + n)));
+    for (let i = 0; i < 3; i++) {
+      await manager.importSession(file, 'merge');
+    }
+    await manager.flush();
+    expect(manager.getEntries()).toHaveLength(5);
+    expect(manager.getCurrentSession().totalAnalyses).toBe(5);
+  });
+
+  it('adds only the entries the open session lacks', async () => {
+    await manager.importSession(exported([entry('a', 1), entry('b', 2)]), 'merge');
+    await manager.importSession(exported([entry('b', 2), entry('c', 3)]), 'merge');
+    await manager.flush();
+    expect(manager.getEntries().map(e => e.inputData).sort()).toEqual(['Entry a', 'Entry b', 'Entry c']);
+  });
+
+  it('keeps entries with the same text from different moments', async () => {
+    await manager.importSession(exported([entry('a', 1)]), 'merge');
+    await manager.importSession(exported([{ ...entry('a', 2), id: 'later' }]), 'merge');
+    await manager.flush();
+    expect(manager.getEntries()).toHaveLength(2);
+  });
+});
@@ -1,5 +1,10 @@
-import { ResonanceAnalysis } from './ai-providers';
+import type { ResonanceAnalysis } from './ai-providers';
 import { VoiceAnalysis } from './voice-recorder';
+import { defaultFavoriteTitle, entryTags, migrateFavorites, normalizeEmergencePoints, serializeSession } from './session-schema';
+import { openSessionStore, type EntryPage, type EntryQuery, type SessionRecord, type SessionStore } from './session-store';
+import { computeSessionStats, type SessionStats } from './session-stats';
+import type { Transcript } from './transcription';
+import type { ImageFeatures } from './image-analysis';
 
 export interface SessionEntry {
   id: string;
@@ -9,100 +14,416 @@ export interface SessionEntry {
   analysis: ResonanceAnalysis;
   voiceAnalysis?: VoiceAnalysis;
   glyphSnapshot?: string; // Base64 encoded image
-  tags: string[];
-  notes?: string;
+  tags: string[]; // generated from the analysis
+  customTags?: string[]; // added by the user
+  notes?: string; // markdown
+  moodRating?: number; // 1-5, set by the user
+  analysisDuration?: number; // ms from request to final result
+  transcript?: Transcript; // voice entries: the recording's transcript with word timings
+  audio?: RecordingInfo; // the recording itself lives in the store's blob store
+  symbolImage?: string; // symbol entries: PNG data URL thumbnail of the uploaded image
+  imageFeatures?: ImageFeatures; // symbol entries: what the image analysis measured
+}
+
+export interface RecordingInfo {
+  mimeType: string;
+  size: number; // bytes
+  duration: number; // seconds
+}
+
+export type EntryDetails = Pick<
+  SessionEntry,
+  'voiceAnalysis' | 'glyphSnapshot' | 'analysisDuration' | 'transcript' | 'symbolImage' | 'imageFeatures'
+>;
+
+export type EntryAnnotations = Pick<SessionEntry, 'notes' | 'customTags' | 'moodRating'>;
+
+
+export interface FavoriteGlyph {
+  id: string;
+  entryId: string; // source SessionEntry; empty for favorites migrated from bare snapshots
+  snapshot: string; // PNG data URL
+  title: string;
+  collection: string;
+  createdAt: number;
 }
 
 export interface UserSession {
   id: string;
+  name: string;
+  archived?: boolean;
   startTime: number;
   entries: SessionEntry[];
   totalAnalyses: number;
-  favoriteGlyphs: string[];
+  favoriteGlyphs: FavoriteGlyph[];
   preferences: {
     aiProvider: string;
     autoAnalyze: boolean;
     saveHistory: boolean;
     darkMode: boolean;
+    glyphSeed: string; // mixed into the input hash; empty means "input only"
+    speechLanguage: string; // BCP 47 tag for speech recognition, see LANGUAGES
+    transcriptionProvider: string; // provider id; empty uses speech recognition only
   };
 }
 
+export type Preferences = UserSession['preferences'];
+
+export type ImportMode = 'new' | 'merge' | 'replace';
+
+export interface EntryFilters {
+  inputType?: SessionEntry['inputType'];
+  tags?: string[]; // entries with any of these tags
+  dateRange?: { start: number; end: number };
+}
+
+export type EntrySort = 'newest' | 'oldest' | 'cognitiveLoad' | 'emotionalIntensity' | 'symbolicDensity' | 'temporalFlow';
+
+// Shared by every session; the remaining preferences are kept per session
+const GLOBAL_PREFERENCE_KEYS = ['aiProvider', 'darkMode', 'transcriptionProvider'] as const;
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  startTime: number;
+  totalAnalyses: number;
+  archived: boolean;
+}
+
+// Text search and filters over a list of entries; metric sorts put the highest values first
+export function searchEntries(
+  entries: SessionEntry[],
+  query: string,
+  filters?: EntryFilters,
+  sort: EntrySort = 'newest'
+): SessionEntry[] {
+  let results = entries;
+
+  // Text search
+  if (query.trim()) {
+    const searchTerm = query.toLowerCase();
+    results = results.filter(entry => 
+      entry.inputData.toLowerCase().includes(searchTerm) ||
+      entry.analysis.meaningSignature.toLowerCase().includes(searchTerm) ||
+      (entry.notes ?? '').toLowerCase().includes(searchTerm) ||
+      entryTags(entry).some(tag => tag.toLowerCase().includes(searchTerm))
+    );
+  }
+
+  // Apply filters
+  if (filters) {
+    if (filters.inputType) {
+      results = results.filter(entry => entry.inputType === filters.inputType);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      results = results.filter(entry => 
+        filters.tags!.some(tag => entryTags(entry).includes(tag))
+      );
+    }
+
+    if (filters.dateRange) {
+      results = results.filter(entry => 
+        entry.timestamp >= filters.dateRange!.start && 
+        entry.timestamp <= filters.dateRange!.end
+      );
+    }
+  }
+
+  return [...results].sort((a, b) => {
+    if (sort === 'newest') return b.timestamp - a.timestamp;
+    if (sort === 'oldest') return a.timestamp - b.timestamp;
+    return b.analysis[sort] - a.analysis[sort];
+  });
+}
+
 export class SessionManager {
-  private static readonly STORAGE_KEY = 'glyphmind_session';
-  private static readonly MAX_ENTRIES = 100;
+  static readonly DEFAULT_COLLECTION = 'Favorites';
+  private static readonly DEFAULT_PREFERENCES: UserSession['preferences'] = {
+    aiProvider: 'groq',
+    autoAnalyze: true,
+    saveHistory: true,
+    darkMode: true,
+    glyphSeed: '',
+    speechLanguage: 'en-US',
+    transcriptionProvider: '' // speech recognition only, until a transcription service is chosen
+  };
+  private static readonly GLOBAL_PREFERENCES_KEY = 'glyphmind_preferences';
+  private static readonly ACTIVE_SESSION_KEY = 'glyphmind_active_session';
   private currentSession: UserSession;
+  // Records of every known session, the current one included
+  private sessions = new Map<string, SessionRecord>();
+  private store: SessionStore;
+  // Writes run one after another so the store sees them in the order they were made
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  private constructor(store: SessionStore) {
+    this.store = store;
+    this.currentSession = this.createNewSession();
+  }
 
-  constructor() {
-    this.currentSession = this.loadSession() || this.createNewSession();
+  // Opens the last active session, or the most recent unarchived one. Entries are held
+  // in memory without their snapshots; those are read on demand.
+  static async open(store?: SessionStore): Promise<SessionManager> {
+    const manager = new SessionManager(store ?? await openSessionStore());
+    try {
+      const records = await manager.store.listSessions();
+      records.forEach(record => manager.sessions.set(record.id, manager.normalizeRecord(record)));
+
+      const activeId = localStorage.getItem(SessionManager.ACTIVE_SESSION_KEY);
+      const candidates = [...manager.sessions.values()].sort((a, b) => b.startTime - a.startTime);
+      const active = candidates.find(record => record.id === activeId) ??
+        candidates.find(record => !record.archived) ??
+        candidates[0];
+      if (active) {
+        await manager.activate(active);
+      } else {
+        manager.sessions.set(manager.currentSession.id, manager.record());
+      }
+    } catch (error) {
+      console.error('Error loading session:', error);
+    }
+    return manager;
   }
 
-  private createNewSession(): UserSession {
-    return {
+  private createNewSession(name?: string): UserSession {
+    const session: UserSession = {
       id: this.generateId(),
+      name: name?.trim() || `Session ${this.sessions.size + 1}`,
       startTime: Date.now(),
       entries: [],
       totalAnalyses: 0,
       favoriteGlyphs: [],
-      preferences: {
-        aiProvider: 'Groq',
-        autoAnalyze: true,
-        saveHistory: true,
-        darkMode: true
-      }
+      preferences: { ...SessionManager.DEFAULT_PREFERENCES }
     };
+    return session;
+  }
+
+  private async activate(record: SessionRecord): Promise<void> {
+    await this.flush();
+    const { entries } = await this.store.queryEntries(record.id);
+    // Legacy favorites are matched to their entry by snapshot
+    if ((record.favoriteGlyphs as unknown[]).some(favorite => typeof favorite === 'string')) {
+      for (const entry of entries) {
+        entry.glyphSnapshot = await this.store.getSnapshot(entry.id) ?? undefined;
+      }
+    }
+    this.currentSession = this.normalizeSession({ ...record, entries });
+    this.currentSession.entries.forEach(entry => delete entry.glyphSnapshot);
+    this.sessions.set(record.id, this.record());
+    try {
+      localStorage.setItem(SessionManager.ACTIVE_SESSION_KEY, record.id);
+    } catch (error) {
+      console.error('Error saving active session:', error);
+    }
   }
 
   private generateId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private loadSession(): UserSession | null {
-    try {
-      const stored = localStorage.getItem(SessionManager.STORAGE_KEY);
-      if (stored) {
-        const session = JSON.parse(stored);
-        // Validate session structure
-        if (session.id && session.entries && Array.isArray(session.entries)) {
-          return session;
-        }
-      }
-    } catch (error) {
-      console.error('Error loading session:', error);
-    }
-    return null;
+  // Sessions saved before they could be named get a date-based name
+  private normalizeRecord<T extends SessionRecord>(session: T): T {
+    session.name = session.name || `Session of ${new Date(session.startTime).toLocaleDateString()}`;
+    return session;
+  }
+
+  private normalizeSession(session: UserSession): UserSession {
+    this.normalizeRecord(session);
+    session.entries.forEach(entry => {
+      entry.analysis.emergencePoints = normalizeEmergencePoints(entry.analysis.emergencePoints);
+    });
+    session.favoriteGlyphs = migrateFavorites(session.favoriteGlyphs || [], session.entries, session.startTime);
+    return session;
+  }
+
+  private persist(write: (store: SessionStore) => Promise<void>): void {
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(this.store))
+      .catch(error => console.error('Error saving session:', error));
+  }
+
+  private toRecord({ entries: _entries, ...record }: UserSession): SessionRecord {
+    return record;
+  }
+
+  private record(): SessionRecord {
+    return this.toRecord(this.currentSession);
   }
 
   private saveSession(): void {
-    try {
-      localStorage.setItem(SessionManager.STORAGE_KEY, JSON.stringify(this.currentSession));
-    } catch (error) {
-      console.error('Error saving session:', error);
-      // Handle storage quota exceeded
-      if (error instanceof DOMException && error.code === 22) {
-        this.cleanupOldEntries();
-        try {
-          localStorage.setItem(SessionManager.STORAGE_KEY, JSON.stringify(this.currentSession));
-        } catch (retryError) {
-          console.error('Failed to save session after cleanup:', retryError);
-        }
+    const record = this.record();
+    this.sessions.set(record.id, record);
+    this.persist(store => store.saveSession(record));
+  }
+
+  private saveEntry(entry: SessionEntry): void {
+    const record = this.record();
+    this.sessions.set(record.id, record);
+    this.persist(async store => {
+      await store.saveSession(record);
+      await store.putEntry(record.id, entry);
+    });
+  }
+
+  // Resolves once every write made so far has reached the store
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  listSessions(): SessionSummary[] {
+    return [...this.sessions.values()]
+      .map(({ id, name, startTime, totalAnalyses, archived }) => ({
+        id,
+        name,
+        startTime,
+        totalAnalyses,
+        archived: archived ?? false
+      }))
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  getCurrentSession(): SessionSummary {
+    return this.listSessions().find(session => session.id === this.currentSession.id)!;
+  }
+
+  async switchSession(id: string): Promise<boolean> {
+    const record = this.sessions.get(id);
+    if (!record) return false;
+    if (id !== this.currentSession.id) {
+      await this.activate(record);
+    }
+    return true;
+  }
+
+  // Creates, saves and switches to an empty session
+  async createSession(name?: string): Promise<SessionSummary> {
+    const session = this.createNewSession(name);
+    const record = this.toRecord(session);
+    this.sessions.set(record.id, record);
+    this.persist(store => store.saveSession(record));
+    await this.activate(record);
+    return this.getCurrentSession();
+  }
+
+  renameSession(id: string, name: string): void {
+    this.updateRecord(id, { name: name.trim() || this.sessions.get(id)?.name });
+  }
+
+  // Archived sessions stay available but are not opened on start-up
+  async archiveSession(id: string, archived: boolean = true): Promise<void> {
+    this.updateRecord(id, { archived });
+    if (archived && id === this.currentSession.id) {
+      await this.leaveSession(id);
+    }
+  }
+
+  // Copies entries under new ids; the copy is not switched to
+  async duplicateSession(id: string, name?: string): Promise<SessionSummary | null> {
+    const source = this.sessions.get(id);
+    if (!source) return null;
+    await this.flush();
+
+    const { entries } = await this.store.queryEntries(id);
+    const copy = this.createNewSession(name || `${source.name} (copy)`);
+    const entryIds = new Map(entries.map(entry => [entry.id, this.generateId()]));
+    const record: SessionRecord = {
+      ...this.toRecord(copy),
+      totalAnalyses: source.totalAnalyses,
+      preferences: { ...source.preferences },
+      favoriteGlyphs: source.favoriteGlyphs.map(favorite => ({
+        ...favorite,
+        id: this.generateId(),
+        entryId: entryIds.get(favorite.entryId) ?? favorite.entryId
+      }))
+    };
+
+    this.sessions.set(record.id, record);
+    this.persist(async store => {
+      await store.saveSession(record);
+      for (const entry of entries) {
+        const id = entryIds.get(entry.id)!;
+        const glyphSnapshot = await store.getSnapshot(entry.id) ?? undefined;
+        await store.putEntry(record.id, { ...entry, id, glyphSnapshot });
+        // Recordings are keyed by entry id, so each copy needs its own
+        const audio = entry.audio ? await store.getAudio(entry.id) : null;
+        if (audio) await store.putAudio(id, audio);
+      }
+    });
+    await this.flush();
+    return this.listSessions().find(session => session.id === record.id) ?? null;
+  }
+
+  // Moves every entry and favorite of `sourceId` into `targetId`, then deletes the source
+  async mergeSessions(sourceId: string, targetId: string): Promise<boolean> {
+    const source = this.sessions.get(sourceId);
+    const target = this.sessions.get(targetId);
+    if (!source || !target || sourceId === targetId) return false;
+    await this.flush();
+
+    const { entries } = await this.store.queryEntries(sourceId);
+    const starred = new Set(target.favoriteGlyphs.map(favorite => favorite.entryId));
+    const merged: SessionRecord = {
+      ...target,
+      totalAnalyses: target.totalAnalyses + source.totalAnalyses,
+      favoriteGlyphs: [
+        ...target.favoriteGlyphs,
+        ...source.favoriteGlyphs.filter(favorite => !favorite.entryId || !starred.has(favorite.entryId))
+      ]
+    };
+
+    this.sessions.set(targetId, merged);
+    this.sessions.delete(sourceId);
+    this.persist(async store => {
+      for (const entry of entries) {
+        const glyphSnapshot = await store.getSnapshot(entry.id) ?? undefined;
+        await store.putEntry(targetId, { ...entry, glyphSnapshot });
       }
+      await store.saveSession(merged);
+      await store.deleteSession(sourceId);
+    });
+
+    if (this.currentSession.id === sourceId || this.currentSession.id === targetId) {
+      await this.activate(merged);
     }
+    return true;
   }
 
-  private cleanupOldEntries(): void {
-    // Keep only the most recent entries
-    const keepCount = Math.floor(SessionManager.MAX_ENTRIES * 0.7);
-    this.currentSession.entries = this.currentSession.entries
-      .sort((a, b) => b.timestamp - a.timestamp)
-      .slice(0, keepCount);
+  async deleteSession(id: string): Promise<void> {
+    if (!this.sessions.has(id)) return;
+    this.sessions.delete(id);
+    this.persist(store => store.deleteSession(id));
+    if (id === this.currentSession.id) {
+      await this.leaveSession(id);
+    }
+  }
+
+  private updateRecord(id: string, updates: Partial<SessionRecord>): void {
+    const existing = this.sessions.get(id);
+    if (!existing) return;
+    const record = { ...existing, ...updates };
+    this.sessions.set(id, record);
+    if (id === this.currentSession.id) {
+      this.currentSession = { ...this.currentSession, ...updates };
+    }
+    this.persist(store => store.saveSession(record));
+  }
+
+  // Moves to the most recent other unarchived session, creating one if there is none
+  private async leaveSession(id: string): Promise<void> {
+    const next = this.listSessions().find(session => session.id !== id && !session.archived);
+    if (next) {
+      await this.activate(this.sessions.get(next.id)!);
+    } else {
+      await this.createSession();
+    }
   }
 
   addEntry(
     inputType: SessionEntry['inputType'],
     inputData: string,
     analysis: ResonanceAnalysis,
-    voiceAnalysis?: VoiceAnalysis,
-    glyphSnapshot?: string
+    details: EntryDetails = {}
   ): SessionEntry {
     const entry: SessionEntry = {
       id: this.generateId(),
@@ -110,23 +431,19 @@ export class SessionManager {
       inputType,
       inputData,
       analysis,
-      voiceAnalysis,
-      glyphSnapshot,
+      ...details,
       tags: this.generateTags(analysis),
       notes: ''
     };
 
-    this.currentSession.entries.unshift(entry); // Add to beginning
     this.currentSession.totalAnalyses++;
 
-    // Limit entries to prevent storage overflow
-    if (this.currentSession.entries.length > SessionManager.MAX_ENTRIES) {
-      this.currentSession.entries = this.currentSession.entries.slice(0, SessionManager.MAX_ENTRIES);
+    if (this.getPreferences().saveHistory) {
+      this.saveEntry(entry);
     }
 
-    if (this.currentSession.preferences.saveHistory) {
-      this.saveSession();
-    }
+    // Snapshots are stored separately and read back through getSnapshot
+    this.currentSession.entries.unshift({ ...entry, glyphSnapshot: undefined });
 
     return entry;
   }
@@ -154,6 +471,22 @@ export class SessionManager {
     return limit ? entries.slice(0, limit) : entries;
   }
 
+  // Custom tags are trimmed, lower-cased and kept apart from generated ones
+  annotateEntry(id: string, annotations: Partial<EntryAnnotations>): SessionEntry | null {
+    const entry = this.getEntry(id);
+    if (!entry) return null;
+    const updates: Partial<EntryAnnotations> = { ...annotations };
+    if (annotations.customTags) {
+      updates.customTags = [...new Set(annotations.customTags.map(tag => tag.trim().toLowerCase()))]
+        .filter(tag => tag && !entry.tags.includes(tag));
+    }
+    if (annotations.moodRating !== undefined) {
+      updates.moodRating = Math.min(5, Math.max(1, Math.round(annotations.moodRating)));
+    }
+    this.updateEntry(id, updates);
+    return this.getEntry(id);
+  }
+
   getEntry(id: string): SessionEntry | null {
     return this.currentSession.entries.find(entry => entry.id === id) || null;
   }
@@ -162,7 +495,7 @@ export class SessionManager {
     const index = this.currentSession.entries.findIndex(entry => entry.id === id);
     if (index !== -1) {
       this.currentSession.entries[index] = { ...this.currentSession.entries[index], ...updates };
-      this.saveSession();
+      this.saveEntry(this.currentSession.entries[index]);
       return true;
     }
     return false;
@@ -172,147 +505,247 @@ export class SessionManager {
     const index = this.currentSession.entries.findIndex(entry => entry.id === id);
     if (index !== -1) {
       this.currentSession.entries.splice(index, 1);
-      this.saveSession();
+      this.persist(store => store.deleteEntry(id));
       return true;
     }
     return false;
   }
 
-  addToFavorites(glyphSnapshot: string): void {
-    if (!this.currentSession.favoriteGlyphs.includes(glyphSnapshot)) {
-      this.currentSession.favoriteGlyphs.push(glyphSnapshot);
-      this.saveSession();
-    }
+  // Newest first, paged and filtered by the store's indexes rather than in memory
+  queryEntries(query?: EntryQuery): Promise<EntryPage> {
+    return this.flush().then(() => this.store.queryEntries(this.currentSession.id, query));
+  }
+
+  async getSnapshot(entryId: string): Promise<string | null> {
+    await this.flush();
+    return this.store.getSnapshot(entryId);
+  }
+
+  // Records the recording's details on the entry so history knows there is something to play
+  saveAudio(entryId: string, audio: Blob, duration: number): boolean {
+    const info: RecordingInfo = { mimeType: audio.type, size: audio.size, duration };
+    if (!this.updateEntry(entryId, { audio: info })) return false;
+    this.persist(store => store.putAudio(entryId, audio));
+    return true;
+  }
+
+  async getAudio(entryId: string): Promise<Blob | null> {
+    await this.flush();
+    return this.store.getAudio(entryId);
+  }
+
+  // One favorite per entry; returns the existing record if the entry is already starred
+  addToFavorites(entry: SessionEntry, snapshot: string, collection: string = SessionManager.DEFAULT_COLLECTION): FavoriteGlyph {
+    const existing = this.getFavoriteForEntry(entry.id);
+    if (existing) return existing;
+
+    const favorite: FavoriteGlyph = {
+      id: this.generateId(),
+      entryId: entry.id,
+      snapshot,
+      title: defaultFavoriteTitle(entry),
+      collection,
+      createdAt: Date.now()
+    };
+    this.currentSession.favoriteGlyphs.push(favorite);
+    this.saveSession();
+    return favorite;
   }
 
-  removeFromFavorites(glyphSnapshot: string): void {
-    const index = this.currentSession.favoriteGlyphs.indexOf(glyphSnapshot);
+  removeFromFavorites(id: string): void {
+    const index = this.currentSession.favoriteGlyphs.findIndex(favorite => favorite.id === id);
     if (index !== -1) {
       this.currentSession.favoriteGlyphs.splice(index, 1);
       this.saveSession();
     }
   }
 
-  getFavorites(): string[] {
-    return [...this.currentSession.favoriteGlyphs];
+  updateFavorite(id: string, updates: Partial<Pick<FavoriteGlyph, 'snapshot' | 'title' | 'collection'>>): FavoriteGlyph | null {
+    const index = this.currentSession.favoriteGlyphs.findIndex(favorite => favorite.id === id);
+    if (index === -1) return null;
+    this.currentSession.favoriteGlyphs[index] = { ...this.currentSession.favoriteGlyphs[index], ...updates };
+    this.saveSession();
+    return this.currentSession.favoriteGlyphs[index];
   }
 
-  updatePreferences(preferences: Partial<UserSession['preferences']>): void {
-    this.currentSession.preferences = { ...this.currentSession.preferences, ...preferences };
+  // Ids missing from `orderedIds` keep their relative order after the listed ones
+  reorderFavorites(orderedIds: string[]): void {
+    const rank = new Map(orderedIds.map((id, index) => [id, index]));
+    this.currentSession.favoriteGlyphs = [...this.currentSession.favoriteGlyphs].sort(
+      (a, b) => (rank.get(a.id) ?? orderedIds.length) - (rank.get(b.id) ?? orderedIds.length)
+    );
     this.saveSession();
   }
 
-  getPreferences(): UserSession['preferences'] {
-    return { ...this.currentSession.preferences };
+  getFavoriteForEntry(entryId: string): FavoriteGlyph | null {
+    return this.currentSession.favoriteGlyphs.find(favorite => favorite.entryId === entryId) || null;
   }
 
-  getSessionStats(): {
-    totalEntries: number;
-    totalAnalyses: number;
-    sessionDuration: number;
-    averageAnalysisTime: number;
-    topTags: Array<{ tag: string; count: number }>;
-    glyphShapeDistribution: Array<{ shape: string; count: number }>;
-  } {
-    const sessionDuration = Date.now() - this.currentSession.startTime;
-    const averageAnalysisTime = this.currentSession.entries.length > 0 
-      ? sessionDuration / this.currentSession.entries.length 
-      : 0;
-
-    // Calculate tag frequency
-    const tagCounts = new Map<string, number>();
-    this.currentSession.entries.forEach(entry => {
-      entry.tags.forEach(tag => {
-        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
-      });
-    });
-
-    const topTags = Array.from(tagCounts.entries())
-      .map(([tag, count]) => ({ tag, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
-
-    // Calculate glyph shape distribution
-    const shapeCounts = new Map<string, number>();
-    this.currentSession.entries.forEach(entry => {
-      const shape = entry.analysis.glyphData.shape;
-      shapeCounts.set(shape, (shapeCounts.get(shape) || 0) + 1);
-    });
+  getFavorites(): FavoriteGlyph[] {
+    return [...this.currentSession.favoriteGlyphs];
+  }
 
-    const glyphShapeDistribution = Array.from(shapeCounts.entries())
-      .map(([shape, count]) => ({ shape, count }))
-      .sort((a, b) => b.count - a.count);
+  updatePreferences(preferences: Partial<Preferences>): void {
+    const global = GLOBAL_PREFERENCE_KEYS.filter(key => key in preferences);
+    if (global.length > 0) {
+      const stored = this.getGlobalPreferences();
+      global.forEach(key => Object.assign(stored, { [key]: preferences[key] }));
+      try {
+        localStorage.setItem(SessionManager.GLOBAL_PREFERENCES_KEY, JSON.stringify(stored));
+      } catch (error) {
+        console.error('Error saving preferences:', error);
+      }
+    }
+    this.currentSession.preferences = { ...this.currentSession.preferences, ...preferences };
+    this.saveSession();
+  }
 
+  getPreferences(): Preferences {
+    // Sessions saved by older versions may lack newer preference keys
     return {
-      totalEntries: this.currentSession.entries.length,
-      totalAnalyses: this.currentSession.totalAnalyses,
-      sessionDuration,
-      averageAnalysisTime,
-      topTags,
-      glyphShapeDistribution
+      ...SessionManager.DEFAULT_PREFERENCES,
+      ...this.currentSession.preferences,
+      ...this.getGlobalPreferences()
     };
   }
 
-  exportSession(): string {
-    return JSON.stringify(this.currentSession, null, 2);
-  }
-
-  importSession(sessionData: string): boolean {
+  private getGlobalPreferences(): Partial<Preferences> {
     try {
-      const imported = JSON.parse(sessionData);
-      if (imported.id && imported.entries && Array.isArray(imported.entries)) {
-        this.currentSession = imported;
-        this.saveSession();
-        return true;
-      }
+      return JSON.parse(localStorage.getItem(SessionManager.GLOBAL_PREFERENCES_KEY) || '{}');
     } catch (error) {
-      console.error('Error importing session:', error);
+      console.error('Error loading preferences:', error);
+      return {};
     }
-    return false;
   }
 
-  clearSession(): void {
-    this.currentSession = this.createNewSession();
-    localStorage.removeItem(SessionManager.STORAGE_KEY);
+  getSessionStats(): SessionStats {
+    return computeSessionStats(this.currentSession);
   }
 
-  searchEntries(query: string, filters?: {
-    inputType?: SessionEntry['inputType'];
-    tags?: string[];
-    dateRange?: { start: number; end: number };
-  }): SessionEntry[] {
-    let results = this.currentSession.entries;
+  // Snapshots are read back from the store so the export is self-contained; recordings
+  // are left out, so their details go too
+  async exportSession(): Promise<string> {
+    await this.flush();
+    const entries = await Promise.all(this.currentSession.entries.map(async ({ audio: _audio, ...entry }) => {
+      const glyphSnapshot = await this.store.getSnapshot(entry.id);
+      return glyphSnapshot ? { ...entry, glyphSnapshot } : entry;
+    }));
+    return serializeSession({ ...this.currentSession, entries });
+  }
 
-    // Text search
-    if (query.trim()) {
-      const searchTerm = query.toLowerCase();
-      results = results.filter(entry => 
-        entry.inputData.toLowerCase().includes(searchTerm) ||
-        entry.analysis.meaningSignature.toLowerCase().includes(searchTerm) ||
-        entry.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-      );
+  // `session` comes from parseSessionExport. 'new' adds it as a separate session and
+  // switches to it; 'merge' adds entries the open session lacks; 'replace' swaps the
+  // open session's contents while keeping its id and name.
+  async importSession(session: UserSession, mode: ImportMode = 'new'): Promise<void> {
+    await this.flush();
+    const preferences = { ...SessionManager.DEFAULT_PREFERENCES, ...session.preferences };
+
+    if (mode === 'new') {
+      const { entries, favoriteGlyphs } = this.withFreshIds(session.entries, session.favoriteGlyphs);
+      const record: SessionRecord = {
+        ...this.toRecord(session),
+        id: this.generateId(),
+        archived: false,
+        preferences,
+        favoriteGlyphs
+      };
+      this.sessions.set(record.id, record);
+      this.persist(async store => {
+        await store.saveSession(record);
+        for (const entry of entries) {
+          await store.putEntry(record.id, entry);
+        }
+      });
+      await this.activate(record);
+      return;
     }
 
-    // Apply filters
-    if (filters) {
-      if (filters.inputType) {
-        results = results.filter(entry => entry.inputType === filters.inputType);
+    const current = this.record();
+    const existing = new Set(this.currentSession.entries.map(entry => entry.id));
+    // Imported entries get fresh ids, so an earlier import of the same file is recognised
+    // by when and what was analysed rather than by id
+    const existingKeys = new Set(this.currentSession.entries.map(SessionManager.mergeKey));
+    const incoming = mode === 'merge'
+      ? session.entries.filter(entry => !existing.has(entry.id) && !existingKeys.has(SessionManager.mergeKey(entry)))
+      : session.entries;
+    const incomingIds = new Set(incoming.map(entry => entry.id));
+    const { entries, favoriteGlyphs } = this.withFreshIds(
+      incoming,
+      mode === 'merge'
+        ? session.favoriteGlyphs.filter(favorite => incomingIds.has(favorite.entryId))
+        : session.favoriteGlyphs
+    );
+
+    const record: SessionRecord = mode === 'merge'
+      ? {
+        ...current,
+        totalAnalyses: current.totalAnalyses + entries.length,
+        favoriteGlyphs: [...current.favoriteGlyphs, ...favoriteGlyphs]
       }
-
-      if (filters.tags && filters.tags.length > 0) {
-        results = results.filter(entry => 
-          filters.tags!.some(tag => entry.tags.includes(tag))
-        );
+      : {
+        ...current,
+        startTime: session.startTime,
+        totalAnalyses: session.totalAnalyses,
+        preferences,
+        favoriteGlyphs
+      };
+    const removed = mode === 'replace' ? [...existing] : [];
+
+    this.sessions.set(record.id, record);
+    this.persist(async store => {
+      for (const id of removed) {
+        await store.deleteEntry(id);
+      }
+      await store.saveSession(record);
+      for (const entry of entries) {
+        await store.putEntry(record.id, entry);
       }
+    });
+    await this.activate(record);
+  }
+
+  // Imported ids could collide with entries stored in other sessions
+  private static mergeKey(entry: SessionEntry): string {
+    return `${entry.timestamp}:${entry.inputType}:${entry.inputData}`;
+  }
+
+  private withFreshIds(entries: SessionEntry[], favorites: FavoriteGlyph[]): {
+    entries: SessionEntry[];
+    favoriteGlyphs: FavoriteGlyph[];
+  } {
+    const entryIds = new Map(entries.map(entry => [entry.id, this.generateId()]));
+    return {
+      entries: entries.map(entry => ({ ...entry, id: entryIds.get(entry.id)! })),
+      favoriteGlyphs: favorites.map(favorite => ({
+        ...favorite,
+        id: this.generateId(),
+        entryId: entryIds.get(favorite.entryId) ?? favorite.entryId
+      }))
+    };
+  }
 
-      if (filters.dateRange) {
-        results = results.filter(entry => 
-          entry.timestamp >= filters.dateRange!.start && 
-          entry.timestamp <= filters.dateRange!.end
-        );
+  // Empties the current session but keeps its name and preferences
+  clearSession(): void {
+    const entryIds = this.currentSession.entries.map(entry => entry.id);
+    this.currentSession = { ...this.currentSession, entries: [], totalAnalyses: 0, favoriteGlyphs: [] };
+    this.saveSession();
+    this.persist(async store => {
+      for (const id of entryIds) {
+        await store.deleteEntry(id);
       }
-    }
+    });
+  }
 
-    return results;
+  searchEntries(query: string, filters?: EntryFilters, sort: EntrySort = 'newest'): SessionEntry[] {
+    return searchEntries(this.currentSession.entries, query, filters, sort);
   }
-}
\ No newline at end of file
+
+  // Every tag used in the current session, most used first
+  getAllTags(): string[] {
+    const counts = new Map<string, number>();
+    this.currentSession.entries.forEach(entry => {
+      entryTags(entry).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+  }
+}
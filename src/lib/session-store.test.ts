@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { LocalStorageSessionStore, MemoryStorage, migrateLocalStorageSessions } from './session-store';
+import type { SessionEntry, UserSession } from './session-storage';
+
+function entry(id: string, timestamp: number): SessionEntry {
+  return {
+    id,
+    timestamp,
+    inputType: 'text',
+    inputData: `Entry ${id}`,
+    analysis: {
+      cognitiveLoad: 40,
+      emotionalIntensity: 60,
+      symbolicDensity: 30,
+      temporalFlow: 50,
+      emergencePoints: [],
+      meaningSignature: 'quiet-river',
+      glyphData: { shape: 'spiral', frequency: 1.5, color: '#8b5cf6', complexity: 3 }
+    },
+    glyphSnapshot: `data:image/png;base64,${id}`,
+    tags: []
+  };
+}
+
+function session(id: string, entries: SessionEntry[]): UserSession {
+  return {
+    id,
+    name: `Session ${id}`,
+    startTime: 1700000000000,
+    entries,
+    totalAnalyses: entries.length,
+    favoriteGlyphs: [],
+    preferences: {
+      aiProvider: 'groq',
+      autoAnalyze: true,
+      saveHistory: true,
+      darkMode: true,
+      glyphSeed: '',
+      speechLanguage: 'en-US',
+      transcriptionProvider: 'groq'
+    }
+  };
+}
+
+// A localStorage left by an older version: one session under the bare key
+function legacyStorage(): MemoryStorage {
+  const storage = new MemoryStorage();
+  storage.setItem(LocalStorageSessionStore.STORAGE_KEY, JSON.stringify(session('old', [entry('a', 1), entry('b', 2)])));
+  return storage;
+}
+
+// Fails the first `failures` entry writes, like a quota or transaction error part way through
+class FlakyStore extends LocalStorageSessionStore {
+  private failures: number;
+
+  constructor(failures: number) {
+    super(new MemoryStorage());
+    this.failures = failures;
+  }
+
+  async putEntry(sessionId: string, value: SessionEntry): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Write failed');
+    }
+    return super.putEntry(sessionId, value);
+  }
+}
+
+describe('migrateLocalStorageSessions', () => {
+  it('copies sessions, entries and snapshots, then clears the source', async () => {
+    const storage = legacyStorage();
+    const target = new LocalStorageSessionStore(new MemoryStorage());
+
+    expect(await migrateLocalStorageSessions(target, new LocalStorageSessionStore(storage))).toBe(true);
+
+    expect(await target.listSessions()).toEqual([expect.objectContaining({ id: 'old', name: 'Session old' })]);
+    const { entries, total } = await target.queryEntries('old');
+    expect(total).toBe(2);
+    expect(entries.map(e => e.id)).toEqual(['b', 'a']);
+    expect(await target.getSnapshot('a')).toBe('data:image/png;base64,a');
+    expect(await new LocalStorageSessionStore(storage).listSessions()).toEqual([]);
+  });
+
+  it('does nothing when there is nothing to migrate', async () => {
+    const target = new LocalStorageSessionStore(new MemoryStorage());
+
+    expect(await migrateLocalStorageSessions(target, new LocalStorageSessionStore(new MemoryStorage()))).toBe(false);
+    expect(await target.listSessions()).toEqual([]);
+  });
+
+  it('keeps the source after a failed run and completes on retry', async () => {
+    const storage = legacyStorage();
+    const target = new FlakyStore(1);
+
+    await expect(migrateLocalStorageSessions(target, new LocalStorageSessionStore(storage))).rejects.toThrow('Write failed');
+    expect(await new LocalStorageSessionStore(storage).listSessions()).toHaveLength(1);
+
+    expect(await migrateLocalStorageSessions(target, new LocalStorageSessionStore(storage))).toBe(true);
+    expect((await target.queryEntries('old')).total).toBe(2);
+    expect(await new LocalStorageSessionStore(storage).listSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,481 @@
+// Persistence backends for SessionManager. Entries, glyph snapshots and audio are kept apart
+// so listing history never has to load images or recordings.
+import { entryTags } from './session-schema';
+import type { SessionEntry, UserSession } from './session-storage';
+
+export type SessionRecord = Omit<UserSession, 'entries'>;
+
+export interface EntryQuery {
+  inputType?: SessionEntry['inputType'];
+  tag?: string;
+  since?: number;
+  until?: number;
+  offset?: number;
+  limit?: number;
+}
+
+export interface EntryPage {
+  entries: SessionEntry[]; // newest first, without glyphSnapshot
+  total: number; // matches before paging
+}
+
+export interface SessionStore {
+  listSessions(): Promise<SessionRecord[]>;
+  loadSession(id: string): Promise<SessionRecord | null>;
+  saveSession(session: SessionRecord): Promise<void>;
+  deleteSession(id: string): Promise<void>; // along with its entries, snapshots and audio
+  queryEntries(sessionId: string, query?: EntryQuery): Promise<EntryPage>;
+  putEntry(sessionId: string, entry: SessionEntry): Promise<void>; // stores glyphSnapshot separately
+  deleteEntry(id: string): Promise<void>;
+  getSnapshot(entryId: string): Promise<string | null>;
+  putAudio(entryId: string, audio: Blob): Promise<void>;
+  getAudio(entryId: string): Promise<Blob | null>;
+  clear(): Promise<void>;
+}
+
+function withoutSnapshot(entry: SessionEntry): SessionEntry {
+  const { glyphSnapshot: _snapshot, ...rest } = entry;
+  return rest;
+}
+
+function matchesQuery(entry: SessionEntry, query: EntryQuery): boolean {
+  return (!query.inputType || entry.inputType === query.inputType) &&
+    (!query.tag || entryTags(entry).includes(query.tag)) &&
+    (query.since === undefined || entry.timestamp >= query.since) &&
+    (query.until === undefined || entry.timestamp <= query.until);
+}
+
+function page(matches: SessionEntry[], query: EntryQuery): EntryPage {
+  const offset = query.offset ?? 0;
+  const end = query.limit === undefined ? undefined : offset + query.limit;
+  return { entries: matches.slice(offset, end), total: matches.length };
+}
+
+// Storage that lives for the page only; stands in when localStorage is blocked
+export class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+// One localStorage key per session. Kept for tests and for browsers without IndexedDB;
+// entries are capped because every session shares one ~5 MB quota.
+export class LocalStorageSessionStore implements SessionStore {
+  // Sessions live at `${STORAGE_KEY}:${id}`; older versions kept a single session at STORAGE_KEY
+  static readonly STORAGE_KEY = 'glyphmind_session';
+  private static readonly INDEX_KEY = 'glyphmind_session_index';
+  private static readonly MAX_ENTRIES = 100;
+  // localStorage only holds strings, so recordings live for the page lifetime only
+  private audio = new Map<string, Blob>();
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  private key(id: string): string {
+    return `${LocalStorageSessionStore.STORAGE_KEY}:${id}`;
+  }
+
+  private parse(stored: string | null): UserSession | null {
+    try {
+      if (stored) {
+        const session = JSON.parse(stored);
+        if (session.id && session.entries && Array.isArray(session.entries)) {
+          return session;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading session:', error);
+    }
+    return null;
+  }
+
+  private ids(): string[] {
+    let ids: string[] = [];
+    try {
+      ids = JSON.parse(this.storage.getItem(LocalStorageSessionStore.INDEX_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading session index:', error);
+    }
+
+    // Move a single-session save from older versions under its own key
+    const legacy = this.parse(this.storage.getItem(LocalStorageSessionStore.STORAGE_KEY));
+    if (legacy) {
+      this.write(legacy);
+      ids = [...ids.filter(id => id !== legacy.id), legacy.id];
+      this.storage.setItem(LocalStorageSessionStore.INDEX_KEY, JSON.stringify(ids));
+      this.storage.removeItem(LocalStorageSessionStore.STORAGE_KEY);
+    }
+    return ids;
+  }
+
+  private read(id: string): UserSession | null {
+    return this.parse(this.storage.getItem(this.key(id)));
+  }
+
+  private readAll(): UserSession[] {
+    return this.ids()
+      .map(id => this.read(id))
+      .filter((session): session is UserSession => session !== null);
+  }
+
+  private write(session: UserSession): void {
+    try {
+      this.storage.setItem(this.key(session.id), JSON.stringify(session));
+    } catch (error) {
+      // Handle storage quota exceeded
+      if (error instanceof DOMException && error.code === 22) {
+        const keepCount = Math.floor(LocalStorageSessionStore.MAX_ENTRIES * 0.7);
+        session.entries = [...session.entries]
+          .sort((a, b) => b.timestamp - a.timestamp)
+          .slice(0, keepCount);
+        this.storage.setItem(this.key(session.id), JSON.stringify(session));
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private toRecord({ entries: _entries, ...record }: UserSession): SessionRecord {
+    return record;
+  }
+
+  async listSessions(): Promise<SessionRecord[]> {
+    return this.readAll().map(session => this.toRecord(session));
+  }
+
+  async loadSession(id: string): Promise<SessionRecord | null> {
+    this.ids();
+    const session = this.read(id);
+    return session ? this.toRecord(session) : null;
+  }
+
+  async saveSession(record: SessionRecord): Promise<void> {
+    const ids = this.ids();
+    this.write({ ...record, entries: this.read(record.id)?.entries ?? [] });
+    if (!ids.includes(record.id)) {
+      this.storage.setItem(LocalStorageSessionStore.INDEX_KEY, JSON.stringify([...ids, record.id]));
+    }
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.read(id)?.entries.forEach(entry => this.audio.delete(entry.id));
+    this.storage.removeItem(this.key(id));
+    this.storage.setItem(LocalStorageSessionStore.INDEX_KEY, JSON.stringify(this.ids().filter(other => other !== id)));
+  }
+
+  async queryEntries(sessionId: string, query: EntryQuery = {}): Promise<EntryPage> {
+    this.ids();
+    const entries = this.read(sessionId)?.entries ?? [];
+    return page(
+      entries
+        .filter(entry => matchesQuery(entry, query))
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .map(withoutSnapshot),
+      query
+    );
+  }
+
+  // An entry belongs to one session; putting it under another moves it there
+  async putEntry(sessionId: string, entry: SessionEntry): Promise<void> {
+    const sessions = this.readAll();
+    const target = sessions.find(session => session.id === sessionId);
+    if (!target) {
+      throw new Error(`Session ${sessionId} has not been saved`);
+    }
+    sessions
+      .filter(session => session.id !== sessionId && session.entries.some(e => e.id === entry.id))
+      .forEach(session => {
+        session.entries = session.entries.filter(e => e.id !== entry.id);
+        this.write(session);
+      });
+    target.entries = [entry, ...target.entries.filter(e => e.id !== entry.id)]
+      .slice(0, LocalStorageSessionStore.MAX_ENTRIES);
+    this.write(target);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    this.readAll()
+      .filter(session => session.entries.some(entry => entry.id === id))
+      .forEach(session => {
+        session.entries = session.entries.filter(entry => entry.id !== id);
+        this.write(session);
+      });
+    this.audio.delete(id);
+  }
+
+  async getSnapshot(entryId: string): Promise<string | null> {
+    for (const session of this.readAll()) {
+      const entry = session.entries.find(e => e.id === entryId);
+      if (entry) return entry.glyphSnapshot ?? null;
+    }
+    return null;
+  }
+
+  async putAudio(entryId: string, audio: Blob): Promise<void> {
+    this.audio.set(entryId, audio);
+  }
+
+  async getAudio(entryId: string): Promise<Blob | null> {
+    return this.audio.get(entryId) ?? null;
+  }
+
+  async clear(): Promise<void> {
+    this.ids().forEach(id => this.storage.removeItem(this.key(id)));
+    this.storage.removeItem(LocalStorageSessionStore.INDEX_KEY);
+    this.audio.clear();
+  }
+}
+
+type StoredEntry = SessionEntry & {
+  sessionId: string;
+  sessionTags: string[]; // `${sessionId} ${tag}`, for the multi-entry tag index
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class IndexedDBSessionStore implements SessionStore {
+  private static readonly DB_NAME = 'glyphmind';
+  private static readonly DB_VERSION = 1;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private factory: IDBFactory;
+
+  constructor(factory: IDBFactory = indexedDB) {
+    this.factory = factory;
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = this.factory.open(IndexedDBSessionStore.DB_NAME, IndexedDBSessionStore.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        const entries = db.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('session_time', ['sessionId', 'timestamp']);
+        entries.createIndex('session_type_time', ['sessionId', 'inputType', 'timestamp']);
+        entries.createIndex('session_tag', 'sessionTags', { multiEntry: true });
+        db.createObjectStore('snapshots');
+        db.createObjectStore('audio');
+      };
+      this.dbPromise = requestToPromise(request);
+    }
+    return this.dbPromise;
+  }
+
+  async listSessions(): Promise<SessionRecord[]> {
+    const db = await this.db();
+    return requestToPromise(db.transaction('sessions').objectStore('sessions').getAll());
+  }
+
+  async loadSession(id: string): Promise<SessionRecord | null> {
+    const db = await this.db();
+    const session = await requestToPromise(db.transaction('sessions').objectStore('sessions').get(id));
+    return session ?? null;
+  }
+
+  async saveSession(session: SessionRecord): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction('sessions', 'readwrite');
+    transaction.objectStore('sessions').put(session);
+    await transactionDone(transaction);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(['sessions', 'entries', 'snapshots', 'audio'], 'readwrite');
+    transaction.objectStore('sessions').delete(id);
+    const request = transaction.objectStore('entries').index('session_time')
+      .openCursor(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      transaction.objectStore('snapshots').delete(cursor.primaryKey);
+      transaction.objectStore('audio').delete(cursor.primaryKey);
+      cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(transaction);
+  }
+
+  async queryEntries(sessionId: string, query: EntryQuery = {}): Promise<EntryPage> {
+    const db = await this.db();
+    const store = db.transaction('entries').objectStore('entries');
+    const since = query.since ?? -Infinity;
+    const until = query.until ?? Infinity;
+
+    // Tag lookups go through the multi-entry index and are ordered in memory
+    if (query.tag) {
+      const tagged: StoredEntry[] = await requestToPromise(
+        store.index('session_tag').getAll(`${sessionId} ${query.tag}`)
+      );
+      return page(
+        tagged
+          .filter(entry => matchesQuery(entry, query))
+          .sort((a, b) => b.timestamp - a.timestamp)
+          .map(entry => this.toEntry(entry)),
+        query
+      );
+    }
+
+    const [index, range] = query.inputType
+      ? [store.index('session_type_time'), IDBKeyRange.bound([sessionId, query.inputType, since], [sessionId, query.inputType, until])]
+      : [store.index('session_time'), IDBKeyRange.bound([sessionId, since], [sessionId, until])];
+
+    const total = await requestToPromise(index.count(range));
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? Infinity;
+    const entries: SessionEntry[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      let skipped = offset === 0;
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || entries.length >= limit) {
+          resolve();
+          return;
+        }
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        entries.push(this.toEntry(cursor.value));
+        cursor.continue();
+      };
+    });
+
+    return { entries, total };
+  }
+
+  async putEntry(sessionId: string, entry: SessionEntry): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(['entries', 'snapshots'], 'readwrite');
+    const stored: StoredEntry = {
+      ...withoutSnapshot(entry),
+      sessionId,
+      sessionTags: entryTags(entry).map(tag => `${sessionId} ${tag}`)
+    };
+    transaction.objectStore('entries').put(stored);
+    if (entry.glyphSnapshot) {
+      transaction.objectStore('snapshots').put(entry.glyphSnapshot, entry.id);
+    }
+    await transactionDone(transaction);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction(['entries', 'snapshots', 'audio'], 'readwrite');
+    transaction.objectStore('entries').delete(id);
+    transaction.objectStore('snapshots').delete(id);
+    transaction.objectStore('audio').delete(id);
+    await transactionDone(transaction);
+  }
+
+  async getSnapshot(entryId: string): Promise<string | null> {
+    const db = await this.db();
+    const snapshot = await requestToPromise(db.transaction('snapshots').objectStore('snapshots').get(entryId));
+    return snapshot ?? null;
+  }
+
+  async putAudio(entryId: string, audio: Blob): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction('audio', 'readwrite');
+    transaction.objectStore('audio').put(audio, entryId);
+    await transactionDone(transaction);
+  }
+
+  async getAudio(entryId: string): Promise<Blob | null> {
+    const db = await this.db();
+    const audio = await requestToPromise(db.transaction('audio').objectStore('audio').get(entryId));
+    return audio ?? null;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    const names = ['sessions', 'entries', 'snapshots', 'audio'];
+    const transaction = db.transaction(names, 'readwrite');
+    names.forEach(name => transaction.objectStore(name).clear());
+    await transactionDone(transaction);
+  }
+
+  private toEntry(stored: StoredEntry): SessionEntry {
+    const { sessionId: _sessionId, sessionTags: _sessionTags, ...entry } = stored;
+    return entry;
+  }
+}
+
+// Copies localStorage sessions into the target store, then removes them. Nothing is removed
+// until every session and entry has been written, so a failed run leaves the localStorage copy
+// in use and the next load retries. Writes are puts by id, so a retry overwrites whatever an
+// earlier attempt managed to copy rather than skipping it.
+export async function migrateLocalStorageSessions(
+  target: SessionStore,
+  source: LocalStorageSessionStore = new LocalStorageSessionStore()
+): Promise<boolean> {
+  const legacy = await source.listSessions();
+  if (legacy.length === 0) return false;
+
+  for (const session of legacy) {
+    const { entries } = await source.queryEntries(session.id);
+    await target.saveSession(session);
+    for (const entry of entries) {
+      const snapshot = await source.getSnapshot(entry.id);
+      await target.putEntry(session.id, { ...entry, glyphSnapshot: snapshot ?? undefined });
+    }
+  }
+  await source.clear();
+  return true;
+}
+
+// IndexedDB where available, migrating any localStorage session on first use
+export async function openSessionStore(): Promise<SessionStore> {
+  if (typeof indexedDB === 'undefined') {
+    return new LocalStorageSessionStore();
+  }
+  const store = new IndexedDBSessionStore();
+  try {
+    await migrateLocalStorageSessions(store);
+    return store;
+  } catch (error) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', error);
+    return new LocalStorageSessionStore();
+  }
+}
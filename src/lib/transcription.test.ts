@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AIProvider } from './ai-providers';
+import { TranscriptionError, WhisperTranscriber, transcribeRecording } from './transcription';
+
+const groq: AIProvider = { id: 'groq', name: 'Groq', kind: 'groq', baseUrl: 'https://api.groq.test/openai/v1/', model: 'llama', apiKey: 'gsk_test', free: true };
+const whisperCpp: AIProvider = { id: 'local-whisper', name: 'whisper.cpp', kind: 'whisper-cpp', baseUrl: 'http://127.0.0.1:8080', model: '', free: true };
+
+const audio = new Blob([new Uint8Array(16)], { type: 'audio/wav' });
+
+interface CapturedRequest {
+  url: string;
+  headers: Record<string, string>;
+  form: FormData;
+}
+
+// Answers every request with `body`, keeping what was sent
+function stubFetch(body: unknown, status = 200): { fetchImpl: typeof fetch; requests: CapturedRequest[] } {
+  const requests: CapturedRequest[] = [];
+  const fetchImpl: typeof fetch = async (input, init) => {
+    requests.push({ url: String(input), headers: init?.headers as Record<string, string>, form: init?.body as FormData });
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+  };
+  return { fetchImpl, requests };
+}
+
+describe('WhisperTranscriber', () => {
+  it('sends the recording as verbose_json and keeps measured word timings', async () => {
+    const { fetchImpl, requests } = stubFetch({
+      text: ' Hello there ',
+      language: 'english',
+      words: [{ word: ' Hello', start: 0.1, end: 0.4 }, { word: 'there', start: 0.5, end: 0.9 }, { word: ' ', start: 1, end: 1 }],
+      segments: [{ text: ' Hello there', start: 0, end: 1 }]
+    });
+
+    const transcript = await new WhisperTranscriber(groq, { fetchImpl }).transcribe(audio, { language: 'en' });
+
+    expect(requests[0].url).toBe('https://api.groq.test/openai/v1/audio/transcriptions');
+    expect(requests[0].headers).toEqual({ Authorization: 'Bearer gsk_test' });
+    expect((requests[0].form.get('file') as File).name).toBe('recording.wav');
+    expect(requests[0].form.get('model')).toBe('whisper-1');
+    expect(requests[0].form.get('response_format')).toBe('verbose_json');
+    expect(requests[0].form.get('language')).toBe('en');
+    expect(transcript).toEqual({
+      text: 'Hello there',
+      words: [{ word: 'Hello', start: 0.1, end: 0.4 }, { word: 'there', start: 0.5, end: 0.9 }],
+      source: 'whisper',
+      provider: 'groq',
+      timingsEstimated: false
+    });
+  });
+
+  it('reads per-segment words from whisper.cpp and spreads segments that have none', async () => {
+    const { fetchImpl, requests } = stubFetch({
+      text: 'One two. Nine four',
+      segments: [
+        { text: ' One two.', start: 0, end: 1, words: [{ word: 'One', start: 0, end: 0.4 }, { word: 'two.', start: 0.5, end: 1 }] },
+        { text: ' Nine four', start: 2, end: 3 }
+      ]
+    });
+
+    const transcript = await new WhisperTranscriber(whisperCpp, { fetchImpl }).transcribe(audio);
+
+    expect(requests[0].url).toBe('http://127.0.0.1:8080/inference');
+    expect(requests[0].headers).toEqual({});
+    expect(transcript.words).toEqual([
+      { word: 'One', start: 0, end: 0.4 },
+      { word: 'two.', start: 0.5, end: 1 },
+      { word: 'Nine', start: 2, end: 2.5 },
+      { word: 'four', start: 2.5, end: 3 }
+    ]);
+    expect(transcript.timingsEstimated).toBe(true);
+  });
+
+  it('reports error statuses and malformed responses as TranscriptionError', async () => {
+    const failing = new WhisperTranscriber(groq, stubFetch('{"error":"file too large"}', 413));
+    await expect(failing.transcribe(audio)).rejects.toMatchObject({
+      name: 'TranscriptionError',
+      status: 413,
+      message: 'Transcription failed with status 413: {"error":"file too large"}'
+    });
+
+    const malformed = new WhisperTranscriber(groq, stubFetch({ segments: [] }));
+    await expect(malformed.transcribe(audio)).rejects.toThrow(/^Groq: Malformed transcription response: text:/);
+  });
+
+  it('rejects providers without a transcription endpoint', async () => {
+    const ollama: AIProvider = { id: 'ollama', name: 'Ollama', kind: 'ollama', baseUrl: 'http://127.0.0.1:11434/v1', model: 'llama3', free: true };
+    await expect(new WhisperTranscriber(ollama).transcribe(audio)).rejects.toThrow(TranscriptionError);
+  });
+});
+
+describe('transcribeRecording', () => {
+  it('falls back to the speech recognition text when the transcriber fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const transcriber = new WhisperTranscriber(groq, stubFetch('busy', 503));
+
+    const transcript = await transcribeRecording(audio, { transcriber, fallbackText: ' hello  world ', duration: 2 });
+
+    expect(transcript).toEqual({
+      text: 'hello  world',
+      words: [{ word: 'hello', start: 0, end: 1 }, { word: 'world', start: 1, end: 2 }],
+      source: 'speech-recognition',
+      timingsEstimated: true
+    });
+    expect(await transcribeRecording(audio, { transcriber: null, fallbackText: '', duration: 2 })).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+// Recording transcription through Whisper-style endpoints, falling back to the
+// browser's speech recognition transcript captured while recording
+import type { AIProvider } from './ai-providers';
+import { buildAuthHeaders, getAdapter, ProviderResponseError, type RateLimiter } from './provider-adapters';
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // seconds from the start of the recording
+  end: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  model: string;
+  fileName?: string;
+  language?: string; // ISO 639-1
+}
+
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[];
+  segments: TranscriptSegment[];
+  language?: string;
+}
+
+export interface Transcript {
+  text: string;
+  words: TranscriptWord[];
+  source: 'whisper' | 'speech-recognition';
+  provider?: string; // id of the transcription provider
+  timingsEstimated: boolean; // word times were spread over the recording rather than measured
+}
+
+export interface TranscriberOptions {
+  rateLimiter?: RateLimiter;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export class TranscriptionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+// Whisper endpoints pick the decoder from the upload's extension
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/flac': 'flac'
+};
+
+function audioFileName(audio: Blob): string {
+  const type = audio.type.split(';')[0].trim().toLowerCase();
+  return `recording.${AUDIO_EXTENSIONS[type] ?? 'webm'}`;
+}
+
+export function supportsTranscription(provider: AIProvider): boolean {
+  return getAdapter(provider.kind).capabilities.includes('transcription');
+}
+
+export function listTranscriptionProviders(providers: AIProvider[]): AIProvider[] {
+  return providers.filter(supportsTranscription);
+}
+
+export class WhisperTranscriber {
+  private provider: AIProvider;
+  private rateLimiter?: RateLimiter;
+  private timeoutMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(provider: AIProvider, options: TranscriberOptions = {}) {
+    this.provider = provider;
+    this.rateLimiter = options.rateLimiter;
+    this.timeoutMs = options.timeoutMs ?? 60000;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async transcribe(audio: Blob, options: { language?: string; signal?: AbortSignal } = {}): Promise<Transcript> {
+    const adapter = getAdapter(this.provider.kind);
+    const path = adapter.paths.transcription;
+    if (!path || !adapter.capabilities.includes('transcription')) {
+      throw new TranscriptionError(`${adapter.label} does not support transcription`);
+    }
+    if (this.rateLimiter && !this.rateLimiter.tryAcquire()) {
+      throw new TranscriptionError(
+        `${adapter.label} rate limit of ${adapter.rateLimit.requestsPerMinute} requests/minute reached`,
+        429
+      );
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    const requestSignal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+
+    let payload: unknown;
+    try {
+      const response = await this.fetchImpl(`${this.provider.baseUrl.replace(/\/+$/, '')}${path}`, {
+        method: 'POST',
+        headers: buildAuthHeaders(adapter, this.provider.apiKey),
+        body: adapter.buildTranscriptionForm({
+          audio,
+          model: this.provider.transcriptionModel ?? DEFAULT_TRANSCRIPTION_MODEL,
+          fileName: audioFileName(audio),
+          language: options.language
+        }),
+        signal: requestSignal
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new TranscriptionError(
+          `Transcription failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+          response.status
+        );
+      }
+      payload = await response.json();
+    } catch (error) {
+      if (error instanceof TranscriptionError) throw error;
+      if (options.signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+      if (controller.signal.aborted) {
+        throw new TranscriptionError(`Transcription timed out after ${this.timeoutMs}ms`);
+      }
+      throw new TranscriptionError(`Transcription request failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    let result: TranscriptionResult | null;
+    try {
+      result = adapter.parseTranscriptionResponse(payload);
+    } catch (error) {
+      if (error instanceof ProviderResponseError) {
+        throw new TranscriptionError(`${adapter.label}: ${error.message}`);
+      }
+      throw error;
+    }
+    if (!result) {
+      throw new TranscriptionError('Transcription response had an unexpected shape');
+    }
+
+    // Segments the server returned no word timings for are spread over their span
+    let timingsEstimated = false;
+    const words = result.segments.length === 0 ? result.words : result.segments.flatMap(segment => {
+      const timed = result.words.filter(word => word.start >= segment.start && word.start < segment.end);
+      if (timed.length > 0) return timed;
+      timingsEstimated = true;
+      return spreadWords(segment.text, segment.start, segment.end);
+    });
+    return {
+      text: result.text,
+      words: words.length > 0 ? words : spreadWords(result.text, 0, 0),
+      source: 'whisper',
+      provider: this.provider.id,
+      timingsEstimated: timingsEstimated || words.length === 0
+    };
+  }
+}
+
+// Spreads words over a span in proportion to their length
+function spreadWords(text: string, start: number, end: number): TranscriptWord[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  const span = Math.max(0, end - start);
+  let cursor = start;
+  return words.map(word => {
+    const length = totalLength > 0 ? (word.length / totalLength) * span : 0;
+    const timed = { word, start: cursor, end: cursor + length };
+    cursor += length;
+    return timed;
+  });
+}
+
+export function transcriptFromSpeech(text: string, duration: number): Transcript | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return {
+    text: trimmed,
+    words: spreadWords(trimmed, 0, duration),
+    source: 'speech-recognition',
+    timingsEstimated: true
+  };
+}
+
+// Prefers the transcriber; the speech recognition text covers failures and missing providers
+export async function transcribeRecording(
+  audio: Blob,
+  options: {
+    transcriber: WhisperTranscriber | null;
+    fallbackText: string;
+    duration: number;
+    language?: string;
+    signal?: AbortSignal;
+  }
+): Promise<Transcript | null> {
+  if (options.transcriber) {
+    try {
+      const transcript = await options.transcriber.transcribe(audio, {
+        language: options.language,
+        signal: options.signal
+      });
+      if (transcript.text) return transcript;
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn('Transcription failed, using speech recognition instead:', error);
+    }
+  }
+  return transcriptFromSpeech(options.fallbackText, options.duration);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Symbolism } from './ai-providers';
+import type { SessionEntry } from './session-storage';
+import { analyzeTrends } from './trends';
+
+// Local time, so entries land on the calendar day they name
+const at = (day: number, hour: number = 9) => new Date(2024, 0, day, hour).getTime();
+
+function entry(id: string, timestamp: number, value: number, symbolism?: Symbolism): SessionEntry {
+  return {
+    id,
+    timestamp,
+    inputType: 'text',
+    inputData: `Entry ${id}`,
+    analysis: {
+      cognitiveLoad: value,
+      emotionalIntensity: value,
+      symbolicDensity: value,
+      temporalFlow: value,
+      emergencePoints: [],
+      meaningSignature: 'quiet-river',
+      symbolism,
+      glyphData: { shape: 'spiral', frequency: 1.5, color: '#8b5cf6', complexity: 3 }
+    },
+    tags: []
+  };
+}
+
+describe('analyzeTrends', () => {
+  it('averages each day and smooths over the last days with entries', () => {
+    const { points } = analyzeTrends([
+      entry('c', at(3), 60),
+      entry('a1', at(1), 20),
+      entry('a2', at(1, 18), 40),
+      entry('b', at(2), 50),
+      entry('d', at(5), 90)
+    ], { movingAverageWindow: 3 });
+
+    expect(points.map(point => point.day)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-05']);
+    expect(points[0].entryIds).toEqual(['a1', 'a2']);
+    expect(points[0].values.cognitiveLoad).toBe(30);
+    expect(points[0].timestamp).toBe(new Date(2024, 0, 1, 12).getTime());
+    expect(points.map(point => point.movingAverage.emotionalIntensity)).toEqual([30, 40, 140 / 3, 200 / 3]);
+  });
+
+  it('compares the last seven days with the seven before', () => {
+    const entries = [
+      ...[2, 4, 6].map(day => entry(`previous${day}`, at(day), 40)),
+      ...[9, 12, 14].map(day => entry(`current${day}`, at(day), 60))
+    ];
+
+    const { weekOverWeek } = analyzeTrends(entries, { now: at(15) });
+    const [cognitive] = weekOverWeek;
+
+    expect(weekOverWeek).toHaveLength(4);
+    expect(cognitive).toEqual({ metric: 'cognitiveLoad', current: 60, previous: 40, change: 20 });
+    expect(analyzeTrends(entries.slice(3), { now: at(15) }).weekOverWeek[0]).toMatchObject({ current: 60, previous: null, change: null });
+  });
+
+  it('flags days far from the baseline of the days before them', () => {
+    const steady = [1, 2, 3, 4, 5, 6].map(day => entry(`d${day}`, at(day), day % 2 === 0 ? 48 : 52));
+
+    const spike = analyzeTrends([...steady, entry('spike', at(7), 90), entry('calm', at(8), 55)]);
+
+    expect(spike.anomalies).toHaveLength(4);
+    expect(spike.anomalies[0]).toMatchObject({ day: '2024-01-07', value: 90, baseline: 50, deviation: 8, entryIds: ['spike'] });
+    expect(analyzeTrends([...steady.slice(0, 4), entry('spike', at(7), 90)]).anomalies).toEqual([]);
+  });
+
+  it('reports archetypes and themes that recur across days', () => {
+    const seeker = (themes: string[]): Symbolism => ({ archetype: 'The Seeker', mood: 'contemplative', themes });
+    const { recurring } = analyzeTrends([
+      entry('a', at(1), 50, seeker(['growth', 'growth'])),
+      entry('b', at(1, 20), 50, seeker(['growth'])),
+      entry('c', at(2), 50, seeker(['mystery'])),
+      entry('d', at(4), 50, seeker(['growth', 'mystery'])),
+      entry('e', at(5), 50)
+    ]);
+
+    expect(recurring).toEqual([
+      { kind: 'archetype', value: 'The Seeker', occurrences: 4, days: 3, firstSeen: at(1), lastSeen: at(4) }
+    ]);
+    expect(analyzeTrends([entry('a', at(1), 50, seeker(['growth'])), entry('b', at(3), 50, seeker(['growth']))], { minRecurringDays: 2 })
+      .recurring.map(symbol => `${symbol.kind}:${symbol.value}`)).toEqual(['archetype:The Seeker', 'theme:growth']);
+  });
+});
@@ -0,0 +1,209 @@
+// Longitudinal trends over saved entries: daily series, moving averages,
+// week-over-week change, baseline anomalies and recurring symbolism
+import type { Symbolism } from './ai-providers';
+import { COMPARISON_METRICS } from './comparison';
+import { dayKey } from './session-stats';
+import type { SessionEntry } from './session-storage';
+
+export type TrendMetric = typeof COMPARISON_METRICS[number]['key'];
+
+export const TREND_METRICS: TrendMetric[] = COMPARISON_METRICS.map(metric => metric.key);
+
+export interface TrendPoint {
+  day: string; // local YYYY-MM-DD
+  timestamp: number; // local noon of the day
+  entryIds: string[];
+  values: Record<TrendMetric, number>; // mean over the day's entries
+  movingAverage: Record<TrendMetric, number>; // over the last movingAverageWindow days with entries
+}
+
+export interface WeekOverWeek {
+  metric: TrendMetric;
+  current: number | null; // mean over the last 7 days, null without entries
+  previous: number | null; // mean over the 7 days before that
+  change: number | null; // current - previous
+}
+
+export interface TrendAnomaly {
+  metric: TrendMetric;
+  day: string;
+  value: number;
+  baseline: number;
+  deviation: number; // standard deviations from the baseline, signed
+  entryIds: string[];
+}
+
+export interface RecurringSymbol {
+  kind: 'archetype' | 'theme';
+  value: string;
+  occurrences: number;
+  days: number; // distinct days it appeared on
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface TrendReport {
+  points: TrendPoint[]; // oldest first
+  weekOverWeek: WeekOverWeek[];
+  anomalies: TrendAnomaly[]; // newest first
+  recurring: RecurringSymbol[];
+}
+
+export interface TrendOptions {
+  movingAverageWindow?: number;
+  baselineWindow?: number; // days with entries before the one being judged
+  minBaselineDays?: number;
+  anomalyThreshold?: number; // in standard deviations
+  minRecurringDays?: number;
+  describeSymbolism?: (entry: SessionEntry) => Symbolism | undefined;
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Metrics are on a 0-100 scale; a very steady baseline should not flag every small wobble
+const MIN_STANDARD_DEVIATION = 5;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[], average: number): number {
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+function metricRecord(compute: (metric: TrendMetric) => number): Record<TrendMetric, number> {
+  return Object.fromEntries(TREND_METRICS.map(metric => [metric, compute(metric)])) as Record<TrendMetric, number>;
+}
+
+function dailyPoints(entries: SessionEntry[], window: number): TrendPoint[] {
+  const byDay = new Map<string, SessionEntry[]>();
+  [...entries]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(entry => {
+      const day = dayKey(entry.timestamp);
+      byDay.set(day, [...(byDay.get(day) ?? []), entry]);
+    });
+
+  const points: TrendPoint[] = [];
+  byDay.forEach((dayEntries, day) => {
+    const [year, month, date] = day.split('-').map(Number);
+    const values = metricRecord(metric => mean(dayEntries.map(entry => entry.analysis[metric])));
+    const recent = [...points.slice(-(window - 1)).map(point => point.values), values];
+    points.push({
+      day,
+      timestamp: new Date(year, month - 1, date, 12).getTime(),
+      entryIds: dayEntries.map(entry => entry.id),
+      values,
+      movingAverage: metricRecord(metric => mean(recent.map(value => value[metric])))
+    });
+  });
+  return points;
+}
+
+function weekOverWeek(entries: SessionEntry[], now: number): WeekOverWeek[] {
+  const average = (from: number, to: number, metric: TrendMetric) => {
+    const values = entries
+      .filter(entry => entry.timestamp > from && entry.timestamp <= to)
+      .map(entry => entry.analysis[metric]);
+    return values.length > 0 ? mean(values) : null;
+  };
+  return TREND_METRICS.map(metric => {
+    const current = average(now - 7 * DAY_MS, now, metric);
+    const previous = average(now - 14 * DAY_MS, now - 7 * DAY_MS, metric);
+    return {
+      metric,
+      current,
+      previous,
+      change: current !== null && previous !== null ? current - previous : null
+    };
+  });
+}
+
+// Each day is judged against the days before it, so the baseline follows the journal as it drifts
+function detectAnomalies(
+  points: TrendPoint[],
+  baselineWindow: number,
+  minBaselineDays: number,
+  threshold: number
+): TrendAnomaly[] {
+  const anomalies: TrendAnomaly[] = [];
+  points.forEach((point, index) => {
+    const history = points.slice(Math.max(0, index - baselineWindow), index);
+    if (history.length < minBaselineDays) return;
+    TREND_METRICS.forEach(metric => {
+      const values = history.map(past => past.values[metric]);
+      const baseline = mean(values);
+      const spread = Math.max(MIN_STANDARD_DEVIATION, standardDeviation(values, baseline));
+      const deviation = (point.values[metric] - baseline) / spread;
+      if (Math.abs(deviation) >= threshold) {
+        anomalies.push({
+          metric,
+          day: point.day,
+          value: point.values[metric],
+          baseline,
+          deviation,
+          entryIds: point.entryIds
+        });
+      }
+    });
+  });
+  return anomalies.reverse();
+}
+
+function recurringSymbols(
+  entries: SessionEntry[],
+  describe: (entry: SessionEntry) => Symbolism | undefined,
+  minDays: number
+): RecurringSymbol[] {
+  const found = new Map<string, RecurringSymbol & { dayKeys: Set<string> }>();
+  const record = (kind: RecurringSymbol['kind'], value: string, entry: SessionEntry) => {
+    const key = `${kind}:${value}`;
+    const existing = found.get(key) ?? {
+      kind,
+      value,
+      occurrences: 0,
+      days: 0,
+      firstSeen: entry.timestamp,
+      lastSeen: entry.timestamp,
+      dayKeys: new Set<string>()
+    };
+    existing.occurrences++;
+    existing.dayKeys.add(dayKey(entry.timestamp));
+    existing.firstSeen = Math.min(existing.firstSeen, entry.timestamp);
+    existing.lastSeen = Math.max(existing.lastSeen, entry.timestamp);
+    found.set(key, existing);
+  };
+
+  entries.forEach(entry => {
+    const symbolism = describe(entry);
+    if (!symbolism) return;
+    record('archetype', symbolism.archetype, entry);
+    new Set(symbolism.themes).forEach(theme => record('theme', theme, entry));
+  });
+
+  return Array.from(found.values())
+    .map(({ dayKeys, ...symbol }) => ({ ...symbol, days: dayKeys.size }))
+    .filter(symbol => symbol.days >= minDays)
+    .sort((a, b) => b.days - a.days || b.occurrences - a.occurrences);
+}
+
+export function analyzeTrends(entries: SessionEntry[], options: TrendOptions = {}): TrendReport {
+  const {
+    movingAverageWindow = 7,
+    baselineWindow = 14,
+    minBaselineDays = 5,
+    anomalyThreshold = 2,
+    minRecurringDays = 3,
+    describeSymbolism = (entry: SessionEntry) => entry.analysis.symbolism,
+    now = Date.now()
+  } = options;
+
+  const points = dailyPoints(entries, movingAverageWindow);
+  return {
+    points,
+    weekOverWeek: weekOverWeek(entries, now),
+    anomalies: detectAnomalies(points, baselineWindow, minBaselineDays, anomalyThreshold),
+    recurring: recurringSymbols(entries, describeSymbolism, minRecurringDays)
+  };
+}
@@ -1,18 +1,236 @@
+import { analyzeProsody, magnitudeSpectrum, type PcmAudio, type ProsodyFeatures } from './prosody';
+
 export interface VoiceRecordingOptions {
   maxDuration?: number; // in seconds
   sampleRate?: number;
   channels?: number;
 }
 
-export interface VoiceAnalysis {
+// Prosody fields are absent when the recording could not be decoded and on older entries
+export interface VoiceAnalysis extends Partial<ProsodyFeatures> {
   duration: number;
   averageVolume: number;
   peakVolume: number;
   silencePeriods: number[];
-  speechRate: number; // words per minute estimate
+  speechRate: number; // words per minute, from syllable nuclei when prosody is available
   emotionalTone: 'calm' | 'excited' | 'stressed' | 'neutral';
 }
 
+export interface RecorderFrame {
+  elapsed: number; // seconds since recording started
+  volume: number; // mean of the frequency bins, 0-255
+  frequencies: Uint8Array; // reused between frames; copy to keep
+  waveform: Uint8Array; // time-domain samples centred on 128; reused between frames
+}
+
+export type RecorderEvent =
+  | { type: 'start'; maxDuration?: number }
+  | { type: 'frame'; frame: RecorderFrame }
+  | { type: 'stop'; audioBlob: Blob; analysis: VoiceAnalysis };
+
+// Recordings are resampled to this rate before prosody analysis to keep pitch tracking cheap
+const PROSODY_SAMPLE_RATE = 16000;
+const SYLLABLES_PER_WORD = 1.5;
+
+// The live analyser's settings, so uploads get volume readings on the same 0-255 scale
+const ANALYSER_FFT_SIZE = 256;
+const ANALYSER_MIN_DECIBELS = -100; // AnalyserNode defaults
+const ANALYSER_MAX_DECIBELS = -30;
+const ANALYSER_SMOOTHING = 0.8;
+const ANALYSER_SAMPLE_RATE = 48000;
+const VOLUME_READINGS_PER_SECOND = 60; // the recorder reads the analyser once per animation frame
+
+// Decodes any format the browser can play into mono PCM
+export async function decodeAudioBlob(blob: Blob, sampleRate: number = PROSODY_SAMPLE_RATE): Promise<PcmAudio> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+  }
+  return { sampleRate: buffer.sampleRate, samples };
+}
+
+function analyzeVoiceData(volumeData: number[], duration: number, prosody: ProsodyFeatures | null): VoiceAnalysis {
+  if (volumeData.length === 0) {
+    return {
+      duration,
+      averageVolume: 0,
+      peakVolume: 0,
+      silencePeriods: [],
+      speechRate: prosody ? Math.round((prosody.syllableRate * 60) / SYLLABLES_PER_WORD) : 0,
+      emotionalTone: prosody ? determineEmotionalTone(0, 0, 0, prosody) : 'neutral',
+      ...prosody
+    };
+  }
+
+  const averageVolume = volumeData.reduce((a, b) => a + b, 0) / volumeData.length;
+  const peakVolume = volumeData.reduce((max, volume) => Math.max(max, volume), 0);
+  
+  // Detect silence periods (volume below threshold)
+  const silenceThreshold = averageVolume * 0.3;
+  const silencePeriods: number[] = [];
+  let silenceStart = -1;
+  
+  volumeData.forEach((volume, index) => {
+    const timeStamp = (index / volumeData.length) * duration;
+    
+    if (volume < silenceThreshold && silenceStart === -1) {
+      silenceStart = timeStamp;
+    } else if (volume >= silenceThreshold && silenceStart !== -1) {
+      silencePeriods.push(timeStamp - silenceStart);
+      silenceStart = -1;
+    }
+  });
+
+  // Syllable nuclei give the rate when the audio decoded; otherwise assume
+  // 2.5 words per second of non-silence (rough approximation)
+  const speechPeriods = duration - silencePeriods.reduce((a, b) => a + b, 0);
+  const speechRate = prosody
+    ? (prosody.syllableRate * 60) / SYLLABLES_PER_WORD
+    : ((speechPeriods * 2.5) / duration) * 60; // Words per minute
+
+  const volumeVariance = calculateVariance(volumeData);
+  const emotionalTone = determineEmotionalTone(averageVolume, peakVolume, volumeVariance, prosody);
+
+  return {
+    duration,
+    averageVolume: Math.round(averageVolume),
+    peakVolume: Math.round(peakVolume),
+    silencePeriods,
+    speechRate: Math.round(speechRate),
+    emotionalTone,
+    ...prosody
+  };
+}
+
+function calculateVariance(data: number[]): number {
+  const mean = data.reduce((a, b) => a + b, 0) / data.length;
+  const squaredDiffs = data.map(value => Math.pow(value - mean, 2));
+  return squaredDiffs.reduce((a, b) => a + b, 0) / data.length;
+}
+
+function determineEmotionalTone(
+  avg: number,
+  peak: number,
+  variance: number,
+  prosody: ProsodyFeatures | null
+): VoiceAnalysis['emotionalTone'] {
+  // Pitch movement and pace are better cues than loudness when we have them
+  if (prosody?.pitchMean && prosody.pitchStdDev !== null) {
+    const pitchVariation = prosody.pitchStdDev / prosody.pitchMean;
+    if (pitchVariation > 0.2 && prosody.syllableRate > 4) return 'excited';
+    if ((prosody.jitter ?? 0) > 0.02 || (prosody.syllableRate > 5.5 && pitchVariation < 0.12)) return 'stressed';
+    if (pitchVariation < 0.1 && prosody.syllableRate < 3.5) return 'calm';
+    return 'neutral';
+  }
+
+  const intensity = peak / (avg || 1);
+  
+  if (variance > 500 && intensity > 2) return 'excited';
+  if (variance > 300 && avg > 50) return 'stressed';
+  if (variance < 100 && avg < 30) return 'calm';
+  return 'neutral';
+}
+
+// Mean frequency-bin level per analyser reading, as getByteFrequencyData would have reported
+// it had the audio been played through the recorder
+export function volumeReadings({ samples, sampleRate }: PcmAudio): number[] {
+  const hop = Math.max(1, Math.round(sampleRate / VOLUME_READINGS_PER_SECOND));
+  const binCount = ANALYSER_FFT_SIZE / 2;
+  const range = ANALYSER_MAX_DECIBELS - ANALYSER_MIN_DECIBELS;
+  const smoothed = new Float64Array(binCount);
+  const readings: number[] = [];
+  for (let start = 0; start + ANALYSER_FFT_SIZE <= samples.length; start += hop) {
+    const magnitudes = magnitudeSpectrum(samples.subarray(start, start + ANALYSER_FFT_SIZE));
+    let sum = 0;
+    for (let k = 0; k < binCount; k++) {
+      // The analyser blends each reading with the previous one before converting to decibels
+      smoothed[k] = ANALYSER_SMOOTHING * smoothed[k] + (1 - ANALYSER_SMOOTHING) * (magnitudes[k] / ANALYSER_FFT_SIZE);
+      const decibels = 20 * Math.log10(smoothed[k] || 1e-10);
+      sum += Math.min(255, Math.max(0, Math.floor((255 * (decibels - ANALYSER_MIN_DECIBELS)) / range)));
+    }
+    readings.push(sum / binCount);
+  }
+  return readings;
+}
+
+// Decoded audio file as handed to the analysis worker: the analyser-rate signal for volume
+// readings and the same signal resampled for prosody, when resampling succeeded
+export interface DecodedAudioFile {
+  volume: PcmAudio;
+  prosody: PcmAudio | null;
+}
+
+export type AudioFileAnalysisResult =
+  | { ok: true; analysis: VoiceAnalysis }
+  | { ok: false; error: string };
+
+// The volume, silence and prosody analysis of a decoded file; audio-analysis.worker runs it
+export function analyzeDecodedAudio({ volume, prosody }: DecodedAudioFile): VoiceAnalysis {
+  let features: ProsodyFeatures | null = null;
+  if (prosody) {
+    try {
+      features = analyzeProsody(prosody);
+    } catch (error) {
+      console.warn('Prosody analysis unavailable:', error);
+    }
+  }
+  return analyzeVoiceData(volumeReadings(volume), volume.samples.length / volume.sampleRate, features);
+}
+
+// Resamples already decoded PCM with the browser's resampler instead of decoding the file again
+async function resamplePcm({ samples, sampleRate }: PcmAudio, targetRate: number): Promise<PcmAudio> {
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil((samples.length * targetRate) / sampleRate)), targetRate);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return { sampleRate: targetRate, samples: rendered.getChannelData(0) };
+}
+
+// Pitch tracking a long file takes seconds, so the analysis runs in a worker where one is available
+function analyzeInWorker(decoded: DecodedAudioFile): Promise<VoiceAnalysis> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(analyzeDecodedAudio(decoded));
+  }
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./audio-analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AudioFileAnalysisResult>) => {
+      worker.terminate();
+      if (event.data.ok) resolve(event.data.analysis);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Audio analysis failed'));
+    };
+    const buffers = [decoded.volume, decoded.prosody].flatMap(audio => (audio ? [audio.samples.buffer as ArrayBuffer] : []));
+    worker.postMessage(decoded, buffers);
+  });
+}
+
+// Offline counterpart of a recording: the same volume, silence and prosody analysis for audio files
+export async function analyzeAudioFile(file: Blob): Promise<VoiceAnalysis> {
+  const volume = await decodeAudioBlob(file, ANALYSER_SAMPLE_RATE);
+  if (volume.samples.length === 0) {
+    throw new Error('The audio file is empty');
+  }
+  let prosody: PcmAudio | null = null;
+  try {
+    prosody = await resamplePcm(volume, PROSODY_SAMPLE_RATE);
+  } catch (error) {
+    console.warn('Prosody analysis unavailable:', error);
+  }
+  return analyzeInWorker({ volume, prosody });
+}
+
+export type RecorderListener = (event: RecorderEvent) => void;
+
 export class VoiceRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
@@ -22,6 +240,26 @@ export class VoiceRecorder {
   private isRecording = false;
   private startTime = 0;
   private volumeData: number[] = [];
+  private maxDurationTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<RecorderListener>();
+
+  // Returns an unsubscribe function
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: RecorderEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Recorder listener failed:', error);
+      }
+    });
+  }
 
   async startRecording(options: VoiceRecordingOptions = {}): Promise<void> {
     try {
@@ -41,7 +279,6 @@ export class VoiceRecorder {
       source.connect(this.analyser);
       
       this.analyser.fftSize = 256;
-      this.startVolumeAnalysis();
 
       this.mediaRecorder = new MediaRecorder(this.stream, {
         mimeType: 'audio/webm;codecs=opus'
@@ -58,12 +295,14 @@ export class VoiceRecorder {
 
       this.mediaRecorder.start(100); // Collect data every 100ms
       this.isRecording = true;
+      this.emit({ type: 'start', maxDuration: options.maxDuration });
+      this.startVolumeAnalysis();
 
-      // Auto-stop after max duration
+      // Auto-stop after max duration; subscribers receive the result through the stop event
       if (options.maxDuration) {
-        setTimeout(() => {
+        this.maxDurationTimer = setTimeout(() => {
           if (this.isRecording) {
-            this.stopRecording();
+            this.stopRecording().catch(error => console.error('Auto-stop failed:', error));
           }
         }, options.maxDuration * 1000);
       }
@@ -81,13 +320,16 @@ export class VoiceRecorder {
         return;
       }
 
-      this.mediaRecorder.onstop = () => {
+      this.mediaRecorder.onstop = async () => {
         const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
         const duration = (Date.now() - this.startTime) / 1000;
-        
-        const analysis = this.analyzeVoiceData(duration);
-        
+        const volumeData = this.volumeData;
         this.cleanup();
+
+        const prosody = await this.extractProsody(audioBlob);
+        const analysis = analyzeVoiceData(volumeData, duration, prosody);
+        
+        this.emit({ type: 'stop', audioBlob, analysis });
         resolve({ audioBlob, analysis });
       };
 
@@ -101,6 +343,7 @@ export class VoiceRecorder {
 
     const bufferLength = this.analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
+    const waveform = new Uint8Array(this.analyser.fftSize);
 
     const analyze = () => {
       if (!this.isRecording || !this.analyser) return;
@@ -112,78 +355,40 @@ export class VoiceRecorder {
       const average = sum / bufferLength;
       this.volumeData.push(average);
 
+      if (this.listeners.size > 0) {
+        this.analyser.getByteTimeDomainData(waveform);
+        this.emit({
+          type: 'frame',
+          frame: {
+            elapsed: (Date.now() - this.startTime) / 1000,
+            volume: average,
+            frequencies: dataArray,
+            waveform
+          }
+        });
+      }
+
       requestAnimationFrame(analyze);
     };
 
     analyze();
   }
 
-  private analyzeVoiceData(duration: number): VoiceAnalysis {
-    if (this.volumeData.length === 0) {
-      return {
-        duration,
-        averageVolume: 0,
-        peakVolume: 0,
-        silencePeriods: [],
-        speechRate: 0,
-        emotionalTone: 'neutral'
-      };
+  private async extractProsody(audioBlob: Blob): Promise<ProsodyFeatures | null> {
+    try {
+      return analyzeProsody(await decodeAudioBlob(audioBlob));
+    } catch (error) {
+      console.warn('Prosody analysis unavailable:', error);
+      return null;
     }
-
-    const averageVolume = this.volumeData.reduce((a, b) => a + b, 0) / this.volumeData.length;
-    const peakVolume = Math.max(...this.volumeData);
-    
-    // Detect silence periods (volume below threshold)
-    const silenceThreshold = averageVolume * 0.3;
-    const silencePeriods: number[] = [];
-    let silenceStart = -1;
-    
-    this.volumeData.forEach((volume, index) => {
-      const timeStamp = (index / this.volumeData.length) * duration;
-      
-      if (volume < silenceThreshold && silenceStart === -1) {
-        silenceStart = timeStamp;
-      } else if (volume >= silenceThreshold && silenceStart !== -1) {
-        silencePeriods.push(timeStamp - silenceStart);
-        silenceStart = -1;
-      }
-    });
-
-    // Estimate speech rate (rough approximation)
-    const speechPeriods = duration - silencePeriods.reduce((a, b) => a + b, 0);
-    const estimatedWords = speechPeriods * 2.5; // Average 2.5 words per second
-    const speechRate = (estimatedWords / duration) * 60; // Words per minute
-
-    // Determine emotional tone based on volume patterns
-    const volumeVariance = this.calculateVariance(this.volumeData);
-    const emotionalTone = this.determineEmotionalTone(averageVolume, peakVolume, volumeVariance);
-
-    return {
-      duration,
-      averageVolume: Math.round(averageVolume),
-      peakVolume: Math.round(peakVolume),
-      silencePeriods,
-      speechRate: Math.round(speechRate),
-      emotionalTone
-    };
-  }
-
-  private calculateVariance(data: number[]): number {
-    const mean = data.reduce((a, b) => a + b, 0) / data.length;
-    const squaredDiffs = data.map(value => Math.pow(value - mean, 2));
-    return squaredDiffs.reduce((a, b) => a + b, 0) / data.length;
-  }
-
-  private determineEmotionalTone(avg: number, peak: number, variance: number): VoiceAnalysis['emotionalTone'] {
-    const intensity = peak / (avg || 1);
-    
-    if (variance > 500 && intensity > 2) return 'excited';
-    if (variance > 300 && avg > 50) return 'stressed';
-    if (variance < 100 && avg < 30) return 'calm';
-    return 'neutral';
   }
 
   private cleanup(): void {
+    if (this.maxDurationTimer) {
+      clearTimeout(this.maxDurationTimer);
+      this.maxDurationTimer = null;
+    }
+
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
       this.stream = null;
@@ -213,7 +418,7 @@ export class SpeechToText {
   private recognition: SpeechRecognition | null = null;
   private isListening = false;
 
-  constructor() {
+  constructor(lang: string = 'en-US') {
     if ('webkitSpeechRecognition' in window) {
       this.recognition = new (window as any).webkitSpeechRecognition();
     } else if ('SpeechRecognition' in window) {
@@ -223,7 +428,14 @@ export class SpeechToText {
     if (this.recognition) {
       this.recognition.continuous = true;
       this.recognition.interimResults = true;
-      this.recognition.lang = 'en-US';
+      this.recognition.lang = lang;
+    }
+  }
+
+  // Takes effect on the next startListening call
+  setLanguage(lang: string): void {
+    if (this.recognition) {
+      this.recognition.lang = lang;
     }
   }
 
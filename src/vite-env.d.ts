@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GROQ_API_KEY?: string;
+  readonly VITE_HF_API_KEY?: string;
+}